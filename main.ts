@@ -1,32 +1,123 @@
-import { Editor, MarkdownView, Notice, Plugin, TFolder, TFile, Menu } from 'obsidian';
-import { RenamePattern, TagRenamerSettings, ImportValidationResult, ImportResult, ExportData } from './src/types/interfaces';
+import { Editor, MarkdownView, Notice, Plugin, TAbstractFile, TFolder, TFile, Menu, MenuItem } from 'obsidian';
+import { RenamePattern, PropertyValueRule, PropertyMigration, PropertyTagConversion, TagRenamerSettings, TagFormatSettings, ImportValidationResult, ImportResult, ExportData, FileChangePreview, JournalEntry, TagStat, PatternSet, OperationScope, DiscoveredProperty } from './src/types/interfaces';
 import { FileService } from './src/services/FileService';
 import { TocService } from './src/services/TocService';
+import { JournalService } from './src/services/JournalService';
+import { TagIndexService } from './src/services/TagIndexService';
+import { AutoNormalizeService } from './src/services/AutoNormalizeService';
+import { MaintenanceService } from './src/services/MaintenanceService';
+import { PatternSetService } from './src/services/PatternSetService';
 import { RenameConfirmationModal } from './src/ui/modals/rename-confirmation-modal';
+import { RenamePreviewModal } from './src/ui/modals/rename-preview-modal';
 import { DuplicateRemovalConfirmationModal } from './src/ui/modals/duplicate-removal-modal';
+import { TagFormatConfirmationModal } from './src/ui/modals/tag-format-modal';
+import { UndoConfirmationModal } from './src/ui/modals/undo-confirmation-modal';
+import { JournalHistoryModal } from './src/ui/modals/journal-history-modal';
+import { MergeTagsModal } from './src/ui/modals/merge-tags-modal';
+import { PropertyMigrationModal } from './src/ui/modals/property-migration-modal';
+import { PropertyTagConversionModal } from './src/ui/modals/property-tag-conversion-modal';
+import { OperationReportModal } from './src/ui/modals/operation-report-modal';
 import { TagRenamerSettingTab } from './src/ui/settings/settings-tab';
+import { TagStatsView, VIEW_TYPE_TAG_STATS } from './src/ui/views/tag-stats-view';
 
 const DEFAULT_SETTINGS: TagRenamerSettings = {
 	renamePatterns: [],
 	propertyRenamePatterns: [],
+	propertyValueRules: [],
+	propertyConflictPolicy: 'merge',
 	tocOptions: {
 		maxDepth: 3,
 		includeLinks: true,
 		tocTitle: 'Table of Contents'
+	},
+	tagScope: 'frontmatter',
+	tagQuoteStyle: 'match',
+	tagFormat: {
+		style: 'flow',
+		singleTagInline: false
+	},
+	tagMatching: {
+		caseInsensitive: false,
+		unicodeNormalization: 'none',
+		dedupeVariants: false,
+		keepSpelling: 'first'
+	},
+	operationScope: {
+		includeGlobs: [],
+		excludeGlobs: []
+	},
+	autoNormalize: {
+		enabled: false,
+		delaySeconds: 5,
+		removeDuplicates: true,
+		excludeGlobs: []
+	},
+	maintenance: {
+		runOnStartup: false,
+		intervalHours: 0,
+		operations: ['renameTags', 'removeDuplicates'],
+		reportPath: 'Tag Renamer maintenance report.md'
 	}
 }
 
+// How often to check whether a scheduled maintenance run is due
+const MAINTENANCE_CHECK_INTERVAL = 10 * 60 * 1000;
+
 export default class TagRenamerPlugin extends Plugin {
 	settings!: TagRenamerSettings;
 	private fileService!: FileService;
 	private tocService!: TocService;
+	private journalService!: JournalService;
+	private tagIndex!: TagIndexService;
+	private autoNormalizer!: AutoNormalizeService;
+	private maintenance!: MaintenanceService;
+	private patternSetService = new PatternSetService();
 
 	async onload() {
 		await this.loadSettings();
 		
 		// Initialize services
-		this.fileService = new FileService(this.app);
+		const pluginDir = this.manifest.dir || `${this.app.vault.configDir}/plugins/${this.manifest.id}`;
+		this.journalService = new JournalService(this.app, `${pluginDir}/undo-journal.json`);
+		this.tagIndex = new TagIndexService(this.app);
+		this.fileService = new FileService(this.app, this.journalService, this.tagIndex);
+		this.fileService.setQuoteStyle(this.settings.tagQuoteStyle);
 		this.tocService = new TocService(this.app);
+		this.autoNormalizer = new AutoNormalizeService(this.app, () => this.settings);
+		// Maintenance runs in the background, so it gets a quiet file service and reports in a note instead
+		const maintenanceFileService = new FileService(this.app, this.journalService, this.tagIndex, true);
+		this.maintenance = new MaintenanceService(
+			this.app,
+			maintenanceFileService,
+			this.tocService,
+			() => this.settings,
+			() => this.saveSettings()
+		);
+
+		// Bulk runs, maintenance and undo must not be normalized again with the current patterns
+		const ignoreWrite = (path: string, content: string) => this.autoNormalizer.ignoreWrite(path, content);
+		this.fileService.setWriteListener(ignoreWrite);
+		maintenanceFileService.setWriteListener(ignoreWrite);
+		this.maintenance.setWriteListener(ignoreWrite);
+		this.journalService.setWriteListener(ignoreWrite);
+
+		// Keep tag discovery up to date without rescanning the vault
+		this.registerEvent(this.app.metadataCache.on('changed', (file, _data, cache) => this.tagIndex.updateFile(file, cache)));
+		this.registerEvent(this.app.vault.on('delete', file => this.tagIndex.removeFile(file)));
+		this.registerEvent(this.app.vault.on('rename', (file, oldPath) => this.tagIndex.renameFile(file, oldPath)));
+
+		// Normalize tags in changed notes when automatic normalization is enabled
+		this.registerEvent(this.app.vault.on('modify', file => {
+			if (file instanceof TFile) {
+				this.autoNormalizer.schedule(file);
+			}
+		}));
+		this.registerEvent(this.app.metadataCache.on('changed', file => this.autoNormalizer.schedule(file)));
+		this.registerEvent(this.app.workspace.on('active-leaf-change', () => this.autoNormalizer.flushDeferred()));
+
+		// Scheduled maintenance: once the workspace is ready, then whenever the configured interval has passed
+		this.app.workspace.onLayoutReady(() => this.maintenance.runOnStartup());
+		this.registerInterval(window.setInterval(() => this.maintenance.runIfDue(), MAINTENANCE_CHECK_INTERVAL));
 
 		// This creates an icon in the left ribbon.
 		this.addRibbonIcon('tag', 'Tag Renamer', () => {
@@ -63,6 +154,154 @@ export default class TagRenamerPlugin extends Plugin {
 			}
 		});
 
+		// Add command to apply the rename patterns to the current file
+		this.addCommand({
+			id: 'rename-tags-current',
+			name: 'Rename tags in current file',
+			editorCallback: async (_editor: Editor, ctx) => {
+				const view = ctx as MarkdownView;
+				const file = view.file;
+				if (!file) {
+					new Notice('No active file');
+					return;
+				}
+				await this.renameTagsInFiles([file]);
+			}
+		});
+
+		// Add command to bring the tag entries of the current file into the configured format
+		this.addCommand({
+			id: 'normalize-tag-format-current',
+			name: 'Normalize tag format in current file',
+			editorCallback: async (_editor: Editor, ctx) => {
+				const view = ctx as MarkdownView;
+				const file = view.file;
+				if (!file) {
+					new Notice('No active file');
+					return;
+				}
+				await this.normalizeTagFormatInFiles([file]);
+			}
+		});
+
+		// Add vault-wide commands; they honour the operation scope from the settings
+		this.addCommand({
+			id: 'rename-tags-in-vault',
+			name: 'Rename tags in vault',
+			callback: () => {
+				this.showRenameConfirmation(null);
+			}
+		});
+
+		this.addCommand({
+			id: 'preview-tag-renames-in-vault',
+			name: 'Preview tag renames in vault',
+			callback: async () => {
+				await this.showRenamePreview(null);
+			}
+		});
+
+		this.addCommand({
+			id: 'remove-duplicate-tags-in-vault',
+			name: 'Remove duplicate tags in vault',
+			callback: () => {
+				this.showDuplicateRemovalConfirmation(null);
+			}
+		});
+
+		this.addCommand({
+			id: 'normalize-tag-format-in-vault',
+			name: 'Normalize tag format in vault',
+			callback: () => {
+				this.showTagFormatConfirmation(null);
+			}
+		});
+
+		this.addCommand({
+			id: 'rename-tag-properties-in-vault',
+			name: 'Apply property patterns in vault',
+			callback: () => {
+				this.showPropertyRenameConfirmation(null);
+			}
+		});
+
+		this.addCommand({
+			id: 'migrate-property-type-in-vault',
+			name: 'Migrate property type in vault',
+			callback: async () => {
+				await this.showPropertyMigrationModal(null);
+			}
+		});
+
+		this.addCommand({
+			id: 'convert-property-tags-in-vault',
+			name: 'Convert between property and tags in vault',
+			callback: async () => {
+				await this.showPropertyTagConversionModal(null);
+			}
+		});
+
+		this.addCommand({
+			id: 'apply-property-value-rules-in-vault',
+			name: 'Apply property value rules in vault',
+			callback: () => {
+				this.showPropertyValueConfirmation(null);
+			}
+		});
+
+		// Add command to undo the most recent bulk operation
+		this.addCommand({
+			id: 'undo-last-tag-operation',
+			name: 'Undo last tag operation',
+			callback: async () => {
+				const entry = await this.journalService.getLastEntry();
+				if (!entry) {
+					new Notice('No tag operation to undo');
+					return;
+				}
+				await this.confirmUndo(entry);
+			}
+		});
+
+		// Add command to browse and undo recorded bulk operations
+		this.addCommand({
+			id: 'show-tag-operation-history',
+			name: 'Show tag operation history',
+			callback: async () => {
+				const entries = await this.journalService.getEntries();
+				new JournalHistoryModal(this.app, this, entries).open();
+			}
+		});
+
+		// Add command to run the configured maintenance operations now
+		this.addCommand({
+			id: 'run-tag-maintenance',
+			name: 'Run maintenance now',
+			callback: async () => {
+				await this.runMaintenance();
+			}
+		});
+
+		// Add command to fold several tags into one
+		this.addCommand({
+			id: 'merge-tags',
+			name: 'Merge tags',
+			callback: async () => {
+				await this.showMergeTagsModal();
+			}
+		});
+
+		// Register the tag statistics view and a command to open it
+		this.registerView(VIEW_TYPE_TAG_STATS, (leaf) => new TagStatsView(leaf, this));
+
+		this.addCommand({
+			id: 'open-tag-statistics',
+			name: 'Open tag statistics',
+			callback: async () => {
+				await this.openTagStatsView();
+			}
+		});
+
 		// Add command to insert/update TOC in current file
 		this.addCommand({
 			id: 'insert-toc-current',
@@ -94,6 +333,36 @@ export default class TagRenamerPlugin extends Plugin {
 								this.showRenameConfirmation(folder);
 							});
 					});
+
+					// Offer the other pattern sets once there is more than one
+					const patternSets = this.getPatternSets();
+					if (patternSets.length > 1) {
+						menu.addItem((item) => {
+							item
+								.setTitle('Rename tags in folder using…')
+								.setIcon('tags');
+							// setSubmenu is available at runtime but missing from the public typings
+							const submenu = (item as MenuItem & { setSubmenu(): Menu }).setSubmenu();
+							patternSets.forEach(set => {
+								submenu.addItem((setItem) => {
+									setItem
+										.setTitle(set.name)
+										.onClick(() => {
+											this.showRenameConfirmation(folder, set.id);
+										});
+								});
+							});
+						});
+					}
+
+					menu.addItem((item) => {
+						item
+							.setTitle('Preview tag renames in folder')
+							.setIcon('eye')
+							.onClick(() => {
+								this.showRenamePreview(folder);
+							});
+					});
 					
 					menu.addItem((item) => {
 						item
@@ -103,15 +372,51 @@ export default class TagRenamerPlugin extends Plugin {
 								this.showDuplicateRemovalConfirmation(folder);
 							});
 					});
+
+					menu.addItem((item) => {
+						item
+							.setTitle('Normalize tag format in folder')
+							.setIcon('list-checks')
+							.onClick(() => {
+								this.showTagFormatConfirmation(folder);
+							});
+					});
 					
 					menu.addItem((item) => {
 						item
-							.setTitle('Rename tag properties in folder')
+							.setTitle('Apply property patterns in folder')
 							.setIcon('file-text')
 							.onClick(() => {
 								this.showPropertyRenameConfirmation(folder);
 							});
 					});
+
+					menu.addItem((item) => {
+						item
+							.setTitle('Apply property value rules in folder')
+							.setIcon('replace')
+							.onClick(() => {
+								this.showPropertyValueConfirmation(folder);
+							});
+					});
+
+					menu.addItem((item) => {
+						item
+							.setTitle('Migrate property type in folder')
+							.setIcon('arrow-right-left')
+							.onClick(async () => {
+								await this.showPropertyMigrationModal(folder);
+							});
+					});
+
+					menu.addItem((item) => {
+						item
+							.setTitle('Convert between property and tags in folder')
+							.setIcon('tags')
+							.onClick(async () => {
+								await this.showPropertyTagConversionModal(folder);
+							});
+					});
 					
 					menu.addItem((item) => {
 						item
@@ -121,39 +426,135 @@ export default class TagRenamerPlugin extends Plugin {
 								this.insertTocInFolder(folder);
 							});
 					});
+				} else if (file instanceof TFile && file.extension === 'md') {
+					menu.addItem((item) => {
+						item
+							.setTitle('Rename tags in file')
+							.setIcon('tag')
+							.onClick(() => {
+								this.renameTagsInFiles([file]);
+							});
+					});
+
+					menu.addItem((item) => {
+						item
+							.setTitle('Normalize tag format')
+							.setIcon('list-checks')
+							.onClick(() => {
+								this.normalizeTagFormatInFiles([file]);
+							});
+					});
+				}
+			})
+		);
+
+		// Register context menu for a multi-file selection in the file explorer
+		this.registerEvent(
+			this.app.workspace.on('files-menu', (menu: Menu, files: TAbstractFile[]) => {
+				const markdownFiles = files.filter((file): file is TFile => file instanceof TFile && file.extension === 'md');
+				if (markdownFiles.length === 0) {
+					return;
 				}
+
+				menu.addItem((item) => {
+					item
+						.setTitle(`Rename tags in ${markdownFiles.length} files`)
+						.setIcon('tag')
+						.onClick(() => {
+							this.renameTagsInFiles(markdownFiles);
+						});
+				});
+
+				menu.addItem((item) => {
+					item
+						.setTitle(`Normalize tag format in ${markdownFiles.length} files`)
+						.setIcon('list-checks')
+						.onClick(() => {
+							this.normalizeTagFormatInFiles(markdownFiles);
+						});
+				});
 			})
 		);
 
 	}
 
 	onunload() {
-
+		this.autoNormalizer?.stop();
 	}
 
 	async loadSettings() {
 		this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+		this.patternSetService.ensureSets(this.settings);
 	}
 
 	async saveSettings() {
+		this.patternSetService.syncActiveSet(this.settings);
+		this.fileService?.setQuoteStyle(this.settings.tagQuoteStyle);
 		await this.saveData(this.settings);
 	}
 
-	showRenameConfirmation(folder: TFolder) {
-		new RenameConfirmationModal(this.app, this, folder).open();
+	getPatternSets(): PatternSet[] {
+		return this.patternSetService.getSets(this.settings);
+	}
+
+	getPatternSet(setId?: string): PatternSet {
+		return this.patternSetService.resolveSet(this.settings, setId);
+	}
+
+	async switchPatternSet(setId: string): Promise<void> {
+		if (this.patternSetService.switchTo(this.settings, setId)) {
+			await this.saveSettings();
+		}
+	}
+
+	async createPatternSet(name: string): Promise<PatternSet> {
+		const set = this.patternSetService.createSet(this.settings, name);
+		await this.saveSettings();
+		return set;
+	}
+
+	async duplicatePatternSet(setId: string): Promise<PatternSet | null> {
+		const set = this.patternSetService.duplicateSet(this.settings, setId);
+		await this.saveSettings();
+		return set;
+	}
+
+	async deletePatternSet(setId: string): Promise<boolean> {
+		const deleted = this.patternSetService.deleteSet(this.settings, setId);
+		await this.saveSettings();
+		return deleted;
+	}
+
+	async renamePatternSet(setId: string, name: string): Promise<void> {
+		this.patternSetService.renameSet(this.settings, setId, name);
+		await this.saveSettings();
+	}
+
+	showRenameConfirmation(folder: TFolder | null, setId?: string) {
+		new RenameConfirmationModal(this.app, this, folder, setId).open();
+	}
+
+	async showRenamePreview(folder: TFolder | null, setId?: string) {
+		new Notice(`Previewing tag renames in ${folder ? folder.name : 'the vault'}...`);
+		const previews = await this.previewTagRenames(folder, setId);
+		new RenamePreviewModal(this.app, this, folder, previews).open();
 	}
 
-	showDuplicateRemovalConfirmation(folder: TFolder) {
+	showDuplicateRemovalConfirmation(folder: TFolder | null) {
 		new DuplicateRemovalConfirmationModal(this.app, this, folder).open();
 	}
 
-	showPropertyRenameConfirmation(folder: TFolder) {
-		// Check if there are any property rename patterns configured
+	showTagFormatConfirmation(folder: TFolder | null) {
+		new TagFormatConfirmationModal(this.app, this, folder).open();
+	}
+
+	showPropertyRenameConfirmation(folder: TFolder | null) {
+		// Check if there are any property patterns configured
 		const patterns = this.settings.propertyRenamePatterns || [];
-		const validPatterns = patterns.filter(p => p.from && p.to);
+		const validPatterns = patterns.filter(p => this.fileService.isValidPropertyPattern(p));
 		
 		if (validPatterns.length === 0) {
-			new Notice('No property rename patterns configured. Please add patterns in settings first.');
+			new Notice('No property patterns configured. Please add patterns in settings first.');
 			return;
 		}
 		
@@ -161,30 +562,169 @@ export default class TagRenamerPlugin extends Plugin {
 		this.renameTagProperties(folder);
 	}
 
+	showPropertyValueConfirmation(folder: TFolder | null) {
+		const rules = (this.settings.propertyValueRules || []).filter(rule => rule.property && (rule.mode === 'unlink' || rule.search));
+
+		if (rules.length === 0) {
+			new Notice('No property value rules configured. Please add rules in settings first.');
+			return;
+		}
+
+		// Like property renames, value rules run directly; every run can be undone from the journal
+		this.applyPropertyValueRules(folder);
+	}
+
+	async confirmUndo(entry: JournalEntry): Promise<void> {
+		const changedFiles = await this.journalService.findChangedFiles(entry);
+		new UndoConfirmationModal(this.app, this, entry, changedFiles).open();
+	}
+
+	async undoJournalEntry(entry: JournalEntry, overwriteChanged: boolean): Promise<void> {
+		const result = await this.journalService.undo(entry, overwriteChanged);
+		const skippedText = result.skipped.length > 0 ? `, skipped ${result.skipped.length} changed or missing files, kept in the history to retry` : '';
+		new Notice(`Undo complete! Restored ${result.restored} files${skippedText}.`);
+	}
+
 	async removeDuplicatesFromFile(file: TFile): Promise<boolean> {
-		return await this.fileService.removeDuplicatesFromFile(file);
+		return await this.fileService.removeDuplicatesFromFile(file, undefined, this.fileService.getDuplicateOptions(this.settings));
+	}
+
+	async removeDuplicatesFromFolder(folder: TFolder | null) {
+		await this.fileService.removeDuplicatesFromFolder(folder, this.settings.operationScope, this.fileService.getDuplicateOptions(this.settings));
+	}
+
+	async normalizeTagFormat(folder: TFolder | null) {
+		await this.fileService.normalizeTagFormat(folder, this.getTagFormat(), this.settings.operationScope);
+	}
+
+	async normalizeTagFormatInFiles(files: TFile[]): Promise<void> {
+		await this.fileService.normalizeTagFormatInFiles(files, this.getTagFormat());
+	}
+
+	getTagFormat(): TagFormatSettings {
+		return this.settings.tagFormat || { style: 'flow', singleTagInline: false };
+	}
+
+	/**
+	 * Applies the tag patterns of a pattern set, or of the active set when setId is omitted
+	 */
+	async renameTags(folder: TFolder | null, setId?: string) {
+		const set = this.getPatternSet(setId);
+		await this.fileService.renameTags(folder, this.getEffectivePatterns(set.renamePatterns), set.tagScope, set.operationScope, this.isParallelPatternOrder());
+	}
+
+	async renameTagsInFiles(files: TFile[]): Promise<void> {
+		await this.fileService.renameTagsInFiles(files, this.getEffectivePatterns(this.settings.renamePatterns), this.settings.tagScope, undefined, this.isParallelPatternOrder());
+	}
+
+	isParallelPatternOrder(): boolean {
+		return this.settings.patternOrder === 'parallel';
+	}
+
+	/**
+	 * The patterns with the global case and Unicode matching options filled in
+	 */
+	getEffectivePatterns(patterns: RenamePattern[]): RenamePattern[] {
+		return this.fileService.applyMatchingDefaults(patterns, this.settings.tagMatching);
+	}
+
+	async runMaintenance(): Promise<void> {
+		new Notice('Running tag maintenance...');
+		const results = await this.maintenance.run();
+		if (!results) {
+			new Notice('Nothing to run: maintenance is already running or no operations are configured.');
+			return;
+		}
+		const modified = new Set(results.reduce((paths: string[], step) => paths.concat(step.result.modified), []));
+		new Notice(`Maintenance complete! Modified ${modified.size} files. See ${this.maintenance.getReportPath()}.`);
 	}
 
-	async removeDuplicatesFromFolder(folder: TFolder) {
-		await this.fileService.removeDuplicatesFromFolder(folder);
+	async previewTagRenames(folder: TFolder | null, setId?: string): Promise<FileChangePreview[]> {
+		const set = this.getPatternSet(setId);
+		return await this.fileService.previewTagRenames(folder, this.getEffectivePatterns(set.renamePatterns), set.tagScope, set.operationScope, this.isParallelPatternOrder());
 	}
 
-	async renameTags(folder: TFolder) {
-		await this.fileService.renameTags(folder, this.settings.renamePatterns);
+	async applyTagRenamePreview(changes: FileChangePreview[]): Promise<void> {
+		await this.fileService.applyFileChanges(changes);
 	}
 
 	async getAllTagsInVault(): Promise<string[]> {
-		return await this.fileService.getAllTagsInVault();
+		return await this.fileService.getAllTagsInVault(this.settings.tagScope);
+	}
+
+	onTagIndexChange(listener: () => void): () => void {
+		return this.tagIndex.onChange(listener);
+	}
+
+	async getTagStats(): Promise<TagStat[]> {
+		return await this.tagIndex.getTagStats();
 	}
 
-	exportPatternsToJson(): string {
+	async openTagStatsView(): Promise<void> {
+		const existing = this.app.workspace.getLeavesOfType(VIEW_TYPE_TAG_STATS);
+		if (existing.length > 0) {
+			await this.app.workspace.revealLeaf(existing[0]);
+			return;
+		}
+
+		const leaf = this.app.workspace.getRightLeaf(false);
+		if (leaf) {
+			await leaf.setViewState({ type: VIEW_TYPE_TAG_STATS, active: true });
+			await this.app.workspace.revealLeaf(leaf);
+		}
+	}
+
+	async showMergeTagsModal(preselected: string[] = []): Promise<void> {
+		const tags = await this.getAllTagsInVault();
+		new MergeTagsModal(this.app, this, tags, preselected).open();
+	}
+
+	async mergeTags(sourceTags: string[], target: string, savePatterns: boolean): Promise<void> {
+		if (savePatterns) {
+			const patterns = this.fileService.buildMergePatterns(sourceTags, target);
+			const existing = new Set(this.settings.renamePatterns.map(p => `${p.matchMode || 'exact'}:${p.search}`));
+			this.settings.renamePatterns.push(...patterns.filter(p => !existing.has(`exact:${p.search}`)));
+			await this.saveSettings();
+		}
+		await this.fileService.mergeTags(sourceTags, target, this.settings.tagScope, this.settings.operationScope, this.fileService.getDuplicateOptions(this.settings));
+	}
+
+	/**
+	 * Adds a rename or remove pattern unless an identical one already exists
+	 */
+	async addRenamePattern(pattern: RenamePattern): Promise<void> {
+		const exists = this.settings.renamePatterns.some(p =>
+			p.search === pattern.search && (p.matchMode || 'exact') === (pattern.matchMode || 'exact')
+		);
+		if (exists) {
+			new Notice(`A pattern for "${pattern.search}" already exists`);
+			return;
+		}
+
+		this.settings.renamePatterns.push(pattern);
+		await this.saveSettings();
+		new Notice(pattern.removeMode
+			? `Added pattern to remove "${pattern.search}"`
+			: `Added pattern "${pattern.search}" → "${pattern.replace}"`);
+	}
+
+	/**
+	 * Exports the active patterns, or a single pattern set including its name and scope
+	 */
+	exportPatternsToJson(setId?: string): string {
+		const set = setId ? this.getPatternSet(setId) : null;
 		const exportData: ExportData = {
 			version: "1.0",
 			exportDate: new Date().toISOString(),
 			pluginName: "Tag Renamer",
-			patterns: this.settings.renamePatterns,
-			propertyPatterns: this.settings.propertyRenamePatterns || []
+			patterns: set ? set.renamePatterns : this.settings.renamePatterns,
+			propertyPatterns: set ? set.propertyRenamePatterns : this.settings.propertyRenamePatterns || [],
+			// Value rules are global, so they travel with the full export but not with a single set
+			propertyValueRules: set ? undefined : this.settings.propertyValueRules || []
 		};
+		if (set) {
+			exportData.patternSet = { name: set.name, tagScope: set.tagScope, operationScope: set.operationScope };
+		}
 		return JSON.stringify(exportData, null, 2);
 	}
 
@@ -208,6 +748,15 @@ export default class TagRenamerPlugin extends Plugin {
 			if (pattern.removeMode !== undefined && typeof pattern.removeMode !== 'boolean') {
 				return { valid: false, error: `Pattern ${i + 1} removeMode must be boolean` };
 			}
+			if (pattern.matchMode !== undefined && !['exact', 'glob', 'regex', 'prefix'].includes(pattern.matchMode)) {
+				return { valid: false, error: `Pattern ${i + 1} matchMode must be "exact", "glob", "regex" or "prefix"` };
+			}
+			if (pattern.caseInsensitive !== undefined && typeof pattern.caseInsensitive !== 'boolean') {
+				return { valid: false, error: `Pattern ${i + 1} caseInsensitive must be boolean` };
+			}
+			if (pattern.unicodeNormalization !== undefined && !['none', 'NFC', 'NFKC'].includes(pattern.unicodeNormalization)) {
+				return { valid: false, error: `Pattern ${i + 1} unicodeNormalization must be "none", "NFC" or "NFKC"` };
+			}
 		}
 
 		// Validate property patterns if present
@@ -224,13 +773,45 @@ export default class TagRenamerPlugin extends Plugin {
 				if (typeof pattern.from !== 'string' || typeof pattern.to !== 'string') {
 					return { valid: false, error: `Property pattern ${i + 1} must have from and to strings` };
 				}
+				if (pattern.action !== undefined && !['rename', 'delete', 'set', 'add'].includes(pattern.action)) {
+					return { valid: false, error: `Property pattern ${i + 1} action must be "rename", "delete", "set" or "add"` };
+				}
+				if (pattern.value !== undefined && typeof pattern.value !== 'string') {
+					return { valid: false, error: `Property pattern ${i + 1} value must be a string` };
+				}
+			}
+		}
+
+		// Validate property value rules if present
+		if (data.propertyValueRules) {
+			if (!Array.isArray(data.propertyValueRules)) {
+				return { valid: false, error: 'Property value rules must be an array' };
+			}
+
+			for (let i = 0; i < data.propertyValueRules.length; i++) {
+				const rule = data.propertyValueRules[i];
+				if (!rule || typeof rule !== 'object') {
+					return { valid: false, error: `Property value rule ${i + 1} is invalid` };
+				}
+				if (typeof rule.property !== 'string' || typeof rule.search !== 'string' || typeof rule.replace !== 'string') {
+					return { valid: false, error: `Property value rule ${i + 1} must have property, search and replace strings` };
+				}
+				if (rule.mode !== undefined && !['exact', 'regex', 'unlink'].includes(rule.mode)) {
+					return { valid: false, error: `Property value rule ${i + 1} mode must be "exact", "regex" or "unlink"` };
+				}
+				if (rule.condition !== undefined && (typeof rule.condition?.property !== 'string' || typeof rule.condition?.value !== 'string')) {
+					return { valid: false, error: `Property value rule ${i + 1} condition must have property and value strings` };
+				}
 			}
 		}
 
 		return { valid: true };
 	}
 
-	importPatternsFromJson(jsonString: string, mergeMode: boolean = false): ImportResult {
+	/**
+	 * Imports patterns into the active set (replacing or merging), or as a new pattern set when asNewSet is true
+	 */
+	importPatternsFromJson(jsonString: string, mergeMode: boolean = false, asNewSet = false): ImportResult {
 		try {
 			const data = JSON.parse(jsonString);
 			const validation = this.validateImportData(data);
@@ -243,17 +824,41 @@ export default class TagRenamerPlugin extends Plugin {
 			const importedPatterns: RenamePattern[] = data.patterns.map((pattern: any) => ({
 				search: pattern.search,
 				replace: pattern.replace,
-				removeMode: pattern.removeMode || false
+				removeMode: pattern.removeMode || false,
+				matchMode: pattern.matchMode || 'exact',
+				// Case and Unicode options are only kept when set, so the global settings apply otherwise
+				...(pattern.caseInsensitive !== undefined ? { caseInsensitive: pattern.caseInsensitive } : {}),
+				...(pattern.unicodeNormalization !== undefined ? { unicodeNormalization: pattern.unicodeNormalization } : {})
 			}));
 
 			// Handle property patterns if present
 			const importedPropertyPatterns = data.propertyPatterns ? 
 				data.propertyPatterns.map((pattern: any) => ({
 					from: pattern.from,
-					to: pattern.to
+					to: pattern.to,
+					// Renames are stored without an action, like before property edits existed
+					...(pattern.action && pattern.action !== 'rename' ? { action: pattern.action, value: pattern.value || '' } : {})
+				})) : [];
+
+			// Value rules are not part of pattern sets; they are always added to (or replace) the global list
+			const importedValueRules: PropertyValueRule[] = data.propertyValueRules ?
+				data.propertyValueRules.map((rule: any) => ({
+					property: rule.property,
+					search: rule.search,
+					replace: rule.replace,
+					mode: rule.mode || 'exact',
+					...(rule.condition ? { condition: { property: rule.condition.property, value: rule.condition.value } } : {})
 				})) : [];
 			
-			if (mergeMode) {
+			if (asNewSet) {
+				const patternSet = data.patternSet && typeof data.patternSet === 'object' ? data.patternSet : {};
+				this.patternSetService.createSet(this.settings, typeof patternSet.name === 'string' ? patternSet.name : 'Imported set', {
+					renamePatterns: importedPatterns,
+					propertyRenamePatterns: importedPropertyPatterns,
+					tagScope: ['frontmatter', 'body', 'both'].includes(patternSet.tagScope) ? patternSet.tagScope : 'frontmatter',
+					operationScope: this.parseImportedScope(patternSet.operationScope)
+				});
+			} else if (mergeMode) {
 				// Add new patterns to existing ones
 				this.settings.renamePatterns.push(...importedPatterns);
 				if (importedPropertyPatterns.length > 0) {
@@ -263,15 +868,17 @@ export default class TagRenamerPlugin extends Plugin {
 					this.settings.propertyRenamePatterns.push(...importedPropertyPatterns);
 				}
 			} else {
-				// Replace all patterns
-				this.settings.renamePatterns = importedPatterns;
-				this.settings.propertyRenamePatterns = importedPropertyPatterns;
+				// Replace all patterns, and the value rules only if the file has them
+				this.patternSetService.replacePatterns(this.settings, importedPatterns, importedPropertyPatterns, data.propertyValueRules ? importedValueRules : undefined);
+			}
+			if ((asNewSet || mergeMode) && importedValueRules.length > 0) {
+				this.settings.propertyValueRules = [...(this.settings.propertyValueRules || []), ...importedValueRules];
 			}
 
 			this.saveSettings();
 			return { 
 				success: true, 
-				imported: importedPatterns.length + importedPropertyPatterns.length 
+				imported: importedPatterns.length + importedPropertyPatterns.length + importedValueRules.length
 			};
 		} catch (error) {
 			const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -279,12 +886,77 @@ export default class TagRenamerPlugin extends Plugin {
 		}
 	}
 
-	async renameTagProperties(folder: TFolder): Promise<void> {
-		await this.fileService.renameTagProperties(folder, this.settings.propertyRenamePatterns || []);
+	private parseImportedScope(scope: any): OperationScope {
+		const toGlobs = (value: unknown) => Array.isArray(value) ? value.filter((glob): glob is string => typeof glob === 'string') : [];
+		const filter = scope?.frontmatterFilter;
+		return {
+			includeGlobs: toGlobs(scope?.includeGlobs),
+			excludeGlobs: toGlobs(scope?.excludeGlobs),
+			frontmatterFilter: filter && typeof filter.property === 'string' && typeof filter.value === 'string'
+				? { property: filter.property, value: filter.value }
+				: undefined
+		};
+	}
+
+	async renameTagProperties(folder: TFolder | null): Promise<void> {
+		const result = await this.fileService.renameTagProperties(folder, this.settings.propertyRenamePatterns || [], this.settings.operationScope, this.settings.propertyConflictPolicy);
+		if (result.conflicts.length > 0) {
+			new OperationReportModal(
+				this.app,
+				'Property Rename Conflicts',
+				`Renamed properties in ${result.modified.length} note(s). ${new Set(result.conflicts.map(conflict => conflict.path)).size} note(s) already had the target property:`,
+				result.conflicts.map(conflict => ({ path: conflict.path, detail: this.fileService.describeConflict(conflict) }))
+			).open();
+		}
+	}
+
+	/**
+	 * Opens the migration dialog, suggesting discovered tag properties and the targets of property rename patterns
+	 */
+	async showPropertyMigrationModal(folder: TFolder | null, property = ''): Promise<void> {
+		const renameTargets = (this.settings.propertyRenamePatterns || []).map(pattern => pattern.to.trim()).filter(to => to);
+		const properties = [...new Set([...renameTargets, ...await this.findCustomTagPropertiesInVault()])];
+		new PropertyMigrationModal(this.app, this, folder, properties, property).open();
+	}
+
+	async migrateProperty(folder: TFolder | null, migration: PropertyMigration): Promise<void> {
+		const result = await this.fileService.migrateProperty(folder, migration, this.settings.operationScope);
+		if (result.issues.length > 0) {
+			new OperationReportModal(
+				this.app,
+				'Property Migration Report',
+				`Converted "${migration.property}" to ${migration.type} in ${result.modified.length} note(s). ${result.issues.length} value(s) could not be converted and were left unchanged:`,
+				result.issues.map(issue => ({ path: issue.path, detail: `${issue.value} — ${issue.reason}` }))
+			).open();
+		}
+	}
+
+	async showPropertyTagConversionModal(folder: TFolder | null, property = ''): Promise<void> {
+		new PropertyTagConversionModal(this.app, this, folder, await this.findCustomTagPropertiesInVault(), property).open();
+	}
+
+	async convertPropertyTags(folder: TFolder | null, conversion: PropertyTagConversion): Promise<void> {
+		const result = await this.fileService.convertPropertyTags(folder, conversion, this.settings.operationScope);
+		if (result.issues.length > 0) {
+			new OperationReportModal(
+				this.app,
+				'Property and Tag Conversion Report',
+				`Converted ${result.modified.length} note(s). ${result.issues.length} value(s) could not be converted${conversion.transfer === 'move' ? ' and were left in place' : ''}:`,
+				result.issues.map(issue => ({ path: issue.path, detail: `${issue.value} — ${issue.reason}` }))
+			).open();
+		}
+	}
+
+	async applyPropertyValueRules(folder: TFolder | null): Promise<void> {
+		await this.fileService.applyPropertyValueRules(folder, this.settings.propertyValueRules || [], this.settings.operationScope);
 	}
 
 	async findCustomTagPropertiesInVault(): Promise<string[]> {
-		return await this.fileService.findCustomTagPropertiesInVault();
+		return await this.fileService.findCustomTagPropertiesInVault(this.settings.propertyDiscovery);
+	}
+
+	async discoverProperties(): Promise<DiscoveredProperty[]> {
+		return await this.fileService.discoverProperties(this.settings.propertyDiscovery);
 	}
 
 	async insertTocInFile(file: TFile): Promise<void> {
@@ -309,33 +981,19 @@ export default class TagRenamerPlugin extends Plugin {
 		let processedCount = 0;
 		let updatedCount = 0;
 
-		const processFile = async (file: TFile) => {
-			if (file.extension === 'md') {
-				processedCount++;
-				const content = await this.app.vault.read(file);
-				
-				if (this.tocService.hasHeadings(content)) {
-					const success = await this.tocService.insertTocInFile(file, tocOptions);
-					if (success) {
-						updatedCount++;
-					}
-				}
-			}
-		};
+		new Notice('Inserting/updating TOCs in folder...');
 
-		const processFolder = async (currentFolder: TFolder) => {
-			// Process files in current folder
-			for (const child of currentFolder.children) {
-				if (child instanceof TFile) {
-					await processFile(child);
-				} else if (child instanceof TFolder) {
-					await processFolder(child);
+		for (const file of this.fileService.getFilesInScope(folder, this.settings.operationScope)) {
+			processedCount++;
+			const content = await this.app.vault.read(file);
+			
+			if (this.tocService.hasHeadings(content)) {
+				const success = await this.tocService.insertTocInFile(file, tocOptions);
+				if (success) {
+					updatedCount++;
 				}
 			}
-		};
-
-		new Notice('Inserting/updating TOCs in folder...');
-		await processFolder(folder);
+		}
 		
 		new Notice(`TOC processing complete: ${updatedCount} files updated out of ${processedCount} processed`);
 	}
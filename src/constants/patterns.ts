@@ -1,17 +1,18 @@
 export const REGEX_PATTERNS = {
-	FRONTMATTER: /^---\n(.*?)\n---/s,
-	TAG_ARRAY: /^tags:\s*\[(.*?)\]$/gm,
-	TAG_LIST: /^tags:\s*\n((?:\s*-\s*[^\n]+\n?)+)/gm,
-	SINGLE_TAG: /^tag:\s*(.+)$/gm,
-	TAG_LINE_MATCH: /^\s*-\s*([^\n]+)$/gm,
-	EMPTY_LINES: /\n\n+/g,
-	TRIM_LINES: /^\n+|\n+$/g
+	CODE_FENCE: /^\s*(`{3,}|~{3,})/,
+	// Inline code spans, URLs, wikilinks and markdown link targets never contain tags
+	INLINE_PROTECTED: /(`+)[^`]*?\1|[a-z][a-z0-9+.-]*:\/\/[^\s<>)\]]*|\[\[[^\]]*\]\]|\]\([^)]*\)/gi,
+	// Obsidian inline tag: preceded by whitespace or line start, at least one non-digit character
+	INLINE_TAG: /(?<=^|\s)#([\p{L}\p{N}_/-]*[\p{L}_/-][\p{L}\p{N}_/-]*)/gu,
+	// [[target]], [[target|alias]] and [[target#heading]]; group 1 is the link target
+	WIKILINK: /\[\[([^\]|]+)(?:\|[^\]]*)?\]\]/g
 } as const;
 
 export const UI_CONSTANTS = {
 	BATCH_SIZE: 10,
 	MAX_FILE_SIZE: 10 * 1024 * 1024, // 10MB
-	NOTIFICATION_DURATION: 3000
+	NOTIFICATION_DURATION: 3000,
+	MAX_JOURNAL_ENTRIES: 20
 } as const;
 
 export const CSS_STYLES = {
@@ -39,6 +40,22 @@ export const CSS_STYLES = {
 		cursor: pointer;
 		user-select: none;
 	`,
+	PATTERN_ERROR: `
+		color: var(--text-error);
+		font-size: 12px;
+		margin: -8px 0 8px 0;
+	`,
+	PATTERN_WARNING: `
+		color: var(--text-warning);
+		font-size: 12px;
+		margin: -8px 0 8px 0;
+	`,
+	PATTERN_ISSUES: `
+		border-left: 3px solid var(--text-warning);
+		padding: 4px 10px;
+		margin: 8px 0;
+		font-size: 13px;
+	`,
 	PREVIEW_CONTENT: `
 		background: var(--background-secondary);
 		padding: 10px;
@@ -46,5 +63,58 @@ export const CSS_STYLES = {
 		max-height: 200px;
 		overflow-y: auto;
 		font-size: 12px;
+	`,
+	PREVIEW_LIST: `
+		max-height: 400px;
+		overflow-y: auto;
+		margin-bottom: 20px;
+	`,
+	DIFF_BLOCK: `
+		background: var(--background-secondary);
+		padding: 6px 10px;
+		border-radius: 5px;
+		margin: 4px 0 12px 0;
+		font-family: var(--font-monospace);
+		font-size: 12px;
+		white-space: pre-wrap;
+	`,
+	DIFF_ADDED: `
+		color: var(--text-success);
+	`,
+	DIFF_REMOVED: `
+		color: var(--text-error);
+		text-decoration: line-through;
+	`,
+	STATS_TABLE: `
+		width: 100%;
+		border-collapse: collapse;
+		font-size: 13px;
+	`,
+	STATS_HEADER_CELL: `
+		text-align: left;
+		padding: 4px 6px;
+		cursor: pointer;
+		border-bottom: 1px solid var(--background-modifier-border);
+		white-space: nowrap;
+	`,
+	STATS_CELL: `
+		padding: 4px 6px;
+		border-bottom: 1px solid var(--background-modifier-border);
+	`,
+	STATS_FILE_LIST: `
+		margin: 0 0 6px 0;
+		font-size: 12px;
 	`
-} as const;
\ No newline at end of file
+} as const;
+
+// Standard tag keys, common metadata and Obsidian's own properties are never suggested as custom tag properties
+export const DEFAULT_PROPERTY_DISCOVERY = {
+	excludedProperties: [
+		'tags', 'tag', 'category', 'categories',
+		'title', 'author', 'date', 'created', 'modified', 'status', 'priority',
+		'aliases', 'alias', 'cssclass', 'cssclasses', 'publish', 'permalink', 'uuid', 'id'
+	],
+	maxValueLength: 50,
+	countSingleValues: true,
+	minConfidence: 50
+} as const;
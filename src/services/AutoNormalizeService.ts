@@ -0,0 +1,164 @@
+/**
+ * Auto Normalize Service
+ * Opt-in watcher that applies the rename patterns (and optionally duplicate removal) to notes
+ * shortly after they change. Changes are debounced per file, the note being edited is left alone
+ * until the user moves on, and the plugin's own writes (including bulk runs, maintenance and undo,
+ * which register through ignoreWrite) are recognised so they don't trigger again.
+ */
+
+import type { App, TFile } from 'obsidian';
+import { TagRenamerSettings } from '../types/interfaces';
+import { TagProcessor } from './TagProcessor';
+import { BodyTagProcessor } from './BodyTagProcessor';
+import { ScopeService } from './ScopeService';
+
+export class AutoNormalizeService {
+	private app: App;
+	private getSettings: () => TagRenamerSettings;
+	private tagProcessor: TagProcessor;
+	private bodyTagProcessor: BodyTagProcessor;
+	private scopeService: ScopeService;
+	private timers = new Map<string, ReturnType<typeof setTimeout>>();
+	// Files that changed while they were open in the active editor
+	private deferred = new Set<TFile>();
+	// Content the plugin last wrote per path, so the resulting modify event is ignored
+	private written = new Map<string, string>();
+	private running = new Set<string>();
+
+	constructor(app: App, getSettings: () => TagRenamerSettings) {
+		this.app = app;
+		this.getSettings = getSettings;
+		this.tagProcessor = new TagProcessor();
+		this.bodyTagProcessor = new BodyTagProcessor();
+		this.scopeService = new ScopeService(app);
+	}
+
+	/**
+	 * Handles the vault "modify" and metadata cache "changed" events by (re)starting the file's debounce timer
+	 */
+	schedule(file: TFile): void {
+		const options = this.getSettings().autoNormalize;
+		if (!options?.enabled || file.extension !== 'md' || this.isExcluded(file.path)) {
+			return;
+		}
+
+		this.cancel(file.path);
+		this.timers.set(file.path, setTimeout(() => {
+			this.timers.delete(file.path);
+			this.normalizeFile(file);
+		}, Math.max(0, options.delaySeconds) * 1000));
+	}
+
+	/**
+	 * Handles active leaf changes: files skipped while they were being edited are scheduled again
+	 */
+	flushDeferred(): void {
+		const activePath = this.app.workspace.getActiveFile()?.path;
+		Array.from(this.deferred).forEach(file => {
+			if (file.path !== activePath) {
+				this.deferred.delete(file);
+				this.schedule(file);
+			}
+		});
+	}
+
+	/**
+	 * Cancels all pending work; called when the plugin unloads
+	 */
+	stop(): void {
+		this.timers.forEach(timer => clearTimeout(timer));
+		this.timers.clear();
+		this.deferred.clear();
+		this.written.clear();
+	}
+
+	isExcluded(path: string): boolean {
+		const excludeGlobs = this.getSettings().autoNormalize?.excludeGlobs || [];
+		return !this.scopeService.matchesPath(path, { includeGlobs: [], excludeGlobs });
+	}
+
+	/**
+	 * Applies the rename patterns in the configured tag scope, then removes duplicate frontmatter tags if enabled
+	 */
+	normalizeContent(content: string, settings: TagRenamerSettings): string {
+		const patterns = this.tagProcessor.applyMatchingDefaults(settings.renamePatterns, settings.tagMatching)
+			.filter(p => p.search && (p.removeMode || p.replace));
+		const scope = settings.tagScope || 'frontmatter';
+		const parallel = settings.patternOrder === 'parallel';
+		this.tagProcessor.setQuoteStyle(settings.tagQuoteStyle);
+
+		let result = content;
+		if (patterns.length > 0 && scope !== 'body') {
+			result = this.tagProcessor.processFileContent(result, patterns, parallel);
+		}
+		if (patterns.length > 0 && scope !== 'frontmatter') {
+			result = this.bodyTagProcessor.processBodyContent(result, patterns, parallel);
+		}
+		if (settings.autoNormalize?.removeDuplicates && scope !== 'body') {
+			result = this.tagProcessor.removeDuplicateTagsFromContent(result, this.tagProcessor.getDuplicateOptions(settings));
+		}
+		return result;
+	}
+
+	/**
+	 * Registers a write made elsewhere in the plugin, so the note is not normalized again with the
+	 * current patterns (which would, for example, quietly revert an undo)
+	 */
+	ignoreWrite(path: string, content: string): void {
+		this.written.set(path, content);
+	}
+
+	/**
+	 * Returns true when the content is exactly what the plugin last wrote to the path
+	 */
+	isOwnWrite(path: string, content: string): boolean {
+		const written = this.written.get(path);
+		if (written === undefined) {
+			return false;
+		}
+		if (written === content) {
+			return true;
+		}
+		this.written.delete(path);
+		return false;
+	}
+
+	private async normalizeFile(file: TFile): Promise<void> {
+		const settings = this.getSettings();
+		if (!settings.autoNormalize?.enabled || this.running.has(file.path)) {
+			return;
+		}
+		if (this.app.workspace.getActiveFile()?.path === file.path) {
+			this.deferred.add(file);
+			return;
+		}
+
+		this.running.add(file.path);
+		try {
+			const content = await this.app.vault.read(file);
+			if (this.isOwnWrite(file.path, content)) {
+				return;
+			}
+
+			const normalized = this.normalizeContent(content, settings);
+			if (normalized === content) {
+				return;
+			}
+
+			this.ignoreWrite(file.path, normalized);
+			await this.app.vault.modify(file, normalized);
+		} catch (error) {
+			console.error(`Error normalizing tags in ${file.path}:`, error);
+		} finally {
+			this.running.delete(file.path);
+		}
+	}
+
+	private cancel(path: string): void {
+		const timer = this.timers.get(path);
+		if (timer !== undefined) {
+			clearTimeout(timer);
+			this.timers.delete(path);
+		}
+	}
+}
@@ -0,0 +1,105 @@
+/**
+ * Body Tag Processor Service
+ * Finds and rewrites inline #tags in the note body using the same rename patterns
+ * as the frontmatter. Fenced code blocks, inline code, URLs and links are left untouched.
+ */
+
+import { RenamePattern } from '../types/interfaces';
+import { REGEX_PATTERNS } from '../constants/patterns';
+import { TagProcessor } from './TagProcessor';
+import { FrontmatterParser } from './FrontmatterParser';
+
+// Placeholder for a removed tag so the surrounding whitespace can be tidied afterwards
+const REMOVED_TAG_MARKER = '\uE000';
+
+export class BodyTagProcessor {
+	private tagProcessor: TagProcessor;
+	private frontmatterParser: FrontmatterParser;
+
+	constructor() {
+		this.tagProcessor = new TagProcessor();
+		this.frontmatterParser = new FrontmatterParser();
+	}
+
+	/**
+	 * Returns every inline tag in the body (without the leading #), in order of appearance
+	 */
+	extractInlineTags(content: string): string[] {
+		const tags: string[] = [];
+		this.rewriteBody(content, tag => {
+			tags.push(tag);
+			return tag;
+		});
+		return tags;
+	}
+
+	/**
+	 * Applies rename patterns to the inline tags in the body, in order or in parallel (see TagProcessor.applyPatternsToTag)
+	 */
+	processBodyContent(content: string, patterns: RenamePattern[], parallel = false): string {
+		const compiledPatterns = this.tagProcessor.compilePatterns(patterns);
+		if (compiledPatterns.length === 0) {
+			return content;
+		}
+
+		return this.rewriteBody(content, tag => this.tagProcessor.applyPatternsToTag(tag, compiledPatterns, parallel));
+	}
+
+	private rewriteBody(content: string, rewrite: (tag: string) => string | null): string {
+		const frontmatter = this.frontmatterParser.parse(content);
+		const bodyStart = frontmatter ? frontmatter.fenceEnd : 0;
+
+		let fenceChar = '';
+		let fenceLength = 0;
+
+		const lines = content.slice(bodyStart).split('\n').map(line => {
+			const fenceMatch = line.match(REGEX_PATTERNS.CODE_FENCE);
+			if (fenceMatch) {
+				const marker = fenceMatch[1];
+				if (fenceLength === 0) {
+					fenceChar = marker[0];
+					fenceLength = marker.length;
+				} else if (marker[0] === fenceChar && marker.length >= fenceLength) {
+					fenceLength = 0;
+				}
+				return line;
+			}
+
+			return fenceLength > 0 ? line : this.rewriteLine(line, rewrite);
+		});
+
+		return content.slice(0, bodyStart) + lines.join('\n');
+	}
+
+	private rewriteLine(line: string, rewrite: (tag: string) => string | null): string {
+		let result = '';
+		let lastIndex = 0;
+
+		line.replace(REGEX_PATTERNS.INLINE_PROTECTED, (match: string, _ticks: string, offset: number) => {
+			result += this.rewriteText(line.slice(lastIndex, offset), rewrite) + match;
+			lastIndex = offset + match.length;
+			return match;
+		});
+
+		return result + this.rewriteText(line.slice(lastIndex), rewrite);
+	}
+
+	private rewriteText(text: string, rewrite: (tag: string) => string | null): string {
+		let removed = false;
+		const rewritten = text.replace(REGEX_PATTERNS.INLINE_TAG, (_match: string, tag: string) => {
+			const replacement = rewrite(tag);
+			if (replacement === null) {
+				removed = true;
+				return REMOVED_TAG_MARKER;
+			}
+			return `#${replacement}`;
+		});
+
+		if (!removed) {
+			return rewritten;
+		}
+
+		// "a #tag b" -> "a b", "#tag b" -> "b", "a #tag" -> "a"
+		return rewritten.replace(/[ \t]?\uE000[ \t]?/g, match => match.length === 3 ? ' ' : '');
+	}
+}
@@ -0,0 +1,53 @@
+/**
+ * Diff Service
+ * Computes line-based diffs used to preview changes before they are written
+ */
+
+import { DiffLine } from '../types/interfaces';
+
+export class DiffService {
+	/**
+	 * Diffs two texts line by line using the longest common subsequence
+	 */
+	diffLines(before: string, after: string): DiffLine[] {
+		const oldLines = before.length > 0 ? before.split('\n') : [];
+		const newLines = after.length > 0 ? after.split('\n') : [];
+
+		// lcs[i][j] holds the LCS length of oldLines[i..] and newLines[j..]
+		const lcs: number[][] = Array.from({ length: oldLines.length + 1 }, () =>
+			new Array(newLines.length + 1).fill(0)
+		);
+		for (let i = oldLines.length - 1; i >= 0; i--) {
+			for (let j = newLines.length - 1; j >= 0; j--) {
+				lcs[i][j] = oldLines[i] === newLines[j]
+					? lcs[i + 1][j + 1] + 1
+					: Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+			}
+		}
+
+		const diff: DiffLine[] = [];
+		let i = 0;
+		let j = 0;
+		while (i < oldLines.length && j < newLines.length) {
+			if (oldLines[i] === newLines[j]) {
+				diff.push({ type: 'unchanged', text: oldLines[i] });
+				i++;
+				j++;
+			} else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+				diff.push({ type: 'removed', text: oldLines[i] });
+				i++;
+			} else {
+				diff.push({ type: 'added', text: newLines[j] });
+				j++;
+			}
+		}
+		while (i < oldLines.length) {
+			diff.push({ type: 'removed', text: oldLines[i++] });
+		}
+		while (j < newLines.length) {
+			diff.push({ type: 'added', text: newLines[j++] });
+		}
+
+		return diff;
+	}
+}
@@ -1,17 +1,61 @@
 import { App, TFolder, TFile, Notice } from 'obsidian';
 import { TagProcessor } from './TagProcessor';
 import { TagPropertyProcessor } from './TagPropertyProcessor';
-import { RenamePattern, PropertyRenamePattern } from '../types/interfaces';
+import { PropertyValueProcessor } from './PropertyValueProcessor';
+import { PropertyMigrationService } from './PropertyMigrationService';
+import { PropertyTagConversionService } from './PropertyTagConversionService';
+import { BodyTagProcessor } from './BodyTagProcessor';
+import { DiffService } from './DiffService';
+import { JournalService } from './JournalService';
+import { TagIndexService } from './TagIndexService';
+import { ScopeService } from './ScopeService';
+import { RenamePattern, PropertyRenamePattern, PropertyValueRule, PropertyMigration, MigrationResult, PropertyTagConversion, PropertyConflictPolicy, KeyConflict, PropertyConflict, PropertyRenameResult, PropertyDiscoverySettings, DiscoveredProperty, FileChangePreview, JournalEntry, TagScope, OperationScope, OperationResult, DuplicateOptions, TagMatchingSettings, TagRenamerSettings, TagQuoteStyle, TagFormatSettings, WriteListener } from '../types/interfaces';
 
 export class FileService {
 	private app: App;
 	private tagProcessor: TagProcessor;
 	private propertyProcessor: TagPropertyProcessor;
+	private valueProcessor: PropertyValueProcessor;
+	private migrationService: PropertyMigrationService;
+	private conversionService: PropertyTagConversionService;
+	private bodyTagProcessor: BodyTagProcessor;
+	private diffService: DiffService;
+	private journal?: JournalService;
+	private tagIndex: TagIndexService;
+	private scopeService: ScopeService;
+	private quiet: boolean;
+	private writeListener?: WriteListener;
 
-	constructor(app: App) {
+	/**
+	 * A quiet instance shows no notices; background runs use it and report the returned results instead
+	 */
+	constructor(app: App, journal?: JournalService, tagIndex?: TagIndexService, quiet = false) {
 		this.app = app;
+		this.journal = journal;
+		this.quiet = quiet;
+		this.tagIndex = tagIndex || new TagIndexService(app);
+		this.scopeService = new ScopeService(app);
 		this.tagProcessor = new TagProcessor();
 		this.propertyProcessor = new TagPropertyProcessor();
+		this.valueProcessor = new PropertyValueProcessor();
+		this.migrationService = new PropertyMigrationService();
+		this.conversionService = new PropertyTagConversionService(this.tagProcessor);
+		this.bodyTagProcessor = new BodyTagProcessor();
+		this.diffService = new DiffService();
+	}
+
+	/**
+	 * Sets how rewritten frontmatter tags are quoted (see TagProcessor.setQuoteStyle)
+	 */
+	setQuoteStyle(style?: TagQuoteStyle): void {
+		this.tagProcessor.setQuoteStyle(style);
+	}
+
+	/**
+	 * Tells the listener about every note this service writes
+	 */
+	setWriteListener(listener?: WriteListener): void {
+		this.writeListener = listener;
 	}
 
 	getAllMarkdownFiles(folder: TFolder): TFile[] {
@@ -31,122 +75,312 @@ export class FileService {
 		return files;
 	}
 
-	async getAllTagsInVault(): Promise<string[]> {
-		const allTags = new Set<string>();
-		const markdownFiles = this.app.vault.getMarkdownFiles();
-
-		// Process files in batches to avoid memory issues
-		const BATCH_SIZE = 10;
-		for (let i = 0; i < markdownFiles.length; i += BATCH_SIZE) {
-			const batch = markdownFiles.slice(i, i + BATCH_SIZE);
-			const batchPromises = batch.map(async (file) => {
-				try {
-					const content = await this.app.vault.read(file);
-					return this.tagProcessor.extractTagsFromContent(content);
-				} catch (error) {
-					console.error(`Error reading file ${file.path}:`, error);
-					return [];
-				}
-			});
-
-			const batchResults = await Promise.all(batchPromises);
-			batchResults.forEach(tags => {
-				tags.forEach(tag => allTags.add(tag));
-			});
-		}
+	/**
+	 * Returns the markdown files a bulk operation should touch: the folder (or whole vault when null),
+	 * narrowed by the include/exclude globs and frontmatter filter of the scope
+	 */
+	getFilesInScope(folder: TFolder | null, scope?: OperationScope): TFile[] {
+		return this.scopeService.getFiles(folder, scope);
+	}
 
-		return Array.from(allTags).sort();
+	/**
+	 * Returns all unique tags in the vault from the metadata-cache backed index
+	 */
+	async getAllTagsInVault(scope: TagScope = 'frontmatter'): Promise<string[]> {
+		return await this.tagIndex.getAllTags(scope);
 	}
 
-	async removeDuplicatesFromFile(file: TFile): Promise<boolean> {
+	async removeDuplicatesFromFile(file: TFile, run?: JournalEntry, options?: DuplicateOptions): Promise<boolean> {
 		try {
 			const content = await this.app.vault.read(file);
-			const modifiedContent = this.tagProcessor.removeDuplicateTagsFromContent(content);
+			const modifiedContent = this.tagProcessor.removeDuplicateTagsFromContent(content, options);
 			
 			if (modifiedContent !== content) {
-				await this.app.vault.modify(file, modifiedContent);
-				new Notice(`Removed duplicate tags from ${file.name}`);
+				await this.writeFile(file, content, modifiedContent, run);
+				this.notify(`Removed duplicate tags from ${file.name}`);
 				return true;
 			} else {
-				new Notice(`No duplicate tags found in ${file.name}`);
+				this.notify(`No duplicate tags found in ${file.name}`);
 				return false;
 			}
 		} catch (error) {
 			console.error(`Error processing file ${file.path}:`, error);
 			const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-			new Notice(`Error processing ${file.name}: ${errorMessage}`);
+			this.notify(`Error processing ${file.name}: ${errorMessage}`);
 			return false;
 		}
 	}
 
-	async removeDuplicatesFromFolder(folder: TFolder): Promise<void> {
-		const files = this.getAllMarkdownFiles(folder);
-		let processedCount = 0;
-		let modifiedCount = 0;
+	async removeDuplicatesFromFolder(folder: TFolder | null, scope?: OperationScope, options?: DuplicateOptions): Promise<OperationResult> {
+		const files = this.getFilesInScope(folder, scope);
+		const result: OperationResult = { processed: 0, modified: [], errors: [] };
+		const run = this.journal?.startRun('Remove duplicate tags', `Remove duplicate tags in ${this.describeTarget(folder)}`);
 
-		new Notice(`Processing ${files.length} files for duplicate tags...`);
+		this.notify(`Processing ${files.length} files for duplicate tags...`);
 
 		for (const file of files) {
-			const wasModified = await this.removeDuplicatesFromFile(file);
-			if (wasModified) {
-				modifiedCount++;
+			try {
+				const content = await this.app.vault.read(file);
+				const modifiedContent = this.tagProcessor.removeDuplicateTagsFromContent(content, options);
+
+				if (modifiedContent !== content) {
+					await this.writeFile(file, content, modifiedContent, run);
+					result.modified.push(file.path);
+				}
+				result.processed++;
+			} catch (error) {
+				this.handleFileError(file, error, result);
 			}
-			processedCount++;
 		}
 
-		new Notice(`Completed! Processed ${processedCount} files, removed duplicates from ${modifiedCount} files.`);
+		await this.commitJournalRun(run);
+
+		this.notify(`Completed! Processed ${result.processed} files, removed duplicates from ${result.modified.length} files.`);
+		return result;
 	}
 
-	async renameTags(folder: TFolder, patterns: RenamePattern[]): Promise<void> {
-		const validPatterns = patterns.filter(p => 
-			p.search && (p.removeMode || p.replace)
+	async normalizeTagFormat(folder: TFolder | null, format: TagFormatSettings, scope?: OperationScope): Promise<OperationResult> {
+		return await this.normalizeTagFormatInFiles(
+			this.getFilesInScope(folder, scope),
+			format,
+			`Normalize tag format in ${this.describeTarget(folder)}`
 		);
+	}
+
+	/**
+	 * Brings the tag entries of the files into the target shape (see TagProcessor.normalizeTagFormat)
+	 */
+	async normalizeTagFormatInFiles(files: TFile[], format: TagFormatSettings, description?: string): Promise<OperationResult> {
+		const result: OperationResult = { processed: 0, modified: [], errors: [] };
+		const run = this.journal?.startRun('Normalize tag format', description || this.describeFiles(files, 'Normalize tag format'));
+
+		if (files.length > 1) {
+			this.notify(`Normalizing tag format in ${files.length} files...`);
+		}
+
+		for (const file of files) {
+			try {
+				const content = await this.app.vault.read(file);
+				const modifiedContent = this.tagProcessor.normalizeTagFormat(content, format);
+
+				if (modifiedContent !== content) {
+					await this.writeFile(file, content, modifiedContent, run);
+					result.modified.push(file.path);
+				}
+				result.processed++;
+			} catch (error) {
+				this.handleFileError(file, error, result);
+			}
+		}
+
+		await this.commitJournalRun(run);
+
+		if (files.length === 1) {
+			this.notify(result.modified.length > 0 ? `Normalized tag format in ${files[0].name}` : `Tag format already normalized in ${files[0].name}`);
+		} else {
+			this.notify(`Completed! Processed ${result.processed} files, normalized ${result.modified.length} files.`);
+		}
+		return result;
+	}
+
+	async renameTags(folder: TFolder | null, patterns: RenamePattern[], scope: TagScope = 'frontmatter', operationScope?: OperationScope, parallel = false): Promise<OperationResult> {
+		return await this.renameTagsInFiles(
+			this.getFilesInScope(folder, operationScope),
+			patterns,
+			scope,
+			`Rename tags in ${this.describeTarget(folder)}`,
+			parallel
+		);
+	}
+
+	/**
+	 * Applies the rename patterns to an explicit list of files, e.g. the active note or a
+	 * multi-file selection. The operation scope is not applied: the files were picked by hand.
+	 */
+	async renameTagsInFiles(files: TFile[], patterns: RenamePattern[], scope: TagScope = 'frontmatter', description?: string, parallel = false): Promise<OperationResult> {
+		const validPatterns = this.getValidRenamePatterns(patterns);
+		const result: OperationResult = { processed: 0, modified: [], errors: [] };
 		
 		if (validPatterns.length === 0) {
-			new Notice('No rename patterns configured. Please add patterns in settings.');
+			this.notify('No rename patterns configured. Please add patterns in settings.');
+			return result;
+		}
+
+		const run = this.journal?.startRun('Rename tags', description || this.describeFiles(files));
+
+		if (files.length > 1) {
+			this.notify(`Processing ${files.length} files...`);
+		}
+
+		for (const file of files) {
+			try {
+				const content = await this.app.vault.read(file);
+				const modifiedContent = this.applyRenamePatterns(content, validPatterns, scope, parallel);
+				
+				if (modifiedContent !== content) {
+					await this.writeFile(file, content, modifiedContent, run);
+					result.modified.push(file.path);
+				}
+				result.processed++;
+			} catch (error) {
+				this.handleFileError(file, error, result);
+			}
+		}
+
+		await this.commitJournalRun(run);
+
+		if (files.length === 1) {
+			this.notify(result.modified.length > 0 ? `Renamed tags in ${files[0].name}` : `No tags to rename in ${files[0].name}`);
+		} else {
+			this.notify(`Completed! Processed ${result.processed} files, modified ${result.modified.length} files.`);
+		}
+		return result;
+	}
+
+	buildMergePatterns(sourceTags: string[], target: string): RenamePattern[] {
+		return this.tagProcessor.buildMergePatterns(sourceTags, target);
+	}
+
+	applyMatchingDefaults(patterns: RenamePattern[], matching?: TagMatchingSettings): RenamePattern[] {
+		return this.tagProcessor.applyMatchingDefaults(patterns, matching);
+	}
+
+	getDuplicateOptions(settings: TagRenamerSettings): DuplicateOptions {
+		return this.tagProcessor.getDuplicateOptions(settings);
+	}
+
+	/**
+	 * Folds several tags into one target tag across the vault and removes the duplicates this creates.
+	 * Only files that carry one of the source tags are read. The merge target is the canonical spelling.
+	 */
+	async mergeTags(sourceTags: string[], target: string, scope: TagScope = 'frontmatter', operationScope?: OperationScope, duplicateOptions?: DuplicateOptions): Promise<void> {
+		const patterns = this.tagProcessor.buildMergePatterns(sourceTags, target);
+
+		if (patterns.length === 0) {
+			this.notify('Select at least one tag other than the merge target.');
 			return;
 		}
 
-		const files = this.getAllMarkdownFiles(folder);
-		let processedCount = 0;
+		const files = (await this.tagIndex.getFilesWithTags(patterns.map(p => p.search), scope))
+			.filter(file => this.scopeService.isInScope(file, operationScope));
+		const options = duplicateOptions && { ...duplicateOptions, canonicalTags: [patterns[0].replace, ...(duplicateOptions.canonicalTags || [])] };
 		let modifiedCount = 0;
+		const run = this.journal?.startRun('Merge tags', `Merge ${patterns.length} tags into "${patterns[0].replace}"`);
 
-		new Notice(`Processing ${files.length} files...`);
+		this.notify(`Merging tags in ${files.length} files...`);
 
 		for (const file of files) {
 			try {
 				const content = await this.app.vault.read(file);
-				const modifiedContent = this.tagProcessor.processFileContent(content, validPatterns);
-				
+				let modifiedContent = this.applyRenamePatterns(content, patterns, scope);
+				if (scope !== 'body') {
+					modifiedContent = this.tagProcessor.removeDuplicateTagsFromContent(modifiedContent, options);
+				}
+
 				if (modifiedContent !== content) {
-					await this.app.vault.modify(file, modifiedContent);
+					await this.writeFile(file, content, modifiedContent, run);
 					modifiedCount++;
 				}
-				processedCount++;
 			} catch (error) {
 				console.error(`Error processing file ${file.path}:`, error);
 				const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-				new Notice(`Error processing ${file.name}: ${errorMessage}`);
+				this.notify(`Error processing ${file.name}: ${errorMessage}`);
+			}
+		}
+
+		await this.commitJournalRun(run);
+
+		this.notify(`Merge completed! Modified ${modifiedCount} files.`);
+	}
+
+	/**
+	 * Runs the rename patterns against every file in a folder without writing anything.
+	 * Only files whose content would change are returned.
+	 */
+	async previewTagRenames(folder: TFolder | null, patterns: RenamePattern[], scope: TagScope = 'frontmatter', operationScope?: OperationScope, parallel = false): Promise<FileChangePreview[]> {
+		const validPatterns = this.getValidRenamePatterns(patterns);
+		const previews: FileChangePreview[] = [];
+
+		if (validPatterns.length === 0) {
+			return previews;
+		}
+
+		for (const file of this.getFilesInScope(folder, operationScope)) {
+			try {
+				const content = await this.app.vault.read(file);
+				const modifiedContent = this.applyRenamePatterns(content, validPatterns, scope, parallel);
+
+				if (modifiedContent !== content) {
+					const bodyDiff = this.diffService.diffLines(
+						this.tagProcessor.extractBody(content),
+						this.tagProcessor.extractBody(modifiedContent)
+					);
+					previews.push({
+						file,
+						originalContent: content,
+						modifiedContent,
+						frontmatterDiff: this.diffService.diffLines(
+							this.tagProcessor.extractFrontmatter(content),
+							this.tagProcessor.extractFrontmatter(modifiedContent)
+						),
+						bodyDiff: bodyDiff.filter(line => line.type !== 'unchanged')
+					});
+				}
+			} catch (error) {
+				console.error(`Error reading file ${file.path}:`, error);
+			}
+		}
+
+		return previews;
+	}
+
+	/**
+	 * Writes previously previewed changes. Files edited since the preview was taken are skipped.
+	 */
+	async applyFileChanges(changes: FileChangePreview[], description = 'Rename tags (previewed changes)'): Promise<void> {
+		let modifiedCount = 0;
+		let skippedCount = 0;
+		const run = this.journal?.startRun('Rename tags', description);
+
+		for (const change of changes) {
+			try {
+				const content = await this.app.vault.read(change.file);
+				if (content !== change.originalContent) {
+					skippedCount++;
+					continue;
+				}
+
+				await this.writeFile(change.file, content, change.modifiedContent, run);
+				modifiedCount++;
+			} catch (error) {
+				console.error(`Error processing file ${change.file.path}:`, error);
+				const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+				this.notify(`Error processing ${change.file.name}: ${errorMessage}`);
 			}
 		}
 
-		new Notice(`Completed! Processed ${processedCount} files, modified ${modifiedCount} files.`);
+		await this.commitJournalRun(run);
+
+		const skippedText = skippedCount > 0 ? `, skipped ${skippedCount} files changed since the preview` : '';
+		this.notify(`Completed! Modified ${modifiedCount} files${skippedText}.`);
 	}
 
 	/**
-	 * Renames tag properties in a single file
+	 * Renames tag properties in a single file. Conflicts with existing keys are resolved by the policy
+	 * and added to the conflicts list when one is given.
 	 */
-	async renameTagPropertiesInFile(file: TFile, patterns: PropertyRenamePattern[]): Promise<boolean> {
+	async renameTagPropertiesInFile(file: TFile, patterns: PropertyRenamePattern[], run?: JournalEntry, policy: PropertyConflictPolicy = 'merge', conflicts?: PropertyConflict[]): Promise<boolean> {
 		if (patterns.length === 0) {
 			return false;
 		}
 
 		try {
 			const content = await this.app.vault.read(file);
-			const modifiedContent = this.propertyProcessor.renameTagProperties(content, patterns);
+			const outcome = this.propertyProcessor.applyPropertyPatterns(content, patterns, policy);
+			conflicts?.push(...outcome.conflicts.map(conflict => ({ ...conflict, path: file.path })));
 			
-			if (modifiedContent !== content) {
-				await this.app.vault.modify(file, modifiedContent);
+			if (outcome.content !== content) {
+				await this.writeFile(file, content, outcome.content, run);
 				return true;
 			}
 			return false;
@@ -157,67 +391,247 @@ export class FileService {
 	}
 
 	/**
-	 * Renames tag properties in all markdown files within a folder
+	 * Applies the property patterns (renames, deletions and value edits) to all markdown files
+	 * within a folder (or the vault when folder is null)
 	 */
-	async renameTagProperties(folder: TFolder, patterns: PropertyRenamePattern[]): Promise<void> {
-		const validPatterns = patterns.filter(p => p.from && p.to);
+	async renameTagProperties(folder: TFolder | null, patterns: PropertyRenamePattern[], scope?: OperationScope, policy: PropertyConflictPolicy = 'merge'): Promise<PropertyRenameResult> {
+		const validPatterns = patterns.filter(p => this.propertyProcessor.isValidPattern(p));
+		const result: PropertyRenameResult = { processed: 0, modified: [], errors: [], conflicts: [] };
 		
 		if (validPatterns.length === 0) {
-			new Notice('No property rename patterns configured. Please add patterns in settings.');
-			return;
+			this.notify('No property patterns configured. Please add patterns in settings.');
+			return result;
 		}
 
-		const files = this.getAllMarkdownFiles(folder);
-		let processedCount = 0;
-		let modifiedCount = 0;
+		const files = this.getFilesInScope(folder, scope);
+		const run = this.journal?.startRun('Property patterns', `Apply property patterns in ${this.describeTarget(folder)}`);
 
-		new Notice(`Processing ${files.length} files for property renaming...`);
+		this.notify(`Processing ${files.length} files for property patterns...`);
 
 		for (const file of files) {
 			try {
-				const wasModified = await this.renameTagPropertiesInFile(file, validPatterns);
+				const wasModified = await this.renameTagPropertiesInFile(file, validPatterns, run, policy, result.conflicts);
 				
 				if (wasModified) {
-					modifiedCount++;
+					result.modified.push(file.path);
 				}
-				processedCount++;
+				result.processed++;
 			} catch (error) {
-				console.error(`Error processing file ${file.path}:`, error);
-				const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-				new Notice(`Error processing ${file.name}: ${errorMessage}`);
+				this.handleFileError(file, error, result);
 			}
 		}
 
-		new Notice(`Property renaming completed! Processed ${processedCount} files, modified ${modifiedCount} files.`);
+		await this.commitJournalRun(run);
+
+		const conflicts = result.conflicts.length > 0 ? `, ${result.conflicts.length} conflicts with existing properties` : '';
+		this.notify(`Property patterns completed! Processed ${result.processed} files, modified ${result.modified.length} files${conflicts}.`);
+		return result;
 	}
 
 	/**
-	 * Finds all custom tag properties in the vault
+	 * Whether a property pattern has everything its action needs (see TagPropertyProcessor.isValidPattern)
+	 */
+	isValidPropertyPattern(pattern: PropertyRenamePattern): boolean {
+		return this.propertyProcessor.isValidPattern(pattern);
+	}
+
+	/**
+	 * Describes what happened to a conflicting property (see TagPropertyProcessor.describeConflict)
+	 */
+	describeConflict(conflict: KeyConflict): string {
+		return this.propertyProcessor.describeConflict(conflict);
+	}
+
+	/**
+	 * Applies the property value rules to all markdown files within a folder (or the vault when folder is null)
+	 */
+	async applyPropertyValueRules(folder: TFolder | null, rules: PropertyValueRule[], scope?: OperationScope): Promise<OperationResult> {
+		const validRules = rules.filter(rule => rule.property && (rule.mode === 'unlink' || rule.search));
+		const result: OperationResult = { processed: 0, modified: [], errors: [] };
+
+		if (validRules.length === 0) {
+			this.notify('No property value rules configured. Please add rules in settings.');
+			return result;
+		}
+
+		const files = this.getFilesInScope(folder, scope);
+		const run = this.journal?.startRun('Rewrite property values', `Rewrite property values in ${this.describeTarget(folder)}`);
+
+		this.notify(`Processing ${files.length} files for property values...`);
+
+		for (const file of files) {
+			try {
+				const content = await this.app.vault.read(file);
+				const modifiedContent = this.valueProcessor.applyRules(content, validRules);
+
+				if (modifiedContent !== content) {
+					await this.writeFile(file, content, modifiedContent, run);
+					result.modified.push(file.path);
+				}
+				result.processed++;
+			} catch (error) {
+				this.handleFileError(file, error, result);
+			}
+		}
+
+		await this.commitJournalRun(run);
+
+		this.notify(`Property values completed! Processed ${result.processed} files, modified ${result.modified.length} files.`);
+		return result;
+	}
+
+	/**
+	 * Converts a property to another type in every file in scope. Values that cannot be converted
+	 * are left unchanged and returned as issues.
+	 */
+	async migrateProperty(folder: TFolder | null, migration: PropertyMigration, scope?: OperationScope): Promise<MigrationResult> {
+		const result: MigrationResult = { processed: 0, modified: [], errors: [], issues: [] };
+		if (!migration.property.trim()) {
+			this.notify('Please enter the property to migrate.');
+			return result;
+		}
+
+		const files = this.getFilesInScope(folder, scope);
+		const run = this.journal?.startRun('Migrate property', `Convert "${migration.property.trim()}" to ${migration.type} in ${this.describeTarget(folder)}`);
+
+		this.notify(`Converting "${migration.property.trim()}" in ${files.length} files...`);
+
+		for (const file of files) {
+			try {
+				const content = await this.app.vault.read(file);
+				const outcome = this.migrationService.migrate(content, migration);
+
+				if (outcome.content !== content) {
+					await this.writeFile(file, content, outcome.content, run);
+					result.modified.push(file.path);
+				}
+				result.issues.push(...outcome.issues.map(issue => ({ ...issue, path: file.path })));
+				result.processed++;
+			} catch (error) {
+				this.handleFileError(file, error, result);
+			}
+		}
+
+		await this.commitJournalRun(run);
+
+		const unconverted = result.issues.length > 0 ? `, ${result.issues.length} values could not be converted` : '';
+		this.notify(`Property migration completed! Processed ${result.processed} files, modified ${result.modified.length} files${unconverted}.`);
+		return result;
+	}
+
+	/**
+	 * Moves or copies values between a property and nested tags with the given prefix in every note in scope.
+	 * Values that cannot be converted are reported; when moving, their source is kept.
 	 */
-	async findCustomTagPropertiesInVault(): Promise<string[]> {
-		const allProperties = new Set<string>();
-		const markdownFiles = this.app.vault.getMarkdownFiles();
-
-		// Process files in batches to avoid memory issues
-		const BATCH_SIZE = 10;
-		for (let i = 0; i < markdownFiles.length; i += BATCH_SIZE) {
-			const batch = markdownFiles.slice(i, i + BATCH_SIZE);
-			const batchPromises = batch.map(async (file) => {
-				try {
-					const content = await this.app.vault.read(file);
-					return this.propertyProcessor.findCustomTagProperties(content);
-				} catch (error) {
-					console.error(`Error reading file ${file.path}:`, error);
-					return [];
+	async convertPropertyTags(folder: TFolder | null, conversion: PropertyTagConversion, scope?: OperationScope): Promise<MigrationResult> {
+		const result: MigrationResult = { processed: 0, modified: [], errors: [], issues: [] };
+		const property = conversion.property.trim();
+		const prefix = this.conversionService.normalizePrefix(conversion.prefix);
+		if (!property || (conversion.direction === 'to-property' && !prefix)) {
+			this.notify('Please enter the property and the tag prefix to convert.');
+			return result;
+		}
+
+		const files = this.getFilesInScope(folder, scope);
+		const tagText = prefix ? `"${prefix}/…" tags` : 'tags';
+		const description = conversion.direction === 'to-tags' ? `"${property}" to ${tagText}` : `${tagText} to "${property}"`;
+		const verb = conversion.transfer === 'move' ? 'Move' : 'Copy';
+		const run = this.journal?.startRun('Convert property and tags', `${verb} ${description} in ${this.describeTarget(folder)}`);
+
+		this.notify(`Converting ${description} in ${files.length} files...`);
+
+		for (const file of files) {
+			try {
+				const content = await this.app.vault.read(file);
+				const outcome = this.conversionService.convert(content, conversion);
+
+				if (outcome.content !== content) {
+					await this.writeFile(file, content, outcome.content, run);
+					result.modified.push(file.path);
 				}
-			});
+				result.issues.push(...outcome.issues.map(issue => ({ ...issue, path: file.path })));
+				result.processed++;
+			} catch (error) {
+				this.handleFileError(file, error, result);
+			}
+		}
+
+		await this.commitJournalRun(run);
+
+		const unconverted = result.issues.length > 0 ? `, ${result.issues.length} values could not be converted` : '';
+		this.notify(`Conversion completed! Processed ${result.processed} files, modified ${result.modified.length} files${unconverted}.`);
+		return result;
+	}
+
+	/**
+	 * Finds all custom tag properties in the vault
+	 */
+	async findCustomTagPropertiesInVault(settings?: PropertyDiscoverySettings): Promise<string[]> {
+		return await this.tagIndex.getAllCustomProperties(settings);
+	}
 
-			const batchResults = await Promise.all(batchPromises);
-			batchResults.forEach(properties => {
-				properties.forEach(prop => allProperties.add(prop));
-			});
+	/**
+	 * Scores the properties in the vault as likely tag properties, with note counts and a sample value
+	 */
+	async discoverProperties(settings?: PropertyDiscoverySettings): Promise<DiscoveredProperty[]> {
+		return await this.tagIndex.getDiscoveredProperties(settings);
+	}
+
+	/**
+	 * Applies rename patterns to the frontmatter, the body or both, in order or in parallel
+	 */
+	private applyRenamePatterns(content: string, patterns: RenamePattern[], scope: TagScope, parallel = false): string {
+		let result = content;
+		if (scope !== 'body') {
+			result = this.tagProcessor.processFileContent(result, patterns, parallel);
+		}
+		if (scope !== 'frontmatter') {
+			result = this.bodyTagProcessor.processBodyContent(result, patterns, parallel);
 		}
+		return result;
+	}
+
+	private notify(message: string): void {
+		if (!this.quiet) {
+			new Notice(message);
+		}
+	}
 
-		return Array.from(allProperties).sort();
+	private handleFileError(file: TFile, error: unknown, result: OperationResult): void {
+		console.error(`Error processing file ${file.path}:`, error);
+		const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+		result.errors.push(`${file.path}: ${errorMessage}`);
+		this.notify(`Error processing ${file.name}: ${errorMessage}`);
+	}
+
+	private describeTarget(folder: TFolder | null): string {
+		return folder ? `"${folder.name}"` : 'the vault';
+	}
+
+	private describeFiles(files: TFile[], action = 'Rename tags'): string {
+		return files.length === 1 ? `${action} in "${files[0].name}"` : `${action} in ${files.length} selected files`;
+	}
+
+	/**
+	 * Writes new content to a file and records the change in the journal run, if any
+	 */
+	private async writeFile(file: TFile, originalContent: string, modifiedContent: string, run?: JournalEntry): Promise<void> {
+		this.writeListener?.(file.path, modifiedContent);
+		await this.app.vault.modify(file, modifiedContent);
+		if (run && this.journal) {
+			this.journal.recordChange(run, file, originalContent, modifiedContent);
+		}
+	}
+
+	private async commitJournalRun(run?: JournalEntry): Promise<void> {
+		if (run && this.journal) {
+			await this.journal.commitRun(run);
+		}
+	}
+
+	private getValidRenamePatterns(patterns: RenamePattern[]): RenamePattern[] {
+		return patterns.filter(p => 
+			p.search && (p.removeMode || p.replace)
+		);
 	}
-}
\ No newline at end of file
+}
@@ -0,0 +1,542 @@
+/**
+ * Frontmatter Parser
+ * Format-preserving reader for the YAML frontmatter block. Top-level entries are
+ * parsed together with their source offsets, so callers can splice in targeted
+ * edits while every untouched byte of the file stays exactly as it was.
+ */
+
+export type QuoteStyle = '"' | "'" | '';
+
+// scalar: `key: value`, flow: `key: [a, b]`, block: `key:` followed by `- a` lines,
+// block-scalar: `key: |` or `key: >-`, mapping: nested keys, unknown: unparseable value
+export type FrontmatterValueKind = 'empty' | 'scalar' | 'flow' | 'block' | 'block-scalar' | 'mapping' | 'unknown';
+
+export interface FrontmatterItem {
+	value: string;     // Unquoted, unescaped value
+	raw: string;       // Source text including quotes
+	quote: QuoteStyle;
+	start: number;     // Offsets of raw within the frontmatter text
+	end: number;
+	lineStart: number; // Block list items: offsets of the whole "- item" line including its line break
+	lineEnd: number;
+}
+
+export interface FrontmatterEntry {
+	key: string;
+	keyQuote: QuoteStyle;
+	keyStart: number;  // Offsets of the raw key (including quotes)
+	keyEnd: number;
+	indent: string;
+	kind: FrontmatterValueKind;
+	items: FrontmatterItem[];
+	itemIndent: string; // Indentation before "- " in block lists
+	valueStart: number; // Offset right after the colon
+	valueEnd: number;   // Offset after the inline value (scalar and flow entries), otherwise valueStart
+	start: number;      // Offset of the key line
+	end: number;        // Offset after the entry's last line, including its line break
+}
+
+export interface ParsedFrontmatter {
+	text: string;     // Raw YAML between the fences, including the final line break
+	start: number;    // Offset of text within the file
+	end: number;      // Offset of the closing fence line within the file
+	fenceEnd: number; // Offset right after the closing ---
+	eol: string;
+	entries: FrontmatterEntry[];
+}
+
+export interface TextEdit {
+	start: number; // Offsets within the frontmatter text
+	end: number;
+	text: string;
+}
+
+interface Line {
+	text: string;
+	start: number;
+	next: number; // Offset of the following line
+	indent: number;
+}
+
+// Plain scalars that YAML would read as something other than a string
+const NON_STRING_SCALAR = /^(?:true|false|yes|no|on|off|null|~|[-+]?(?:\d[\d_]*)?\.?\d+(?:e[-+]?\d+)?|0x[0-9a-f]+|\.inf|\.nan)$/i;
+
+export class FrontmatterParser {
+	/**
+	 * Parses the frontmatter at the start of a file, or returns null if there is none
+	 */
+	parse(content: string): ParsedFrontmatter | null {
+		const openMatch = content.match(/^---[ \t]*(\r?\n)/);
+		if (!openMatch) {
+			return null;
+		}
+
+		const start = openMatch[0].length;
+		const closeRegex = /^---[ \t]*\r?$/gm;
+		closeRegex.lastIndex = start;
+		const closeMatch = closeRegex.exec(content);
+		if (!closeMatch) {
+			return null;
+		}
+
+		const text = content.slice(start, closeMatch.index);
+		return {
+			text,
+			start,
+			end: closeMatch.index,
+			fenceEnd: closeMatch.index + 3,
+			eol: openMatch[1],
+			entries: this.parseEntries(text)
+		};
+	}
+
+	/**
+	 * Applies edits to the frontmatter text and returns the full new file content
+	 */
+	applyEdits(content: string, frontmatter: ParsedFrontmatter, edits: TextEdit[]): string {
+		if (edits.length === 0) {
+			return content;
+		}
+
+		let text = frontmatter.text;
+		const sorted = [...edits].sort((a, b) => b.start - a.start);
+		for (const edit of sorted) {
+			text = text.slice(0, edit.start) + edit.text + text.slice(edit.end);
+		}
+
+		return content.slice(0, frontmatter.start) + text + content.slice(frontmatter.end);
+	}
+
+	/**
+	 * Reduces the entries to the shape Obsidian's metadata cache would give: lists become arrays,
+	 * scalars strings and everything else null
+	 */
+	getValues(frontmatter: ParsedFrontmatter): Record<string, unknown> {
+		const values: Record<string, unknown> = {};
+		for (const entry of frontmatter.entries) {
+			if (entry.kind === 'flow' || entry.kind === 'block') {
+				values[entry.key] = entry.items.map(item => item.value);
+			} else if (entry.kind === 'scalar') {
+				values[entry.key] = entry.items[0].value;
+			} else {
+				values[entry.key] = null;
+			}
+		}
+		return values;
+	}
+
+	/**
+	 * Returns the raw source of an entry's key, e.g. `"my key"` or `tags`
+	 */
+	getRawKey(frontmatter: ParsedFrontmatter, entry: FrontmatterEntry): string {
+		return frontmatter.text.slice(entry.keyStart, entry.keyEnd);
+	}
+
+	/**
+	 * Formats a value with the given quoting style
+	 */
+	formatScalar(value: string, quote: QuoteStyle): string {
+		if (quote === '"') {
+			return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+		}
+		if (quote === "'") {
+			return `'${value.replace(/'/g, "''")}'`;
+		}
+		return value;
+	}
+
+	/**
+	 * Whether a plain (unquoted) value would be misread by a YAML parser
+	 */
+	needsQuotes(value: string, inFlow: boolean): boolean {
+		if (value.length === 0 || value !== value.trim()) {
+			return true;
+		}
+		if (/^[-?:,[\]{}#&*!|>'"%@`]/.test(value) || /: |:$| #/.test(value)) {
+			return true;
+		}
+		if (inFlow && /[,[\]{}]/.test(value)) {
+			return true;
+		}
+		return NON_STRING_SCALAR.test(value);
+	}
+
+	/**
+	 * Formats a value keeping the preferred quote style, falling back to double quotes when a plain value is unsafe
+	 */
+	formatValue(value: string, preferredQuote: QuoteStyle, inFlow: boolean): string {
+		if (preferredQuote === '' && this.needsQuotes(value, inFlow)) {
+			return this.formatScalar(value, '"');
+		}
+		return this.formatScalar(value, preferredQuote);
+	}
+
+	private splitLines(text: string): Line[] {
+		const lines: Line[] = [];
+		let pos = 0;
+		while (pos < text.length) {
+			const newline = text.indexOf('\n', pos);
+			const next = newline === -1 ? text.length : newline + 1;
+			let lineEnd = newline === -1 ? text.length : newline;
+			if (text[lineEnd - 1] === '\r') {
+				lineEnd--;
+			}
+			const lineText = text.slice(pos, lineEnd);
+			lines.push({
+				text: lineText,
+				start: pos,
+				next,
+				indent: lineText.length - lineText.replace(/^[ \t]+/, '').length
+			});
+			pos = next;
+		}
+		return lines;
+	}
+
+	private isBlank(line: Line): boolean {
+		return line.text.trim() === '';
+	}
+
+	private isComment(line: Line): boolean {
+		return line.text.trim().startsWith('#');
+	}
+
+	private isListItem(line: Line): boolean {
+		return /^-(?:[ \t]|$)/.test(line.text.slice(line.indent));
+	}
+
+	private parseEntries(text: string): FrontmatterEntry[] {
+		const lines = this.splitLines(text);
+		const entries: FrontmatterEntry[] = [];
+
+		const firstContent = lines.find(line => !this.isBlank(line) && !this.isComment(line));
+		if (!firstContent) {
+			return entries;
+		}
+		const baseIndent = firstContent.indent;
+
+		let i = 0;
+		while (i < lines.length) {
+			const line = lines[i];
+			if (this.isBlank(line) || this.isComment(line) || line.indent !== baseIndent || this.isListItem(line)) {
+				i++;
+				continue;
+			}
+
+			const entry = this.parseKeyLine(text, line);
+			if (!entry) {
+				i++;
+				continue;
+			}
+
+			// Flow sequences may span several lines; continue after the line holding the closing bracket
+			let last = i;
+			if (entry.kind === 'flow' && entry.end > line.next) {
+				while (last + 1 < lines.length && lines[last + 1].start < entry.end) {
+					last++;
+				}
+			}
+
+			// Collect indented continuation lines (and list items at the key's own indent)
+			const acceptsListItems = entry.kind === 'empty';
+			let j = last + 1;
+			while (j < lines.length) {
+				if (this.isBlank(lines[j])) {
+					let k = j;
+					while (k < lines.length && this.isBlank(lines[k])) {
+						k++;
+					}
+					if (k < lines.length && this.isContinuation(lines[k], baseIndent, acceptsListItems)) {
+						j = k;
+						continue;
+					}
+					break;
+				}
+				if (!this.isContinuation(lines[j], baseIndent, acceptsListItems)) {
+					break;
+				}
+				last = j;
+				j++;
+			}
+
+			const continuation = lines.slice(i + 1, last + 1);
+			this.parseContinuation(text, entry, continuation);
+			entry.end = lines[last].next;
+			entries.push(entry);
+			i = last + 1;
+		}
+
+		return entries;
+	}
+
+	private isContinuation(line: Line, baseIndent: number, acceptsListItems: boolean): boolean {
+		if (line.indent > baseIndent) {
+			return true;
+		}
+		return acceptsListItems && line.indent === baseIndent && this.isListItem(line);
+	}
+
+	/**
+	 * Parses "key: value" on a single line. The value kind may be refined once continuation lines are known.
+	 */
+	private parseKeyLine(text: string, line: Line): FrontmatterEntry | null {
+		const keyStart = line.start + line.indent;
+		let key: string;
+		let keyQuote: QuoteStyle = '';
+		let keyEnd: number;
+		let colon: number;
+
+		const first = text[keyStart];
+		if (first === '"' || first === "'") {
+			const quoted = this.parseQuoted(text, keyStart, line.start + line.text.length);
+			if (!quoted) {
+				return null;
+			}
+			key = quoted.value;
+			keyQuote = first;
+			keyEnd = quoted.end;
+			const afterKey = text.slice(keyEnd, line.start + line.text.length).match(/^[ \t]*:(?=[ \t]|$)/);
+			if (!afterKey) {
+				return null;
+			}
+			colon = keyEnd + afterKey[0].length - 1;
+		} else {
+			const rest = line.text.slice(line.indent);
+			const colonMatch = rest.match(/:(?=[ \t]|$)/);
+			if (!colonMatch || colonMatch.index === undefined) {
+				return null;
+			}
+			key = rest.slice(0, colonMatch.index).trimEnd();
+			if (key.length === 0) {
+				return null;
+			}
+			keyEnd = keyStart + key.length;
+			colon = keyStart + colonMatch.index;
+		}
+
+		const entry: FrontmatterEntry = {
+			key,
+			keyQuote,
+			keyStart,
+			keyEnd,
+			indent: line.text.slice(0, line.indent),
+			kind: 'empty',
+			items: [],
+			itemIndent: '',
+			valueStart: colon + 1,
+			valueEnd: colon + 1,
+			start: line.start,
+			end: line.next
+		};
+
+		const lineEnd = line.start + line.text.length;
+		let valuePos = colon + 1;
+		while (valuePos < lineEnd && (text[valuePos] === ' ' || text[valuePos] === '\t')) {
+			valuePos++;
+		}
+		const valueChar = text[valuePos];
+
+		if (valuePos >= lineEnd || valueChar === '#') {
+			entry.kind = 'empty';
+		} else if (valueChar === '[') {
+			const flow = this.parseFlow(text, valuePos);
+			if (flow) {
+				entry.kind = 'flow';
+				entry.items = flow.items;
+				entry.valueEnd = flow.end;
+				const newline = text.indexOf('\n', flow.end);
+				entry.end = newline === -1 ? text.length : newline + 1;
+			} else {
+				entry.kind = 'unknown';
+			}
+		} else if (valueChar === '|' || valueChar === '>') {
+			entry.kind = 'block-scalar';
+		} else {
+			const item = this.parseScalar(text, valuePos, lineEnd, false);
+			entry.kind = 'scalar';
+			entry.items = [item];
+			entry.valueEnd = item.end;
+		}
+
+		return entry;
+	}
+
+	private parseContinuation(text: string, entry: FrontmatterEntry, lines: Line[]): void {
+		const contentLines = lines.filter(line => !this.isBlank(line) && !this.isComment(line));
+
+		if (entry.kind === 'block-scalar') {
+			const folded = text.slice(entry.valueStart).trimStart().startsWith('>');
+			const values = lines.map(line => line.text.trim());
+			const value = (folded ? values.filter(v => v.length > 0).join(' ') : values.join('\n')).trim();
+			const start = lines.length > 0 ? lines[0].start : entry.end;
+			const end = lines.length > 0 ? lines[lines.length - 1].start + lines[lines.length - 1].text.length : entry.end;
+			entry.items = [{
+				value,
+				raw: text.slice(start, end),
+				quote: '',
+				start,
+				end,
+				lineStart: start,
+				lineEnd: end
+			}];
+			return;
+		}
+
+		if (entry.kind !== 'empty' || contentLines.length === 0) {
+			return;
+		}
+
+		if (!this.isListItem(contentLines[0])) {
+			entry.kind = 'mapping';
+			return;
+		}
+
+		entry.kind = 'block';
+		const itemIndent = contentLines[0].indent;
+		entry.itemIndent = contentLines[0].text.slice(0, itemIndent);
+
+		for (const line of contentLines) {
+			if (line.indent !== itemIndent || !this.isListItem(line)) {
+				continue; // Nested content belongs to the previous item
+			}
+			const lineEnd = line.start + line.text.length;
+			let valuePos = line.start + line.indent + 1;
+			while (valuePos < lineEnd && (text[valuePos] === ' ' || text[valuePos] === '\t')) {
+				valuePos++;
+			}
+			if (valuePos >= lineEnd || text[valuePos] === '#') {
+				continue;
+			}
+			const item = this.parseScalar(text, valuePos, lineEnd, false);
+			item.lineStart = line.start;
+			item.lineEnd = line.next;
+			entry.items.push(item);
+		}
+	}
+
+	/**
+	 * Parses a flow sequence starting at "[". Returns null if it is never closed.
+	 */
+	private parseFlow(text: string, open: number): { items: FrontmatterItem[]; end: number } | null {
+		const items: FrontmatterItem[] = [];
+		let pos = open + 1;
+
+		const skipSpaceAndComments = () => {
+			while (pos < text.length) {
+				const char = text[pos];
+				if (char === ' ' || char === '\t' || char === '\r' || char === '\n') {
+					pos++;
+				} else if (char === '#' && /\s/.test(text[pos - 1])) {
+					const newline = text.indexOf('\n', pos);
+					pos = newline === -1 ? text.length : newline;
+				} else {
+					break;
+				}
+			}
+		};
+
+		while (pos < text.length) {
+			skipSpaceAndComments();
+			if (pos >= text.length) {
+				return null;
+			}
+			if (text[pos] === ']') {
+				return { items, end: pos + 1 };
+			}
+			if (text[pos] === ',') {
+				pos++; // Empty element
+				continue;
+			}
+
+			let lineEnd = text.indexOf('\n', pos);
+			if (lineEnd === -1) {
+				lineEnd = text.length;
+			}
+			const item = this.parseScalar(text, pos, lineEnd, true);
+			if (item.raw.length === 0) {
+				return null;
+			}
+			items.push(item);
+			pos = item.end;
+
+			skipSpaceAndComments();
+			if (text[pos] === ',') {
+				pos++;
+			} else if (text[pos] !== ']') {
+				return null;
+			}
+		}
+
+		return null;
+	}
+
+	/**
+	 * Parses a quoted or plain scalar starting at `start`, not reading past `limit`
+	 */
+	private parseScalar(text: string, start: number, limit: number, inFlow: boolean): FrontmatterItem {
+		const first = text[start];
+		if (first === '"' || first === "'") {
+			const quoted = this.parseQuoted(text, start, limit);
+			if (quoted) {
+				return {
+					value: quoted.value,
+					raw: text.slice(start, quoted.end),
+					quote: first,
+					start,
+					end: quoted.end,
+					lineStart: start,
+					lineEnd: quoted.end
+				};
+			}
+		}
+
+		let end = start;
+		while (end < limit) {
+			const char = text[end];
+			if (inFlow && (char === ',' || char === ']')) {
+				break;
+			}
+			if (char === '#' && end > start && (text[end - 1] === ' ' || text[end - 1] === '\t')) {
+				break;
+			}
+			if (char === '\r') {
+				break;
+			}
+			end++;
+		}
+		while (end > start && (text[end - 1] === ' ' || text[end - 1] === '\t')) {
+			end--;
+		}
+
+		const raw = text.slice(start, end);
+		return { value: raw, raw, quote: '', start, end, lineStart: start, lineEnd: end };
+	}
+
+	private parseQuoted(text: string, start: number, limit: number): { value: string; end: number } | null {
+		const quote = text[start];
+		let value = '';
+		let pos = start + 1;
+
+		while (pos < limit) {
+			const char = text[pos];
+			if (quote === '"' && char === '\\' && pos + 1 < limit) {
+				const escaped = text[pos + 1];
+				value += escaped === 'n' ? '\n' : escaped === 't' ? '\t' : escaped;
+				pos += 2;
+				continue;
+			}
+			if (char === quote) {
+				if (quote === "'" && text[pos + 1] === "'") {
+					value += "'";
+					pos += 2;
+					continue;
+				}
+				return { value, end: pos + 1 };
+			}
+			value += char;
+			pos++;
+		}
+
+		return null;
+	}
+}
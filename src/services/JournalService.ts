@@ -0,0 +1,187 @@
+/**
+ * Journal Service
+ * Records the original content of every file touched by a bulk operation
+ * so the operation can be undone later
+ */
+
+import { App, TFile } from 'obsidian';
+import { JournalEntry, UndoResult, WriteListener } from '../types/interfaces';
+import { UI_CONSTANTS } from '../constants/patterns';
+
+export class JournalService {
+	private app: App;
+	private journalPath: string;
+	private entries: JournalEntry[] = [];
+	private loaded = false;
+	private writeListener?: WriteListener;
+
+	constructor(app: App, journalPath: string) {
+		this.app = app;
+		this.journalPath = journalPath;
+	}
+
+	/**
+	 * Tells the listener about every note an undo restores
+	 */
+	setWriteListener(listener?: WriteListener): void {
+		this.writeListener = listener;
+	}
+
+	async load(): Promise<void> {
+		try {
+			if (await this.app.vault.adapter.exists(this.journalPath)) {
+				const data = JSON.parse(await this.app.vault.adapter.read(this.journalPath));
+				this.entries = Array.isArray(data.entries) ? data.entries : [];
+			}
+		} catch (error) {
+			console.error('Error loading undo journal:', error);
+			this.entries = [];
+		}
+		this.loaded = true;
+	}
+
+	/**
+	 * Starts a new journal entry. Nothing is persisted until commitRun is called.
+	 */
+	startRun(operation: string, description: string): JournalEntry {
+		const timestamp = Date.now();
+		return {
+			id: `${timestamp}-${Math.random().toString(36).slice(2, 8)}`,
+			operation,
+			description,
+			timestamp,
+			files: []
+		};
+	}
+
+	recordChange(entry: JournalEntry, file: TFile, originalContent: string, modifiedContent: string): void {
+		entry.files.push({ path: file.path, originalContent, modifiedContent });
+	}
+
+	/**
+	 * Persists a finished run. Runs that did not modify any file are dropped.
+	 */
+	async commitRun(entry: JournalEntry): Promise<void> {
+		if (entry.files.length === 0) {
+			return;
+		}
+
+		await this.ensureLoaded();
+		this.entries.push(entry);
+		if (this.entries.length > UI_CONSTANTS.MAX_JOURNAL_ENTRIES) {
+			this.entries = this.entries.slice(-UI_CONSTANTS.MAX_JOURNAL_ENTRIES);
+		}
+		await this.save();
+	}
+
+	/**
+	 * Returns journal entries, newest first
+	 */
+	async getEntries(): Promise<JournalEntry[]> {
+		await this.ensureLoaded();
+		return [...this.entries].reverse();
+	}
+
+	async getLastEntry(): Promise<JournalEntry | null> {
+		await this.ensureLoaded();
+		return this.entries.length > 0 ? this.entries[this.entries.length - 1] : null;
+	}
+
+	/**
+	 * Lists files from an entry that were edited or deleted after the run
+	 */
+	async findChangedFiles(entry: JournalEntry): Promise<string[]> {
+		const changed: string[] = [];
+
+		for (const record of entry.files) {
+			const file = this.app.vault.getAbstractFileByPath(record.path);
+			if (!(file instanceof TFile)) {
+				changed.push(record.path);
+				continue;
+			}
+
+			const content = await this.app.vault.read(file);
+			if (content !== record.modifiedContent) {
+				changed.push(record.path);
+			}
+		}
+
+		return changed;
+	}
+
+	/**
+	 * Restores the original content of every file in an entry. Files changed or deleted since the run are
+	 * only overwritten (or recreated) when overwriteChanged is set. Skipped files stay in the journal so the
+	 * undo can be retried; the entry is removed once every file has been restored.
+	 */
+	async undo(entry: JournalEntry, overwriteChanged = false): Promise<UndoResult> {
+		const result: UndoResult = { restored: 0, skipped: [] };
+
+		for (const record of entry.files) {
+			try {
+				const file = this.app.vault.getAbstractFileByPath(record.path);
+				if (!(file instanceof TFile)) {
+					if (!overwriteChanged) {
+						result.skipped.push(record.path);
+						continue;
+					}
+					await this.recreateFile(record.path, record.originalContent);
+					result.restored++;
+					continue;
+				}
+
+				const content = await this.app.vault.read(file);
+				if (content !== record.modifiedContent && !overwriteChanged) {
+					result.skipped.push(record.path);
+					continue;
+				}
+
+				this.writeListener?.(record.path, record.originalContent);
+				await this.app.vault.modify(file, record.originalContent);
+				result.restored++;
+			} catch (error) {
+				console.error(`Error restoring file ${record.path}:`, error);
+				result.skipped.push(record.path);
+			}
+		}
+
+		await this.ensureLoaded();
+		const stored = this.entries.find(e => e.id === entry.id);
+		const remaining = entry.files.filter(record => result.skipped.includes(record.path));
+		if (stored && remaining.length > 0) {
+			stored.files = remaining;
+		} else {
+			this.entries = this.entries.filter(e => e.id !== entry.id);
+		}
+		entry.files = remaining;
+		await this.save();
+
+		return result;
+	}
+
+	/**
+	 * Creates a deleted file again, including any folders that were removed with it
+	 */
+	private async recreateFile(path: string, content: string): Promise<void> {
+		const folder = path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : '';
+		if (folder && !this.app.vault.getAbstractFileByPath(folder)) {
+			await this.app.vault.createFolder(folder);
+		}
+		this.writeListener?.(path, content);
+		await this.app.vault.create(path, content);
+	}
+
+	private async ensureLoaded(): Promise<void> {
+		if (!this.loaded) {
+			await this.load();
+		}
+	}
+
+	private async save(): Promise<void> {
+		try {
+			await this.app.vault.adapter.write(this.journalPath, JSON.stringify({ entries: this.entries }));
+		} catch (error) {
+			console.error('Error saving undo journal:', error);
+		}
+	}
+}
@@ -0,0 +1,238 @@
+/**
+ * Maintenance Service
+ * Runs a configured sequence of vault-wide operations on startup or every few hours,
+ * then writes a summary report note. Operations respect the operation scope from the settings.
+ */
+
+import type { App, TFile } from 'obsidian';
+import type { FileService } from './FileService';
+import type { TocService } from './TocService';
+import { MaintenanceOperation, MaintenanceStepResult, OperationResult, OperationScope, TagRenamerSettings, WriteListener } from '../types/interfaces';
+
+export const MAINTENANCE_OPERATION_LABELS: Record<MaintenanceOperation, string> = {
+	renameTags: 'Rename tags',
+	renameProperties: 'Apply property patterns',
+	removeDuplicates: 'Remove duplicate tags',
+	refreshToc: 'Refresh TOCs'
+};
+
+const HOUR = 60 * 60 * 1000;
+
+export class MaintenanceService {
+	private app: App;
+	private fileService: FileService;
+	private tocService: TocService;
+	private getSettings: () => TagRenamerSettings;
+	private saveSettings: () => Promise<void>;
+	private running = false;
+	private writeListener?: WriteListener;
+
+	/**
+	 * The file service should be a quiet instance: the report replaces its notices
+	 */
+	constructor(app: App, fileService: FileService, tocService: TocService, getSettings: () => TagRenamerSettings, saveSettings: () => Promise<void>) {
+		this.app = app;
+		this.fileService = fileService;
+		this.tocService = tocService;
+		this.getSettings = getSettings;
+		this.saveSettings = saveSettings;
+	}
+
+	/**
+	 * Tells the listener about the TOCs and the report note this service writes; bulk operations
+	 * are reported by the file service's own listener
+	 */
+	setWriteListener(listener?: WriteListener): void {
+		this.writeListener = listener;
+	}
+
+	/**
+	 * Called once the workspace is ready
+	 */
+	async runOnStartup(): Promise<void> {
+		if (this.getSettings().maintenance?.runOnStartup) {
+			await this.run();
+		}
+	}
+
+	/**
+	 * Called periodically; runs when the configured interval has passed since the last run
+	 */
+	async runIfDue(now = Date.now()): Promise<void> {
+		if (this.isDue(now)) {
+			await this.run();
+		}
+	}
+
+	isDue(now = Date.now()): boolean {
+		const options = this.getSettings().maintenance;
+		if (!options || options.intervalHours <= 0 || options.operations.length === 0) {
+			return false;
+		}
+		return !options.lastRun || now - options.lastRun >= options.intervalHours * HOUR;
+	}
+
+	/**
+	 * Runs every configured operation in order and writes the report. Returns null if a run is already in progress.
+	 */
+	async run(): Promise<MaintenanceStepResult[] | null> {
+		const options = this.getSettings().maintenance;
+		if (!options || options.operations.length === 0 || this.running) {
+			return null;
+		}
+
+		this.running = true;
+		const startedAt = Date.now();
+		const results: MaintenanceStepResult[] = [];
+		try {
+			for (const operation of options.operations) {
+				results.push(await this.runStep(operation));
+			}
+
+			options.lastRun = startedAt;
+			await this.saveSettings();
+			await this.writeReport(this.buildReport(results, startedAt, Date.now()));
+		} finally {
+			this.running = false;
+		}
+		return results;
+	}
+
+	/**
+	 * Renders the report note: a summary table followed by the changed files and errors of each step
+	 */
+	buildReport(results: MaintenanceStepResult[], startedAt: number, finishedAt: number): string {
+		const lines = [
+			'# Tag Renamer maintenance report',
+			'',
+			`Run started ${new Date(startedAt).toLocaleString()} and took ${((finishedAt - startedAt) / 1000).toFixed(1)} s.`,
+			'',
+			'| Operation | Processed | Modified | Errors |',
+			'| --- | --- | --- | --- |'
+		];
+
+		results.forEach(step => {
+			const label = MAINTENANCE_OPERATION_LABELS[step.operation];
+			if (step.skipped) {
+				lines.push(`| ${label} | skipped: ${step.skipped} | | |`);
+			} else {
+				lines.push(`| ${label} | ${step.result.processed} | ${step.result.modified.length} | ${step.result.errors.length} |`);
+			}
+		});
+
+		results.filter(step => step.result.modified.length > 0 || step.result.errors.length > 0 || (step.conflicts || []).length > 0).forEach(step => {
+			lines.push('', `## ${MAINTENANCE_OPERATION_LABELS[step.operation]}`);
+			step.result.modified.forEach(path => lines.push(`- [[${path.replace(/\.md$/, '')}]]`));
+			if (step.conflicts && step.conflicts.length > 0) {
+				lines.push('', 'Conflicts:');
+				step.conflicts.forEach(conflict => lines.push(`- [[${conflict.path.replace(/\.md$/, '')}]]: ${this.fileService.describeConflict(conflict)}`));
+			}
+			if (step.result.errors.length > 0) {
+				lines.push('', 'Errors:');
+				step.result.errors.forEach(error => lines.push(`- ${error}`));
+			}
+		});
+
+		return lines.join('\n') + '\n';
+	}
+
+	/**
+	 * Normalizes the configured report path to a vault-relative markdown path
+	 */
+	getReportPath(): string {
+		const path = (this.getSettings().maintenance?.reportPath || '').trim().replace(/^\/+|\/+$/g, '');
+		if (!path) {
+			return 'Tag Renamer maintenance report.md';
+		}
+		return path.endsWith('.md') ? path : `${path}.md`;
+	}
+
+	private async runStep(operation: MaintenanceOperation): Promise<MaintenanceStepResult> {
+		const settings = this.getSettings();
+		const scope = this.getScope(settings.operationScope);
+		const empty: OperationResult = { processed: 0, modified: [], errors: [] };
+		this.fileService.setQuoteStyle(settings.tagQuoteStyle);
+
+		try {
+			switch (operation) {
+				case 'renameTags':
+					if (settings.renamePatterns.length === 0) {
+						return { operation, result: empty, skipped: 'no rename patterns' };
+					}
+					return { operation, result: await this.fileService.renameTags(null, this.fileService.applyMatchingDefaults(settings.renamePatterns, settings.tagMatching), settings.tagScope, scope, settings.patternOrder === 'parallel') };
+				case 'renameProperties': {
+					if (!settings.propertyRenamePatterns || settings.propertyRenamePatterns.length === 0) {
+						return { operation, result: empty, skipped: 'no property patterns' };
+					}
+					const result = await this.fileService.renameTagProperties(null, settings.propertyRenamePatterns, scope, settings.propertyConflictPolicy);
+					return { operation, result, conflicts: result.conflicts };
+				}
+				case 'removeDuplicates':
+					return { operation, result: await this.fileService.removeDuplicatesFromFolder(null, scope, this.fileService.getDuplicateOptions(settings)) };
+				case 'refreshToc':
+					return { operation, result: await this.refreshTocs(settings, scope) };
+			}
+		} catch (error) {
+			const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+			return { operation, result: { ...empty, errors: [errorMessage] } };
+		}
+	}
+
+	/**
+	 * Only notes that already have a TOC are updated; maintenance never adds new ones
+	 */
+	private async refreshTocs(settings: TagRenamerSettings, scope: OperationScope): Promise<OperationResult> {
+		const result: OperationResult = { processed: 0, modified: [], errors: [] };
+		if (!settings.tocOptions) {
+			return result;
+		}
+
+		for (const file of this.fileService.getFilesInScope(null, scope)) {
+			try {
+				const content = await this.app.vault.read(file);
+				const updated = this.tocService.hasToc(content, settings.tocOptions.tocTitle) ? this.tocService.insertToc(content, settings.tocOptions) : content;
+				if (updated !== content) {
+					this.writeListener?.(file.path, updated);
+					await this.app.vault.modify(file, updated);
+					result.modified.push(file.path);
+				}
+				result.processed++;
+			} catch (error) {
+				const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+				result.errors.push(`${file.path}: ${errorMessage}`);
+			}
+		}
+		return result;
+	}
+
+	/**
+	 * The operation scope from the settings, with the report note itself excluded
+	 */
+	private getScope(operationScope?: OperationScope): OperationScope {
+		return {
+			includeGlobs: operationScope?.includeGlobs || [],
+			excludeGlobs: [...(operationScope?.excludeGlobs || []), this.getReportPath()],
+			frontmatterFilter: operationScope?.frontmatterFilter
+		};
+	}
+
+	private async writeReport(report: string): Promise<void> {
+		const path = this.getReportPath();
+		const folderPath = path.includes('/') ? path.substring(0, path.lastIndexOf('/')) : '';
+
+		try {
+			if (folderPath && !this.app.vault.getAbstractFileByPath(folderPath)) {
+				await this.app.vault.createFolder(folderPath);
+			}
+			const existing = this.app.vault.getAbstractFileByPath(path);
+			this.writeListener?.(path, report);
+			if (existing) {
+				await this.app.vault.modify(existing as TFile, report);
+			} else {
+				await this.app.vault.create(path, report);
+			}
+		} catch (error) {
+			console.error(`Error writing maintenance report to ${path}:`, error);
+		}
+	}
+}
@@ -0,0 +1,301 @@
+/**
+ * Pattern Analyzer
+ * Finds rename patterns that interact through their order: chains (a→b then b→c), cycles (a→b, b→a),
+ * duplicate search keys and remove patterns that shadow later rename patterns. Only literal tags and
+ * replacements can be followed; regex and glob patterns that use capture groups are checked as far as possible.
+ */
+
+import { PatternIssue, RenamePattern, TagMatchingSettings } from '../types/interfaces';
+import { TagProcessor, CompiledPattern } from './TagProcessor';
+
+interface AnalyzedPattern {
+	index: number;
+	pattern: CompiledPattern;
+	input: string | null;  // A tag this pattern certainly matches
+	output: string | null; // The tag it renames that input to, if it is fixed
+}
+
+export class PatternAnalyzer {
+	private tagProcessor = new TagProcessor();
+
+	/**
+	 * Returns the issues for a pattern list. Chains only matter when patterns run in sequence,
+	 * and cycles then behave unexpectedly; in parallel mode a cycle is a deliberate swap.
+	 * Patterns without their own case and Unicode options follow the global matching settings.
+	 */
+	analyze(patterns: RenamePattern[], parallel = false, matching?: TagMatchingSettings): PatternIssue[] {
+		const analyzed = this.analyzePatterns(patterns, matching);
+		const issues: PatternIssue[] = [...this.findDuplicates(analyzed), ...this.findShadowed(analyzed)];
+
+		if (!parallel) {
+			const cycles = this.findCycles(analyzed);
+			const inCycle = new Set(cycles.reduce((all: number[], cycle) => all.concat(cycle), []));
+			cycles.forEach(cycle => issues.push({
+				type: 'cycle',
+				patternIndexes: cycle,
+				message: `Patterns ${this.formatIndexes(cycle)} rename each other's tags in a cycle (${cycle.map(index => this.describe(patterns[index])).join(', ')}). In sequence they undo each other; apply the patterns in parallel to swap the tags.`
+			}));
+
+			this.findLinks(analyzed)
+				.filter(([from, to]) => from.index < to.index && !(inCycle.has(from.index) && inCycle.has(to.index)))
+				.forEach(([from, to]) => {
+					const source = from.input ?? from.pattern.search;
+					issues.push({
+						type: 'chain',
+						patternIndexes: [from.index, to.index],
+						message: to.pattern.removeMode
+							? `#${from.index + 1} renames "${source}" to "${from.output}", which #${to.index + 1} then removes.`
+							: `#${from.index + 1} renames "${source}" to "${from.output}", which #${to.index + 1} then renames to "${this.tagProcessor.getReplacement(to.pattern, from.output || '')}".`
+					});
+				});
+		}
+
+		return issues.sort((a, b) => Math.min(...a.patternIndexes) - Math.min(...b.patternIndexes));
+	}
+
+	/**
+	 * True if reordering the patterns could change their result. Sorting is refused in that case.
+	 * Two patterns are order-sensitive when they can match the same tag and do different things with it.
+	 * That is only decided when one of them matches a single literal tag; any other pair counts as overlapping.
+	 */
+	isOrderSensitive(patterns: RenamePattern[], parallel = false, matching?: TagMatchingSettings): boolean {
+		const analyzed = this.analyzePatterns(patterns, matching);
+		const overlapping = analyzed.some((first, i) => analyzed.slice(i + 1).some(second =>
+			this.canMatchSameTag(first, second) && !this.hasSameOutcome(first.pattern, second.pattern)));
+
+		return overlapping || (!parallel && this.findLinks(analyzed).length > 0);
+	}
+
+	/**
+	 * Rewrites the pattern at index so it renames straight to the end of its chain, which makes
+	 * the result independent of the order. Patterns that are part of a cycle are left alone, and so are
+	 * prefix patterns whose chain continues through other match modes (nested tags would change).
+	 */
+	collapseChain(patterns: RenamePattern[], index: number, matching?: TagMatchingSettings): RenamePattern[] {
+		const analyzed = this.analyzePatterns(patterns, matching);
+		const start = analyzed.find(item => item.index === index);
+		const inCycle = this.findCycles(analyzed).some(cycle => cycle.includes(index));
+		if (!start || start.output === null || inCycle) {
+			return patterns;
+		}
+
+		let current = start.output;
+		let removed = false;
+		for (const item of analyzed) {
+			if (item.index <= index || !this.tagProcessor.matchesPattern(item.pattern, current)) {
+				continue;
+			}
+			if (start.pattern.matchMode === 'prefix' && item.pattern.matchMode !== 'prefix') {
+				return patterns;
+			}
+			if (item.pattern.removeMode) {
+				removed = true;
+				break;
+			}
+			current = this.tagProcessor.getReplacement(item.pattern, current);
+		}
+
+		return patterns.map((pattern, i) => {
+			if (i !== index) {
+				return pattern;
+			}
+			return removed
+				? { ...pattern, replace: '', removeMode: true }
+				: { ...pattern, replace: this.collapsedReplacement(pattern, current) };
+		});
+	}
+
+	/**
+	 * Pairs [a, b] where the tag a produces is matched by b
+	 */
+	private findLinks(analyzed: AnalyzedPattern[]): [AnalyzedPattern, AnalyzedPattern][] {
+		const links: [AnalyzedPattern, AnalyzedPattern][] = [];
+		analyzed.forEach(from => {
+			if (from.output === null) {
+				return;
+			}
+			analyzed.forEach(to => {
+				if (to.index !== from.index && this.tagProcessor.matchesPattern(to.pattern, from.output || '')) {
+					links.push([from, to]);
+				}
+			});
+		});
+		return links;
+	}
+
+	/**
+	 * Strongly connected groups of two or more patterns in the link graph (Tarjan's algorithm)
+	 */
+	private findCycles(analyzed: AnalyzedPattern[]): number[][] {
+		const edges = new Map<number, number[]>();
+		this.findLinks(analyzed).forEach(([from, to]) => {
+			edges.set(from.index, [...(edges.get(from.index) || []), to.index]);
+		});
+
+		const order = new Map<number, number>();
+		const low = new Map<number, number>();
+		const stack: number[] = [];
+		const onStack = new Set<number>();
+		const cycles: number[][] = [];
+		let counter = 0;
+
+		const visit = (node: number) => {
+			order.set(node, counter);
+			low.set(node, counter);
+			counter++;
+			stack.push(node);
+			onStack.add(node);
+
+			(edges.get(node) || []).forEach(next => {
+				if (!order.has(next)) {
+					visit(next);
+					low.set(node, Math.min(low.get(node) ?? 0, low.get(next) ?? 0));
+				} else if (onStack.has(next)) {
+					low.set(node, Math.min(low.get(node) ?? 0, order.get(next) ?? 0));
+				}
+			});
+
+			if (low.get(node) === order.get(node)) {
+				const component: number[] = [];
+				let member: number | undefined;
+				do {
+					member = stack.pop();
+					if (member !== undefined) {
+						onStack.delete(member);
+						component.push(member);
+					}
+				} while (member !== undefined && member !== node);
+				if (component.length > 1) {
+					cycles.push(component.sort((a, b) => a - b));
+				}
+			}
+		};
+
+		analyzed.forEach(item => {
+			if (!order.has(item.index)) {
+				visit(item.index);
+			}
+		});
+
+		return cycles;
+	}
+
+	private findDuplicates(analyzed: AnalyzedPattern[]): PatternIssue[] {
+		const groups = new Map<string, AnalyzedPattern[]>();
+		analyzed.forEach(item => {
+			const search = this.tagProcessor.normalizeTag(item.pattern.search, item.pattern.unicodeNormalization);
+			const key = `${item.pattern.matchMode || 'exact'}:${item.pattern.caseInsensitive ? search.toLowerCase() : search}`;
+			groups.set(key, [...(groups.get(key) || []), item]);
+		});
+
+		const issues: PatternIssue[] = [];
+		groups.forEach(group => {
+			if (group.length > 1) {
+				const indexes = group.map(item => item.index);
+				issues.push({
+					type: 'duplicate',
+					patternIndexes: indexes,
+					message: `Patterns ${this.formatIndexes(indexes)} have the same search "${group[0].pattern.search}"; only #${indexes[0] + 1} takes effect.`
+				});
+			}
+		});
+		return issues;
+	}
+
+	private findShadowed(analyzed: AnalyzedPattern[]): PatternIssue[] {
+		const issues: PatternIssue[] = [];
+		analyzed.forEach(remover => {
+			if (!remover.pattern.removeMode) {
+				return;
+			}
+			analyzed.forEach(renamer => {
+				if (renamer.index > remover.index && !renamer.pattern.removeMode &&
+					renamer.input !== null && remover.pattern.search !== renamer.pattern.search &&
+					this.tagProcessor.matchesPattern(remover.pattern, renamer.input)) {
+					issues.push({
+						type: 'shadowed',
+						patternIndexes: [remover.index, renamer.index],
+						message: `#${remover.index + 1} removes "${renamer.input}" before #${renamer.index + 1} can rename it.`
+					});
+				}
+			});
+		});
+		return issues;
+	}
+
+	private canMatchSameTag(first: AnalyzedPattern, second: AnalyzedPattern): boolean {
+		if (this.matchesOnlyInput(first.pattern) && first.input !== null) {
+			return this.tagProcessor.matchesPattern(second.pattern, first.input);
+		}
+		if (this.matchesOnlyInput(second.pattern) && second.input !== null) {
+			return this.tagProcessor.matchesPattern(first.pattern, second.input);
+		}
+		return true;
+	}
+
+	private matchesOnlyInput(pattern: RenamePattern): boolean {
+		return !pattern.matchMode || pattern.matchMode === 'exact' || (pattern.matchMode === 'glob' && !/[*?]/.test(pattern.search));
+	}
+
+	/**
+	 * Both remove the tag, or both rename it to the same fixed tag
+	 */
+	private hasSameOutcome(first: RenamePattern, second: RenamePattern): boolean {
+		if (first.removeMode || second.removeMode) {
+			return !!first.removeMode && !!second.removeMode;
+		}
+		return first.replace === second.replace && !/\$\d/.test(first.replace);
+	}
+
+	private analyzePatterns(patterns: RenamePattern[], matching?: TagMatchingSettings): AnalyzedPattern[] {
+		const analyzed: AnalyzedPattern[] = [];
+		this.tagProcessor.applyMatchingDefaults(patterns, matching).forEach((pattern, index) => {
+			if (!pattern.search || (!pattern.removeMode && !pattern.replace) || this.tagProcessor.validatePattern(pattern) !== null) {
+				return;
+			}
+			const compiled: CompiledPattern = { ...pattern, regex: this.tagProcessor.compilePattern(pattern) };
+			const input = this.getLiteralInput(pattern);
+			analyzed.push({ index, pattern: compiled, input, output: this.getLiteralOutput(compiled, input) });
+		});
+		return analyzed;
+	}
+
+	private getLiteralInput(pattern: RenamePattern): string | null {
+		switch (pattern.matchMode) {
+			case 'regex':
+				return null;
+			case 'glob':
+				return /[*?]/.test(pattern.search) ? null : pattern.search;
+			case 'prefix':
+				return pattern.search.replace(/\/+$/, '');
+			default:
+				return pattern.search;
+		}
+	}
+
+	private getLiteralOutput(pattern: CompiledPattern, input: string | null): string | null {
+		if (pattern.removeMode) {
+			return null;
+		}
+		if (input !== null) {
+			return this.tagProcessor.getReplacement(pattern, input);
+		}
+		// Without a known input only a replacement without capture groups is fixed
+		return /\$\d/.test(pattern.replace) ? null : pattern.replace.replace(/\s+/g, '_');
+	}
+
+	private collapsedReplacement(pattern: RenamePattern, target: string): string {
+		return pattern.matchMode === 'regex' || pattern.matchMode === 'glob'
+			? target.replace(/\$/g, '$$$$')
+			: target;
+	}
+
+	private describe(pattern: RenamePattern): string {
+		return pattern.removeMode ? `remove ${pattern.search}` : `${pattern.search} → ${pattern.replace}`;
+	}
+
+	private formatIndexes(indexes: number[]): string {
+		const labels = indexes.map(index => `#${index + 1}`);
+		return labels.length > 1 ? `${labels.slice(0, -1).join(', ')} and ${labels[labels.length - 1]}` : labels[0];
+	}
+}
@@ -0,0 +1,159 @@
+/**
+ * Pattern Set Service
+ * Manages named pattern sets. The active set lives in the top-level settings fields
+ * (renamePatterns, propertyRenamePatterns, tagScope, operationScope) so the rest of the plugin
+ * keeps editing one flat list; switching sets stores those fields and loads the chosen set.
+ */
+
+import { OperationScope, PatternSet, PropertyRenamePattern, PropertyValueRule, RenamePattern, TagRenamerSettings } from '../types/interfaces';
+
+export const DEFAULT_PATTERN_SET_NAME = 'Default';
+
+export class PatternSetService {
+	/**
+	 * Makes sure at least one set exists and one is active. The first set wraps the existing patterns.
+	 */
+	ensureSets(settings: TagRenamerSettings): void {
+		if (!settings.patternSets || settings.patternSets.length === 0) {
+			const initial = this.snapshot(settings, this.generateId(), DEFAULT_PATTERN_SET_NAME);
+			settings.patternSets = [initial];
+			settings.activePatternSetId = initial.id;
+			return;
+		}
+		if (!settings.patternSets.some(set => set.id === settings.activePatternSetId)) {
+			this.load(settings, settings.patternSets[0]);
+		}
+	}
+
+	getSets(settings: TagRenamerSettings): PatternSet[] {
+		this.ensureSets(settings);
+		return settings.patternSets || [];
+	}
+
+	/**
+	 * Returns a set by id with the live patterns for the active set. Unknown or missing ids resolve to the active set.
+	 */
+	resolveSet(settings: TagRenamerSettings, id?: string): PatternSet {
+		this.syncActiveSet(settings);
+		const sets = this.getSets(settings);
+		return sets.find(set => set.id === id) || sets.find(set => set.id === settings.activePatternSetId) || sets[0];
+	}
+
+	/**
+	 * Copies the live top-level patterns and scope into the stored active set
+	 */
+	syncActiveSet(settings: TagRenamerSettings): void {
+		const sets = this.getSets(settings);
+		const index = sets.findIndex(set => set.id === settings.activePatternSetId);
+		if (index >= 0) {
+			sets[index] = this.snapshot(settings, sets[index].id, sets[index].name);
+		}
+	}
+
+	/**
+	 * Stores the active set, then loads the chosen one into the top-level fields
+	 */
+	switchTo(settings: TagRenamerSettings, id: string): boolean {
+		this.syncActiveSet(settings);
+		const target = this.getSets(settings).find(set => set.id === id);
+		if (!target) {
+			return false;
+		}
+		this.load(settings, target);
+		return true;
+	}
+
+	/**
+	 * Adds a new set, empty or copied from source, and returns it. The active set does not change.
+	 */
+	createSet(settings: TagRenamerSettings, name: string, source?: Omit<PatternSet, 'id' | 'name'>): PatternSet {
+		const set: PatternSet = {
+			id: this.generateId(),
+			name: this.uniqueName(settings, name),
+			renamePatterns: this.clone(source?.renamePatterns || []),
+			propertyRenamePatterns: this.clone(source?.propertyRenamePatterns || []),
+			tagScope: source?.tagScope || 'frontmatter',
+			operationScope: this.clone(source?.operationScope || { includeGlobs: [], excludeGlobs: [] })
+		};
+		this.getSets(settings).push(set);
+		return set;
+	}
+
+	/**
+	 * Replaces the active patterns with imported ones. Value rules are global rather than part of a set,
+	 * so they are only replaced when the import has them; per-set exports leave them out.
+	 */
+	replacePatterns(settings: TagRenamerSettings, renamePatterns: RenamePattern[], propertyRenamePatterns: PropertyRenamePattern[], propertyValueRules?: PropertyValueRule[]): void {
+		settings.renamePatterns = renamePatterns;
+		settings.propertyRenamePatterns = propertyRenamePatterns;
+		if (propertyValueRules) {
+			settings.propertyValueRules = propertyValueRules;
+		}
+	}
+
+	duplicateSet(settings: TagRenamerSettings, id: string): PatternSet | null {
+		const source = this.getSets(settings).some(set => set.id === id) ? this.resolveSet(settings, id) : null;
+		return source ? this.createSet(settings, `${source.name} (copy)`, source) : null;
+	}
+
+	/**
+	 * Deletes a set. The last remaining set cannot be deleted; deleting the active set activates the first remaining one.
+	 */
+	deleteSet(settings: TagRenamerSettings, id: string): boolean {
+		const sets = this.getSets(settings);
+		const index = sets.findIndex(set => set.id === id);
+		if (index < 0 || sets.length === 1) {
+			return false;
+		}
+		sets.splice(index, 1);
+		if (settings.activePatternSetId === id) {
+			this.load(settings, sets[0]);
+		}
+		return true;
+	}
+
+	renameSet(settings: TagRenamerSettings, id: string, name: string): void {
+		const set = this.getSets(settings).find(candidate => candidate.id === id);
+		if (set && name.trim()) {
+			set.name = name.trim();
+		}
+	}
+
+	private load(settings: TagRenamerSettings, set: PatternSet): void {
+		settings.activePatternSetId = set.id;
+		settings.renamePatterns = this.clone(set.renamePatterns);
+		settings.propertyRenamePatterns = this.clone(set.propertyRenamePatterns);
+		settings.tagScope = set.tagScope;
+		settings.operationScope = this.clone(set.operationScope);
+	}
+
+	private snapshot(settings: TagRenamerSettings, id: string, name: string): PatternSet {
+		const operationScope: OperationScope = settings.operationScope || { includeGlobs: [], excludeGlobs: [] };
+		return {
+			id,
+			name,
+			renamePatterns: this.clone(settings.renamePatterns),
+			propertyRenamePatterns: this.clone(settings.propertyRenamePatterns || []),
+			tagScope: settings.tagScope || 'frontmatter',
+			operationScope: this.clone(operationScope)
+		};
+	}
+
+	private uniqueName(settings: TagRenamerSettings, name: string): string {
+		const base = name.trim() || 'New set';
+		const names = new Set((settings.patternSets || []).map(set => set.name));
+		let candidate = base;
+		for (let i = 2; names.has(candidate); i++) {
+			candidate = `${base} ${i}`;
+		}
+		return candidate;
+	}
+
+	private clone<T>(value: T): T {
+		return JSON.parse(JSON.stringify(value));
+	}
+
+	private generateId(): string {
+		return `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+	}
+}
@@ -0,0 +1,219 @@
+/**
+ * Property Migration Service
+ * Converts a frontmatter property to another type (list, text, number, date, checkbox),
+ * e.g. after "🗄️ Tags Database" was renamed to "tags". Every value is cleaned up on the way:
+ * wikilinks and markdown links are reduced to their text and comma strings become lists.
+ * Values that cannot be converted are reported and left as they are.
+ */
+
+import { PropertyMigration, PropertyType, ValueConversionIssue } from '../types/interfaces';
+import { FrontmatterParser, FrontmatterEntry, ParsedFrontmatter, QuoteStyle, TextEdit } from './FrontmatterParser';
+import { TagProcessor } from './TagProcessor';
+import { REGEX_PATTERNS } from '../constants/patterns';
+
+export interface MigrationOutcome {
+	content: string;
+	issues: ValueConversionIssue[];
+}
+
+interface CleanValue {
+	value: string;
+	quote: QuoteStyle;
+}
+
+const CHECKBOX_VALUES: Record<string, boolean> = {
+	true: true, yes: true, on: true, '1': true, x: true, checked: true, done: true,
+	false: false, no: false, off: false, '0': false, unchecked: false
+};
+
+export class PropertyMigrationService {
+	private frontmatterParser = new FrontmatterParser();
+	private tagProcessor = new TagProcessor();
+
+	/**
+	 * Converts every entry of the property. Entries whose value cannot be converted keep their old value
+	 * and are listed in the issues.
+	 */
+	migrate(content: string, migration: PropertyMigration): MigrationOutcome {
+		const frontmatter = this.frontmatterParser.parse(content);
+		const property = migration.property.trim();
+		if (!frontmatter || !property) {
+			return { content, issues: [] };
+		}
+
+		const issues: ValueConversionIssue[] = [];
+		const edits: TextEdit[] = [];
+		frontmatter.entries.filter(entry => entry.key === property).forEach(entry => {
+			if (entry.kind === 'empty') {
+				return;
+			}
+			if (entry.kind !== 'scalar' && entry.kind !== 'flow' && entry.kind !== 'block') {
+				issues.push({
+					value: frontmatter.text.slice(entry.valueStart, entry.end).trim(),
+					reason: 'Nested and multi-line values are not converted'
+				});
+				return;
+			}
+
+			const edit = migration.type === 'list'
+				? this.toListEdit(frontmatter, entry)
+				: this.toScalarEdit(frontmatter, entry, migration.type, issues);
+			if (edit) {
+				edits.push(edit);
+			}
+		});
+
+		return { content: this.frontmatterParser.applyEdits(content, frontmatter, edits), issues };
+	}
+
+	/**
+	 * Reduces wikilinks to their target and markdown links to their display text
+	 */
+	cleanValue(value: string): string {
+		const unlinked = value.replace(REGEX_PATTERNS.WIKILINK, (_link, target: string) => target.trim());
+		return this.tagProcessor.extractDisplayText(unlinked.trim()).trim();
+	}
+
+	/**
+	 * Converts a single cleaned value to the YAML source of the target type, or describes why it cannot be converted
+	 */
+	convertValue(value: string, type: Exclude<PropertyType, 'list' | 'text'>): string | ValueConversionIssue {
+		switch (type) {
+			case 'number':
+				return this.toNumber(value);
+			case 'date':
+				return this.toDate(value);
+			case 'checkbox': {
+				const checked = CHECKBOX_VALUES[value.toLowerCase()];
+				return checked === undefined ? { value, reason: 'Not a checkbox value (true/false, yes/no, x)' } : String(checked);
+			}
+		}
+	}
+
+	private toListEdit(frontmatter: ParsedFrontmatter, entry: FrontmatterEntry): TextEdit | null {
+		const values = this.readValues(entry, true);
+		const listed = entry.kind === 'flow' || entry.kind === 'block';
+		if (listed && values.length === entry.items.length && values.every((item, index) => item.value === entry.items[index].value)) {
+			return null;
+		}
+
+		const eol = frontmatter.eol;
+		if (entry.kind === 'block') {
+			const prefix = `${entry.indent}${this.frontmatterParser.getRawKey(frontmatter, entry)}:`;
+			const items = values.map(item => `${entry.itemIndent}- ${this.frontmatterParser.formatValue(item.value, item.quote, false)}${eol}`);
+			return { start: entry.start, end: entry.end, text: values.length > 0 ? prefix + eol + items.join('') : `${prefix} []${eol}` };
+		}
+		const flow = values.map(item => this.frontmatterParser.formatValue(item.value, item.quote, true)).join(', ');
+		return { start: entry.valueStart, end: entry.valueEnd, text: ` [${flow}]` };
+	}
+
+	private toScalarEdit(frontmatter: ParsedFrontmatter, entry: FrontmatterEntry, type: PropertyType, issues: ValueConversionIssue[]): TextEdit | null {
+		const values = this.readValues(entry, false);
+		if (values.length === 0) {
+			return null;
+		}
+
+		let text: string;
+		if (type === 'text') {
+			text = this.frontmatterParser.formatValue(values.map(item => item.value).join(', '), values[0].quote, false);
+		} else if (values.length > 1) {
+			issues.push({ value: values.map(item => item.value).join(', '), reason: `${values.length} values cannot be combined into one ${type}` });
+			return null;
+		} else {
+			// Numbers, dates and checkboxes are written unquoted so YAML reads them as their type
+			const converted = this.convertValue(values[0].value, type as Exclude<PropertyType, 'list' | 'text'>);
+			if (typeof converted !== 'string') {
+				issues.push({ value: entry.items.find(item => item.value.trim())?.value ?? converted.value, reason: converted.reason });
+				return null;
+			}
+			text = converted;
+		}
+
+		if (entry.kind === 'scalar') {
+			const item = entry.items[0];
+			return text === item.raw ? null : { start: item.start, end: item.end, text };
+		}
+		if (entry.kind === 'flow') {
+			return { start: entry.valueStart, end: entry.valueEnd, text: ` ${text}` };
+		}
+		const prefix = `${entry.indent}${this.frontmatterParser.getRawKey(frontmatter, entry)}:`;
+		return { start: entry.start, end: entry.end, text: `${prefix} ${text}${frontmatter.eol}` };
+	}
+
+	/**
+	 * Cleaned, non-empty values of an entry. With splitStrings, a scalar such as "a, b" becomes two values.
+	 */
+	private readValues(entry: FrontmatterEntry, splitStrings: boolean): CleanValue[] {
+		const raw = entry.kind === 'scalar' && splitStrings
+			? entry.items[0].value.split(',').map(value => ({ value, quote: entry.items[0].quote }))
+			: entry.items.map(item => ({ value: item.value, quote: item.quote }));
+
+		return raw
+			.map(item => ({ value: this.cleanValue(item.value), quote: item.quote }))
+			.filter(item => item.value.length > 0);
+	}
+
+	/**
+	 * Accepts plain numbers, spaces or underscores as thousands separators and a single decimal comma (1,5)
+	 */
+	private toNumber(value: string): string | ValueConversionIssue {
+		let normalized = value.replace(/[\s_]/g, '');
+		if (/^[-+]?\d+,\d+$/.test(normalized)) {
+			normalized = normalized.replace(',', '.');
+		}
+		if (!/^[-+]?(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?$/i.test(normalized)) {
+			return { value, reason: 'Not a number' };
+		}
+		return String(Number(normalized));
+	}
+
+	/**
+	 * Accepts YYYY-MM-DD (optionally with a time), YYYY/MM/DD, DD.MM.YYYY and DD/MM/YYYY or MM/DD/YYYY
+	 * when the day is greater than 12. Writes YYYY-MM-DD or YYYY-MM-DDTHH:mm like Obsidian's date properties.
+	 */
+	private toDate(value: string): string | ValueConversionIssue {
+		let year: number;
+		let month: number;
+		let day: number;
+		let time = '';
+
+		const yearFirst = value.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})(?:[T ](\d{1,2}):(\d{2})(:\d{2})?)?$/);
+		const yearLast = value.match(/^(\d{1,2})([./-])(\d{1,2})\2(\d{4})$/);
+		if (yearFirst) {
+			[year, month, day] = [Number(yearFirst[1]), Number(yearFirst[2]), Number(yearFirst[3])];
+			if (yearFirst[4] !== undefined) {
+				const hours = Number(yearFirst[4]);
+				const minutes = Number(yearFirst[5]);
+				if (hours > 23 || minutes > 59) {
+					return { value, reason: 'Not a valid time' };
+				}
+				time = `T${this.pad(hours)}:${yearFirst[5]}${yearFirst[6] || ''}`;
+			}
+		} else if (yearLast) {
+			const first = Number(yearLast[1]);
+			const second = Number(yearLast[3]);
+			year = Number(yearLast[4]);
+			if (yearLast[2] === '.' || first > 12) {
+				[day, month] = [first, second];
+			} else if (second > 12) {
+				[month, day] = [first, second];
+			} else if (first === second) {
+				[day, month] = [first, second];
+			} else {
+				return { value, reason: 'Ambiguous date (day and month could be swapped)' };
+			}
+		} else {
+			return { value, reason: 'Not a recognizable date' };
+		}
+
+		const date = new Date(Date.UTC(year, month - 1, day));
+		if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+			return { value, reason: 'Not a valid calendar date' };
+		}
+		return `${year}-${this.pad(month)}-${this.pad(day)}${time}`;
+	}
+
+	private pad(value: number): string {
+		return value < 10 ? `0${value}` : String(value);
+	}
+}
@@ -0,0 +1,123 @@
+/**
+ * Property Tag Conversion Service
+ * Moves or copies values between a property and nested tags, e.g. `project: Apollo` ⇄ `tags: [project/Apollo]`.
+ * Converted values are merged with what the target already has, and the source is only cleared
+ * (when moving) once every value made it across.
+ */
+
+import { PropertyTagConversion, ValueConversionIssue } from '../types/interfaces';
+import { FrontmatterParser } from './FrontmatterParser';
+import { TagProcessor } from './TagProcessor';
+import { TagPropertyProcessor } from './TagPropertyProcessor';
+import { PropertyMigrationService } from './PropertyMigrationService';
+
+export interface ConversionOutcome {
+	content: string;
+	issues: ValueConversionIssue[];
+}
+
+const TAG_KEYS = ['tags', 'tag'];
+
+export class PropertyTagConversionService {
+	private frontmatterParser = new FrontmatterParser();
+	private propertyProcessor = new TagPropertyProcessor();
+	private migrationService = new PropertyMigrationService();
+	private tagProcessor: TagProcessor;
+
+	/**
+	 * Pass the caller's tag processor so new tags follow its quote style
+	 */
+	constructor(tagProcessor = new TagProcessor()) {
+		this.tagProcessor = tagProcessor;
+	}
+
+	convert(content: string, conversion: PropertyTagConversion): ConversionOutcome {
+		const property = conversion.property.trim();
+		const prefix = this.normalizePrefix(conversion.prefix);
+		if (!property || TAG_KEYS.includes(property.toLowerCase()) || (conversion.direction === 'to-property' && !prefix)) {
+			return { content, issues: [] };
+		}
+
+		return conversion.direction === 'to-tags'
+			? this.propertyToTags(content, property, prefix, conversion.transfer === 'move')
+			: this.tagsToProperty(content, property, prefix, conversion.transfer === 'move');
+	}
+
+	/**
+	 * "#project/" and "project" are the same prefix
+	 */
+	normalizePrefix(prefix: string): string {
+		return prefix.trim().replace(/^#/, '').replace(/\/+$/, '');
+	}
+
+	/**
+	 * Turns a property value into a tag: links are reduced to their text, spaces become dashes and characters
+	 * Obsidian does not allow in tags are dropped. Returns null if nothing usable is left.
+	 */
+	valueToTag(value: string, prefix: string): string | null {
+		const name = this.migrationService.cleanValue(value)
+			.replace(/^#/, '')
+			.replace(/\s+/g, '-')
+			.replace(/[^\p{L}\p{N}_/-]/gu, '')
+			.replace(/^\/+|\/+$/g, '');
+		if (!name) {
+			return null;
+		}
+
+		const tag = prefix ? `${prefix}/${name}` : name;
+		// A tag needs at least one character that is not a digit
+		return /^[\p{N}/]*$/u.test(tag) ? null : tag;
+	}
+
+	private propertyToTags(content: string, property: string, prefix: string, move: boolean): ConversionOutcome {
+		const frontmatter = this.frontmatterParser.parse(content);
+		const entry = frontmatter?.entries.find(candidate => candidate.key === property);
+		if (!frontmatter || !entry || entry.kind === 'empty') {
+			return { content, issues: [] };
+		}
+		if (!['scalar', 'flow', 'block'].includes(entry.kind)) {
+			return { content, issues: [{ value: property, reason: 'Nested and multi-line values are not converted' }] };
+		}
+
+		const issues: ValueConversionIssue[] = [];
+		const tags: string[] = [];
+		entry.items.map(item => item.value.trim()).filter(value => value.length > 0).forEach(value => {
+			const tag = this.valueToTag(value, prefix);
+			if (tag) {
+				tags.push(tag);
+			} else {
+				issues.push({ value, reason: 'Not a valid tag' });
+			}
+		});
+
+		const withTags = this.tagProcessor.addTagsToContent(content, tags);
+		if (withTags === null) {
+			return { content, issues: [{ value: property, reason: 'The existing tags are nested or multi-line and cannot be extended' }] };
+		}
+		// Moving clears the property only when none of its values would be lost
+		if (!move || issues.length > 0) {
+			return { content: withTags, issues };
+		}
+		return { content: this.propertyProcessor.renameTagProperties(withTags, [{ from: property, to: '', action: 'delete' }]), issues };
+	}
+
+	private tagsToProperty(content: string, property: string, prefix: string, move: boolean): ConversionOutcome {
+		const matchesPrefix = (tag: string) => tag.replace(/^#/, '').toLowerCase().startsWith(`${prefix.toLowerCase()}/`);
+		const values = this.tagProcessor.extractTagsFromContent(content)
+			.filter(matchesPrefix)
+			.map(tag => tag.replace(/^#/, '').slice(prefix.length + 1))
+			.filter(value => value.length > 0);
+		if (values.length === 0) {
+			return { content, issues: [] };
+		}
+
+		const withProperty = this.propertyProcessor.addPropertyValues(content, property, values);
+		if (withProperty === null) {
+			return { content, issues: [{ value: property, reason: 'The property is nested or multi-line and cannot be extended' }] };
+		}
+		return {
+			content: move ? this.tagProcessor.removeTagsFromContent(withProperty, tag => matchesPrefix(tag) && tag.replace(/^#/, '').length > prefix.length + 1) : withProperty,
+			issues: []
+		};
+	}
+}
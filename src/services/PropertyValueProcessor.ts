@@ -0,0 +1,115 @@
+/**
+ * Property Value Processor
+ * Rewrites the values of frontmatter properties with value rules, e.g. `status: in-progress` → `doing`
+ * or `project: "[[Apollo]]"` → `Apollo`. List values are rewritten item by item; keys, quotes,
+ * comments and list style are kept as written.
+ */
+
+import { FrontmatterFilter, PropertyValueRule } from '../types/interfaces';
+import { FrontmatterParser, FrontmatterEntry, ParsedFrontmatter, TextEdit } from './FrontmatterParser';
+import { REGEX_PATTERNS } from '../constants/patterns';
+
+interface CompiledValueRule extends PropertyValueRule {
+	regex: RegExp | null; // Only set in regex mode
+}
+
+export class PropertyValueProcessor {
+	private frontmatterParser = new FrontmatterParser();
+
+	/**
+	 * Returns an error message if the rule's regex cannot be compiled, otherwise null
+	 */
+	validateRule(rule: PropertyValueRule): string | null {
+		if (rule.mode !== 'regex') {
+			return null;
+		}
+		try {
+			new RegExp(rule.search);
+			return null;
+		} catch (error) {
+			return error instanceof Error ? error.message : String(error);
+		}
+	}
+
+	/**
+	 * Applies the rules in order, so later rules see the values written by earlier ones.
+	 * Rules without a property, invalid regexes and incomplete rules are skipped.
+	 */
+	applyRules(content: string, rules: PropertyValueRule[]): string {
+		let result = content;
+		for (const rule of this.compileRules(rules)) {
+			const frontmatter = this.frontmatterParser.parse(result);
+			if (!frontmatter) {
+				return content;
+			}
+			if (rule.condition && rule.condition.property.trim() && !this.matchesCondition(frontmatter, rule.condition)) {
+				continue;
+			}
+
+			const edits = frontmatter.entries
+				.filter(entry => entry.key === rule.property.trim())
+				.reduce((all: TextEdit[], entry) => all.concat(this.buildValueEdits(entry, rule)), []);
+			result = this.frontmatterParser.applyEdits(result, frontmatter, edits);
+		}
+		return result;
+	}
+
+	/**
+	 * Maps a single value; values the rule does not match are returned unchanged
+	 */
+	mapValue(value: string, rule: PropertyValueRule): string {
+		const [compiled] = this.compileRules([rule]);
+		return compiled ? this.applyRule(value, compiled) : value;
+	}
+
+	/**
+	 * Same comparison as the operation scope filter: list values match if any item does, case is ignored
+	 */
+	matchesCondition(frontmatter: ParsedFrontmatter, condition: FrontmatterFilter): boolean {
+		const values = this.frontmatterParser.getValues(frontmatter);
+		const property = condition.property.trim();
+		if (!(property in values)) {
+			return false;
+		}
+
+		const expected = condition.value.trim().toLowerCase();
+		if (!expected) {
+			return true;
+		}
+		const value = values[property];
+		return (Array.isArray(value) ? value : [value])
+			.some(item => item !== null && String(item).trim().toLowerCase() === expected);
+	}
+
+	private compileRules(rules: PropertyValueRule[]): CompiledValueRule[] {
+		return rules
+			.filter(rule => rule.property.trim() && (rule.mode === 'unlink' || rule.search) && this.validateRule(rule) === null)
+			.map(rule => ({ ...rule, regex: rule.mode === 'regex' ? new RegExp(`^(?:${rule.search})$`) : null }));
+	}
+
+	private applyRule(value: string, rule: CompiledValueRule): string {
+		switch (rule.mode) {
+			case 'unlink':
+				return value.replace(REGEX_PATTERNS.WIKILINK, (_link, target: string) => target.trim());
+			case 'regex':
+				return rule.regex && rule.regex.test(value) ? value.replace(rule.regex, rule.replace) : value;
+			default:
+				return value.trim() === rule.search.trim() ? rule.replace : value;
+		}
+	}
+
+	private buildValueEdits(entry: FrontmatterEntry, rule: CompiledValueRule): TextEdit[] {
+		if (entry.kind !== 'scalar' && entry.kind !== 'flow' && entry.kind !== 'block') {
+			return [];
+		}
+
+		const edits: TextEdit[] = [];
+		entry.items.forEach(item => {
+			const mapped = this.applyRule(item.value, rule);
+			if (mapped !== item.value) {
+				edits.push({ start: item.start, end: item.end, text: this.frontmatterParser.formatValue(mapped, item.quote, entry.kind === 'flow') });
+			}
+		});
+		return edits;
+	}
+}
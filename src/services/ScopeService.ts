@@ -0,0 +1,96 @@
+/**
+ * Scope Service
+ * Resolves which markdown files a bulk operation touches: an optional folder,
+ * include/exclude path globs and an optional frontmatter property filter
+ */
+
+import type { App, TFile, TFolder } from 'obsidian';
+import { FrontmatterFilter, OperationScope } from '../types/interfaces';
+import { TagProcessor } from './TagProcessor';
+
+export class ScopeService {
+	private app: App;
+	private tagProcessor: TagProcessor;
+
+	constructor(app: App) {
+		this.app = app;
+		this.tagProcessor = new TagProcessor();
+	}
+
+	/**
+	 * Returns the markdown files under the folder (or the whole vault when folder is null) that match the scope
+	 */
+	getFiles(folder: TFolder | null, scope?: OperationScope): TFile[] {
+		const prefix = folder && !folder.isRoot() ? `${folder.path}/` : '';
+		return this.app.vault.getMarkdownFiles()
+			.filter(file => file.path.startsWith(prefix))
+			.filter(file => this.isInScope(file, scope))
+			.sort((a, b) => a.path.localeCompare(b.path));
+	}
+
+	isInScope(file: TFile, scope?: OperationScope): boolean {
+		if (!scope) {
+			return true;
+		}
+		if (!this.matchesPath(file.path, scope)) {
+			return false;
+		}
+		if (scope.frontmatterFilter && scope.frontmatterFilter.property.trim()) {
+			const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+			return this.matchesFrontmatter(frontmatter, scope.frontmatterFilter);
+		}
+		return true;
+	}
+
+	/**
+	 * A path is in scope if it matches any include glob (or there are none) and no exclude glob
+	 */
+	matchesPath(path: string, scope: OperationScope): boolean {
+		const includes = scope.includeGlobs.filter(glob => glob.trim());
+		const excludes = scope.excludeGlobs.filter(glob => glob.trim());
+
+		if (includes.length > 0 && !includes.some(glob => this.matchesGlob(path, glob))) {
+			return false;
+		}
+		return !excludes.some(glob => this.matchesGlob(path, glob));
+	}
+
+	/**
+	 * Matches a property value; list values match if any item does. Comparison ignores case.
+	 */
+	matchesFrontmatter(frontmatter: Record<string, unknown> | undefined, filter: FrontmatterFilter): boolean {
+		const property = filter.property.trim();
+		if (!frontmatter || !(property in frontmatter)) {
+			return false;
+		}
+
+		const expected = filter.value.trim().toLowerCase();
+		if (!expected) {
+			return true;
+		}
+
+		const value = frontmatter[property];
+		const values = Array.isArray(value) ? value : [value];
+		return values.some(item => item !== null && item !== undefined && String(item).trim().toLowerCase() === expected);
+	}
+
+	/**
+	 * Globs use `*` within a folder and `**` across folders. A glob without wildcards matches
+	 * that file or everything below that folder (`Templates` = `Templates/**`).
+	 */
+	private matchesGlob(path: string, glob: string): boolean {
+		const cleanGlob = glob.trim().replace(/^\/+|\/+$/g, '');
+		if (!/[*?]/.test(cleanGlob)) {
+			return path === cleanGlob || path.startsWith(`${cleanGlob}/`);
+		}
+		return new RegExp(`^${this.pathGlobToRegex(cleanGlob)}$`).test(path);
+	}
+
+	/**
+	 * Like the tag globs, except that `**` followed by a slash also matches no folder at all,
+	 * so an exclude for Templates folders at any depth also covers the one at the vault root
+	 */
+	private pathGlobToRegex(glob: string): string {
+		return glob.split('**/').map(part => this.tagProcessor.globToRegex(part)).join('(?:.*/)?');
+	}
+}
@@ -0,0 +1,251 @@
+/**
+ * Tag Index Service
+ * Keeps a per-file index of frontmatter tags, inline tags and custom tag properties,
+ * built from Obsidian's metadata cache. File contents are only read for files the cache
+ * has not indexed yet, and the index is refreshed incrementally from cache and vault events.
+ */
+
+import { App, CachedMetadata, TAbstractFile, TFile } from 'obsidian';
+import { DiscoveredProperty, FileTagIndexEntry, PropertyDiscoverySettings, TagScope, TagStat } from '../types/interfaces';
+import { UI_CONSTANTS } from '../constants/patterns';
+import { TagProcessor } from './TagProcessor';
+import { TagPropertyProcessor } from './TagPropertyProcessor';
+import { BodyTagProcessor } from './BodyTagProcessor';
+
+export class TagIndexService {
+	private app: App;
+	private tagProcessor: TagProcessor;
+	private propertyProcessor: TagPropertyProcessor;
+	private bodyTagProcessor: BodyTagProcessor;
+	private entries = new Map<string, FileTagIndexEntry>();
+	private listeners = new Set<() => void>();
+	private built = false;
+	private building: Promise<void> | null = null;
+
+	constructor(app: App) {
+		this.app = app;
+		this.tagProcessor = new TagProcessor();
+		this.propertyProcessor = new TagPropertyProcessor();
+		this.bodyTagProcessor = new BodyTagProcessor();
+	}
+
+	/**
+	 * Returns every unique tag in the vault, sorted. Scope selects frontmatter tags, inline tags or both.
+	 */
+	async getAllTags(scope: TagScope = 'frontmatter'): Promise<string[]> {
+		await this.ensureBuilt();
+
+		const allTags = new Set<string>();
+		this.entries.forEach(entry => {
+			if (scope !== 'body') {
+				entry.frontmatterTags.forEach(tag => allTags.add(tag));
+			}
+			if (scope !== 'frontmatter') {
+				entry.bodyTags.forEach(tag => allTags.add(tag));
+			}
+		});
+
+		return Array.from(allTags).sort();
+	}
+
+	/**
+	 * Returns every custom tag property in the vault, sorted
+	 */
+	async getAllCustomProperties(settings?: PropertyDiscoverySettings): Promise<string[]> {
+		const discovered = await this.getDiscoveredProperties(settings);
+		return discovered.map(property => property.name).sort();
+	}
+
+	/**
+	 * Scores every property in the vault with the given discovery rules, most likely tag properties first
+	 */
+	async getDiscoveredProperties(settings?: PropertyDiscoverySettings): Promise<DiscoveredProperty[]> {
+		await this.ensureBuilt();
+		return this.propertyProcessor.scoreProperties(Array.from(this.entries.values()).map(entry => entry.properties), settings);
+	}
+
+	/**
+	 * Returns per-tag usage statistics across frontmatter and body tags
+	 */
+	async getTagStats(): Promise<TagStat[]> {
+		await this.ensureBuilt();
+
+		const stats = new Map<string, TagStat>();
+		const getStat = (tag: string): TagStat => {
+			let stat = stats.get(tag);
+			if (!stat) {
+				stat = { tag, fileCount: 0, frontmatterCount: 0, bodyCount: 0, lastModified: 0, files: [] };
+				stats.set(tag, stat);
+			}
+			return stat;
+		};
+
+		this.entries.forEach((entry, path) => {
+			const frontmatterTags = new Set(entry.frontmatterTags);
+			const bodyTags = new Set(entry.bodyTags);
+			new Set([...frontmatterTags, ...bodyTags]).forEach(tag => {
+				const stat = getStat(tag);
+				stat.fileCount++;
+				stat.files.push(path);
+				stat.lastModified = Math.max(stat.lastModified, entry.mtime);
+				if (frontmatterTags.has(tag)) {
+					stat.frontmatterCount++;
+				}
+				if (bodyTags.has(tag)) {
+					stat.bodyCount++;
+				}
+			});
+		});
+
+		return Array.from(stats.values());
+	}
+
+	/**
+	 * Returns the markdown files that carry any of the given tags in the given scope
+	 */
+	async getFilesWithTags(tags: string[], scope: TagScope = 'frontmatter'): Promise<TFile[]> {
+		await this.ensureBuilt();
+
+		const wanted = new Set(tags);
+		const files: TFile[] = [];
+		this.entries.forEach((entry, path) => {
+			const matches = (scope !== 'body' && entry.frontmatterTags.some(tag => wanted.has(tag))) ||
+				(scope !== 'frontmatter' && entry.bodyTags.some(tag => wanted.has(tag)));
+			if (!matches) {
+				return;
+			}
+			const file = this.app.vault.getAbstractFileByPath(path);
+			if (file instanceof TFile) {
+				files.push(file);
+			}
+		});
+
+		return files;
+	}
+
+	/**
+	 * Returns the index entries keyed by file path
+	 */
+	async getEntries(): Promise<Map<string, FileTagIndexEntry>> {
+		await this.ensureBuilt();
+		return this.entries;
+	}
+
+	/**
+	 * Registers a listener called whenever the index changes. Returns a function that removes it.
+	 */
+	onChange(listener: () => void): () => void {
+		this.listeners.add(listener);
+		return () => {
+			this.listeners.delete(listener);
+		};
+	}
+
+	/**
+	 * Handles the metadata cache "changed" event
+	 */
+	updateFile(file: TFile, cache: CachedMetadata | null): void {
+		if (!this.built || file.extension !== 'md') {
+			return;
+		}
+		if (cache) {
+			this.entries.set(file.path, this.buildEntryFromCache(file, cache));
+			this.notify();
+		}
+	}
+
+	/**
+	 * Handles the vault "delete" event
+	 */
+	removeFile(file: TAbstractFile): void {
+		if (this.built && this.entries.delete(file.path)) {
+			this.notify();
+		}
+	}
+
+	/**
+	 * Handles the vault "rename" event
+	 */
+	renameFile(file: TAbstractFile, oldPath: string): void {
+		if (!this.built) {
+			return;
+		}
+		const entry = this.entries.get(oldPath);
+		if (entry) {
+			this.entries.delete(oldPath);
+			if (file instanceof TFile && file.extension === 'md') {
+				this.entries.set(file.path, entry);
+			}
+			this.notify();
+		}
+	}
+
+	/**
+	 * Drops the index so the next query rebuilds it from scratch
+	 */
+	invalidate(): void {
+		this.entries.clear();
+		this.built = false;
+	}
+
+	private async ensureBuilt(): Promise<void> {
+		if (this.built) {
+			return;
+		}
+		if (!this.building) {
+			this.building = this.build().finally(() => {
+				this.building = null;
+			});
+		}
+		await this.building;
+	}
+
+	private async build(): Promise<void> {
+		const uncached: TFile[] = [];
+		for (const file of this.app.vault.getMarkdownFiles()) {
+			const cache = this.app.metadataCache.getFileCache(file);
+			if (cache) {
+				this.entries.set(file.path, this.buildEntryFromCache(file, cache));
+			} else {
+				uncached.push(file);
+			}
+		}
+
+		// Fall back to reading files the metadata cache has not indexed yet
+		for (let i = 0; i < uncached.length; i += UI_CONSTANTS.BATCH_SIZE) {
+			const batch = uncached.slice(i, i + UI_CONSTANTS.BATCH_SIZE);
+			await Promise.all(batch.map(async (file) => {
+				try {
+					const content = await this.app.vault.cachedRead(file);
+					this.entries.set(file.path, this.buildEntryFromContent(file, content));
+				} catch (error) {
+					console.error(`Error reading file ${file.path}:`, error);
+				}
+			}));
+		}
+
+		this.built = true;
+	}
+
+	private buildEntryFromCache(file: TFile, cache: CachedMetadata): FileTagIndexEntry {
+		return {
+			frontmatterTags: this.tagProcessor.extractTagsFromFrontmatter(cache.frontmatter),
+			bodyTags: (cache.tags || []).map(tagCache => tagCache.tag.replace(/^#/, '')),
+			properties: this.propertyProcessor.observeProperties(cache.frontmatter),
+			mtime: file.stat.mtime
+		};
+	}
+
+	private buildEntryFromContent(file: TFile, content: string): FileTagIndexEntry {
+		return {
+			frontmatterTags: this.tagProcessor.extractTagsFromContent(content),
+			bodyTags: this.bodyTagProcessor.extractInlineTags(content),
+			properties: this.propertyProcessor.observePropertiesInContent(content),
+			mtime: file.stat.mtime
+		};
+	}
+
+	private notify(): void {
+		this.listeners.forEach(listener => listener());
+	}
+}
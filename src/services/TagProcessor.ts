@@ -1,12 +1,188 @@
 // Import removed - TFile not used in this module
-import { RenamePattern } from '../types/interfaces';
-import { REGEX_PATTERNS } from '../constants/patterns';
+import { RenamePattern, TagTreeNode, TagMatchingSettings, TagRenamerSettings, DuplicateOptions, UnicodeNormalization, TagQuoteStyle, TagFormatSettings } from '../types/interfaces';
+import { FrontmatterParser, ParsedFrontmatter, FrontmatterEntry, TextEdit, QuoteStyle } from './FrontmatterParser';
+
+// Frontmatter keys that hold tags
+const TAG_KEYS = ['tags', 'tag'];
+
+export interface CompiledPattern extends RenamePattern {
+	regex: RegExp;
+}
 
 export class TagProcessor {
+	private frontmatterParser = new FrontmatterParser();
+	private quoteStyle: TagQuoteStyle = 'match';
+
+	/**
+	 * Sets how rewritten tag values are quoted. Tags that don't change are always kept exactly as written.
+	 */
+	setQuoteStyle(style: TagQuoteStyle = 'match'): void {
+		this.quoteStyle = style;
+	}
+
 	escapeRegex(string: string): string {
 		return string.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
 	}
 
+	/**
+	 * Converts a glob to a regex source. `*` and `?` stay within one tag level,
+	 * `**` spans nested levels. Each wildcard becomes a capture group usable as $1, $2, ...
+	 */
+	globToRegex(glob: string): string {
+		let source = '';
+		for (let i = 0; i < glob.length; i++) {
+			const char = glob[i];
+			if (char === '*' && glob[i + 1] === '*') {
+				source += '(.*)';
+				i++;
+			} else if (char === '*') {
+				source += '([^/]*)';
+			} else if (char === '?') {
+				source += '([^/])';
+			} else {
+				source += this.escapeRegex(char);
+			}
+		}
+		return source;
+	}
+
+	/**
+	 * Builds the anchored regex for a pattern according to its match mode. Literal searches are
+	 * normalized like the tags they are tested against (see matchesPattern); regex sources are used as written.
+	 */
+	compilePattern(pattern: RenamePattern): RegExp {
+		const flags = pattern.caseInsensitive ? 'i' : '';
+		const search = this.normalizeTag(pattern.search, pattern.unicodeNormalization);
+		switch (pattern.matchMode) {
+			case 'regex':
+				return new RegExp(`^(?:${pattern.search})$`, flags);
+			case 'glob':
+				return new RegExp(`^${this.globToRegex(search)}$`, flags);
+			case 'prefix':
+				// The tag itself or any nested child; group 1 captures the "/child" remainder
+				return new RegExp(`^${this.escapeRegex(search.replace(/\/+$/, ''))}(/.*)?$`, flags);
+			default:
+				return new RegExp(`^${this.escapeRegex(search)}$`, flags);
+		}
+	}
+
+	normalizeTag(tag: string, normalization?: UnicodeNormalization): string {
+		return normalization && normalization !== 'none' ? tag.normalize(normalization) : tag;
+	}
+
+	/**
+	 * Tests a tag against a compiled pattern, normalizing it first if the pattern asks for it
+	 */
+	matchesPattern(pattern: CompiledPattern, tag: string): boolean {
+		return pattern.regex.test(this.normalizeTag(tag, pattern.unicodeNormalization));
+	}
+
+	/**
+	 * Fills in the global case and Unicode options for patterns that don't set their own
+	 */
+	applyMatchingDefaults(patterns: RenamePattern[], matching?: TagMatchingSettings): RenamePattern[] {
+		if (!matching) {
+			return patterns;
+		}
+		return patterns.map(pattern => ({
+			...pattern,
+			caseInsensitive: pattern.caseInsensitive ?? matching.caseInsensitive,
+			unicodeNormalization: pattern.unicodeNormalization ?? matching.unicodeNormalization
+		}));
+	}
+
+	/**
+	 * Returns an error message if the pattern cannot be compiled, otherwise null
+	 */
+	validatePattern(pattern: RenamePattern): string | null {
+		try {
+			this.compilePattern(pattern);
+			return null;
+		} catch (error) {
+			return error instanceof Error ? error.message : String(error);
+		}
+	}
+
+	/**
+	 * Compiles patterns, silently skipping any that are invalid (those are reported in the settings tab)
+	 */
+	compilePatterns(patterns: RenamePattern[]): CompiledPattern[] {
+		const compiled: CompiledPattern[] = [];
+		for (const pattern of patterns) {
+			if (this.validatePattern(pattern) === null) {
+				compiled.push({ ...pattern, regex: this.compilePattern(pattern) });
+			}
+		}
+		return compiled;
+	}
+
+	/**
+	 * Computes the replacement tag; glob and regex modes can reference capture groups ($1, $2, ...),
+	 * prefix mode keeps the nested remainder of the tag
+	 */
+	getReplacement(pattern: CompiledPattern, tag: string): string {
+		const displayText = this.normalizeTag(tag, pattern.unicodeNormalization);
+		let replacement = pattern.replace;
+		if (pattern.matchMode === 'regex' || pattern.matchMode === 'glob') {
+			replacement = displayText.replace(pattern.regex, pattern.replace);
+		} else if (pattern.matchMode === 'prefix') {
+			const match = displayText.match(pattern.regex);
+			replacement = pattern.replace.replace(/\/+$/, '') + (match?.[1] || '');
+		}
+		// Convert to proper tag format (replace spaces with underscores, drop links)
+		return replacement.replace(/\s+/g, '_');
+	}
+
+	/**
+	 * Builds exact rename patterns that fold every source tag into the target tag
+	 */
+	buildMergePatterns(sourceTags: string[], target: string): RenamePattern[] {
+		const cleanTarget = target.trim().replace(/^#/, '');
+		if (cleanTarget.length === 0) {
+			return [];
+		}
+
+		return [...new Set(sourceTags)]
+			.filter(tag => tag !== cleanTarget)
+			.map(tag => ({ search: tag, replace: cleanTarget, removeMode: false, matchMode: 'exact' as const }));
+	}
+
+	/**
+	 * Groups nested tags (area/work/client-x) into a tree, sorted alphabetically at every level
+	 */
+	buildTagTree(tags: string[]): TagTreeNode[] {
+		const root: TagTreeNode = { name: '', path: '', isTag: false, children: [] };
+
+		for (const tag of tags) {
+			let node = root;
+			const segments = tag.split('/').filter(segment => segment.length > 0);
+			segments.forEach((segment, index) => {
+				let child = node.children.find(c => c.name === segment);
+				if (!child) {
+					child = {
+						name: segment,
+						path: segments.slice(0, index + 1).join('/'),
+						isTag: false,
+						children: []
+					};
+					node.children.push(child);
+				}
+				node = child;
+			});
+			if (node !== root) {
+				node.isTag = true;
+			}
+		}
+
+		const sortNodes = (nodes: TagTreeNode[]) => {
+			nodes.sort((a, b) => a.name.toLowerCase().localeCompare(b.name.toLowerCase()));
+			nodes.forEach(n => sortNodes(n.children));
+		};
+		sortNodes(root.children);
+
+		return root.children;
+	}
+
 	/**
 	 * Extracts display text from markdown links
 	 * [Display Text](link) -> Display Text
@@ -18,221 +194,405 @@ export class TagProcessor {
 		return match ? match[1] : tag;
 	}
 
+	/**
+	 * Returns the raw frontmatter block (without the --- fences), or an empty string if there is none
+	 */
+	extractFrontmatter(content: string): string {
+		const frontmatter = this.frontmatterParser.parse(content);
+		return frontmatter ? frontmatter.text.replace(/\r?\n$/, '') : '';
+	}
+
+	/**
+	 * Returns everything after the frontmatter block (or the whole content if there is none)
+	 */
+	extractBody(content: string): string {
+		const frontmatter = this.frontmatterParser.parse(content);
+		return frontmatter ? content.slice(frontmatter.fenceEnd) : content;
+	}
+
 	extractTagsFromContent(content: string): string[] {
+		const frontmatter = this.frontmatterParser.parse(content);
+		if (!frontmatter) return [];
+
+		const tags: string[] = [];
+		for (const entry of this.getTagEntries(frontmatter)) {
+			tags.push(...this.readEntryTags(entry).map(tag => this.toTagName(tag)));
+		}
+		return tags.filter(tag => tag.length > 0);
+	}
+
+	/**
+	 * Reads the tags from an already parsed frontmatter object (e.g. Obsidian's metadata cache),
+	 * following the same rules as extractTagsFromContent
+	 */
+	extractTagsFromFrontmatter(frontmatter: Record<string, unknown> | undefined): string[] {
+		if (!frontmatter) return [];
+
 		const tags: string[] = [];
-		const frontmatterMatch = content.match(REGEX_PATTERNS.FRONTMATTER);
-		
-		if (!frontmatterMatch) return tags;
-
-		const frontmatter = frontmatterMatch[1];
-
-		// Extract from tag arrays (tags: [tag1, tag2])
-		const arrayMatches = frontmatter.match(REGEX_PATTERNS.TAG_ARRAY);
-		if (arrayMatches) {
-			arrayMatches.forEach(line => {
-				const tagContent = line.replace(/^tags:\s*\[|\]$/g, '');
-				const tagList = tagContent.split(',').map(tag => {
-					const cleanTag = tag.trim().replace(/['"]/g, '');
-					return this.extractDisplayText(cleanTag);
+		for (const key of TAG_KEYS) {
+			const value = frontmatter[key];
+			if (Array.isArray(value)) {
+				value.forEach(tag => {
+					if (typeof tag === 'string' || typeof tag === 'number') {
+						tags.push(String(tag).trim());
+					}
 				});
-				tags.push(...tagList.filter(tag => tag.length > 0));
-			});
+			} else if (typeof value === 'string') {
+				tags.push(...value.split(/[,\s]+/));
+			}
 		}
+		return tags.map(tag => this.toTagName(tag)).filter(tag => tag.length > 0);
+	}
 
-		// Extract from tag lists (tags:\n  - tag1\n  - tag2)
-		const listMatches = frontmatter.match(REGEX_PATTERNS.TAG_LIST);
-		if (listMatches) {
-			listMatches.forEach(block => {
-				const tagLines = block.match(REGEX_PATTERNS.TAG_LINE_MATCH);
-				if (tagLines) {
-					tagLines.forEach(line => {
-						const cleanTag = line.replace(/^\s*-\s*/, '').trim().replace(/['"]/g, '');
-						const displayText = this.extractDisplayText(cleanTag);
-						if (displayText.length > 0) tags.push(displayText);
-					});
-				}
-			});
+	/**
+	 * Adds the tags the note does not have yet (case and Unicode variants count as present) to its first
+	 * `tags`/`tag` entry, or to a new `tags` list. Lists keep their style; a single value becomes a flow list.
+	 * Returns null if the existing tags are nested or multi-line and cannot be extended.
+	 */
+	addTagsToContent(content: string, tags: string[]): string | null {
+		const frontmatter = this.frontmatterParser.parse(content);
+		const entries = frontmatter ? this.getTagEntries(frontmatter) : [];
+		const seen = new Set(entries.reduce<string[]>((all, entry) => all.concat(this.readEntryTags(entry)), [])
+			.map(tag => this.getVariantKey(this.extractDisplayText(tag).replace(/^#/, ''))));
+		const added = tags.filter(tag => {
+			const key = this.getVariantKey(tag);
+			if (seen.has(key)) {
+				return false;
+			}
+			seen.add(key);
+			return true;
+		});
+		if (added.length === 0) {
+			return content;
 		}
 
-		// Extract from single tag line (tag: tagname)
-		const singleMatches = frontmatter.match(REGEX_PATTERNS.SINGLE_TAG);
-		if (singleMatches) {
-			singleMatches.forEach(line => {
-				const cleanTag = line.replace(/^tag:\s*/, '').trim().replace(/['"]/g, '');
-				const displayText = this.extractDisplayText(cleanTag);
-				if (displayText.length > 0) tags.push(displayText);
-			});
+		const flow = (values: string[], quote: QuoteStyle) => values.map(tag => this.formatTag(tag, quote, true)).join(', ');
+		if (!frontmatter) {
+			const eol = content.includes('\r\n') ? '\r\n' : '\n';
+			return `---${eol}tags: [${flow(added, '')}]${eol}---${eol}${content}`;
+		}
+
+		const eol = frontmatter.eol;
+		const entry = entries[0];
+		if (!entry) {
+			const end = frontmatter.text.length;
+			const indent = frontmatter.entries.length > 0 ? frontmatter.entries[0].indent : '';
+			return this.frontmatterParser.applyEdits(content, frontmatter, [{ start: end, end, text: `${indent}tags: [${flow(added, '')}]${eol}` }]);
 		}
 
-		return tags;
+		const items = entry.items.filter(item => item.value.trim().length > 0);
+		const last = items[items.length - 1];
+		let edit: TextEdit;
+		switch (entry.kind) {
+			case 'flow':
+				edit = last
+					? { start: last.end, end: last.end, text: `, ${flow(added, last.quote)}` }
+					: { start: entry.valueStart, end: entry.valueEnd, text: ` [${flow(added, '')}]` };
+				break;
+			case 'block':
+				edit = last
+					? { start: last.lineEnd, end: last.lineEnd, text: added.map(tag => `${entry.itemIndent}- ${this.formatTag(tag, last.quote, false)}${eol}`).join('') }
+					: { start: entry.valueStart, end: entry.end, text: ` [${flow(added, '')}]${eol}` };
+				break;
+			case 'scalar':
+			case 'empty': {
+				const quote = entry.items[0]?.quote ?? '';
+				edit = { start: entry.valueStart, end: entry.valueEnd, text: ` [${flow([...this.readEntryTags(entry), ...added], quote)}]` };
+				break;
+			}
+			default:
+				return null;
+		}
+		return this.frontmatterParser.applyEdits(content, frontmatter, [edit]);
 	}
 
-	removeDuplicateTagsFromContent(content: string): string {
-		const frontmatterMatch = content.match(REGEX_PATTERNS.FRONTMATTER);
-		
-		if (!frontmatterMatch) return content;
+	/**
+	 * Removes every frontmatter tag for which shouldRemove (called with the display text) returns true
+	 */
+	removeTagsFromContent(content: string, shouldRemove: (tag: string) => boolean): string {
+		return this.rewriteTagEntries(content, tags => tags.map(tag => shouldRemove(this.extractDisplayText(tag)) ? null : tag));
+	}
+
+	removeDuplicateTagsFromContent(content: string, options?: DuplicateOptions): string {
+		return this.rewriteTagEntries(content, tags => this.removeDuplicateTags(tags, options));
+	}
 
-		let frontmatter = frontmatterMatch[1];
-		let modified = false;
+	/**
+	 * Drops repeated tags (null = removed). With matchVariants, tags that only differ in case or
+	 * Unicode form count as one tag, which keeps the configured spelling at its first position.
+	 */
+	removeDuplicateTags(tags: string[], options?: DuplicateOptions): (string | null)[] {
+		const keyOf = (tag: string) => options?.matchVariants ? this.getVariantKey(tag) : tag;
+		const variants = new Map<string, string[]>();
+		tags.forEach(tag => {
+			const key = keyOf(tag);
+			variants.set(key, [...(variants.get(key) || []), tag]);
+		});
 
-		// Process tag arrays (tags: [tag1, tag2, tag1])
-		frontmatter = frontmatter.replace(REGEX_PATTERNS.TAG_ARRAY, (line, tagContent) => {
-			const tags = tagContent.split(',').map((tag: string) => tag.trim().replace(/['"]/g, ''));
-			const uniqueTags = [...new Set(tags.filter((tag: string) => tag.length > 0))];
-			
-			if (uniqueTags.length !== tags.filter((tag: string) => tag.length > 0).length) {
-				modified = true;
-				const formattedTags = (uniqueTags as string[]).map((tag: string) => `"${tag}"`).join(', ');
-				return `tags: [${formattedTags}]`;
+		const seen = new Set<string>();
+		return tags.map(tag => {
+			const key = keyOf(tag);
+			if (seen.has(key)) {
+				return null;
 			}
-			return line;
+			seen.add(key);
+			const spellings = Array.from(new Set(variants.get(key)));
+			return spellings.length > 1 ? this.chooseSpelling(spellings, key, options) : tag;
 		});
+	}
+
+	/**
+	 * The key under which case and Unicode variants of a tag collide: NFKC folded to lowercase
+	 */
+	getVariantKey(tag: string): string {
+		return tag.normalize('NFKC').toLowerCase();
+	}
+
+	/**
+	 * Duplicate removal options from the settings. The literal rename targets are the canonical spellings.
+	 */
+	getDuplicateOptions(settings: TagRenamerSettings): DuplicateOptions {
+		return {
+			matchVariants: settings.tagMatching?.dedupeVariants || false,
+			keep: settings.tagMatching?.keepSpelling || 'first',
+			canonicalTags: settings.renamePatterns
+				.filter(p => !p.removeMode && p.replace && (p.matchMode || 'exact') === 'exact')
+				.map(p => p.replace.replace(/\s+/g, '_'))
+		};
+	}
+
+	processFileContent(content: string, patterns: RenamePattern[], parallel = false): string {
+		// Pre-compile regexes for better performance
+		const compiledPatterns = this.compilePatterns(patterns);
+		if (compiledPatterns.length === 0) return content;
 
-		// Process tag lists (tags:\n  - tag1\n  - tag2\n  - tag1)
-		frontmatter = frontmatter.replace(REGEX_PATTERNS.TAG_LIST, (block) => {
-			const tagLines = block.match(REGEX_PATTERNS.TAG_LINE_MATCH);
-			if (tagLines) {
-				const tags = tagLines.map(line => 
-					line.replace(/^\s*-\s*/, '').trim().replace(/['"]/g, '')
-				).filter(tag => tag.length > 0);
-				
-				const uniqueTags = [...new Set(tags)];
-				
-				if (uniqueTags.length !== tags.length) {
-					modified = true;
-					const newTagLines = uniqueTags.map((tag: string) => `  - "${tag}"`).join('\n');
-					return `tags:\n${newTagLines}\n`;
+		return this.rewriteTagEntries(content, tags => tags.map(tag => this.applyPatternsToTag(tag, compiledPatterns, parallel)));
+	}
+
+	/**
+	 * Rewrites the tag entries in one target shape: `tag:` becomes `tags:`, a note with both keys gets
+	 * one merged list, and comma- or space-separated strings become real lists. Notes that are already
+	 * in the target shape are returned unchanged.
+	 */
+	normalizeTagFormat(content: string, format: TagFormatSettings): string {
+		const frontmatter = this.frontmatterParser.parse(content);
+		if (!frontmatter) return content;
+
+		const entries = this.getTagEntries(frontmatter);
+		if (entries.length === 0 || entries.some(entry => entry.kind === 'mapping' || entry.kind === 'unknown')) {
+			// Nested or unparseable values are left for the user to fix by hand
+			return content;
+		}
+
+		const tags: { value: string; quote: QuoteStyle }[] = [];
+		entries.forEach(entry => {
+			const items = entry.items.filter(item => item.value.trim().length > 0);
+			const listed = entry.kind === 'flow' || entry.kind === 'block';
+			this.readEntryTags(entry).forEach((value, index) => {
+				if (!tags.some(tag => tag.value === value)) {
+					tags.push({ value, quote: listed ? items[index].quote : entry.items[0].quote });
 				}
-			}
-			return block;
+			});
 		});
+		if (tags.length === 0) {
+			return content;
+		}
+
+		const first = entries[0];
+		const inline = format.singleTagInline && tags.length === 1;
+		const targetKind = inline ? 'scalar' : format.style;
+		if (entries.length === 1 && first.key === 'tags' && first.kind === targetKind && this.readEntryTags(first).length === tags.length) {
+			return content;
+		}
 
-		if (modified) {
-			return content.replace(REGEX_PATTERNS.FRONTMATTER, `---\n${frontmatter}\n---`);
+		const eol = frontmatter.eol;
+		const prefix = `${first.indent}${this.frontmatterParser.formatScalar('tags', first.keyQuote)}:`;
+		let text: string;
+		if (inline) {
+			text = `${prefix} ${this.formatTag(tags[0].value, tags[0].quote, false)}${eol}`;
+		} else if (format.style === 'flow') {
+			text = `${prefix} [${tags.map(tag => this.formatTag(tag.value, tag.quote, true)).join(', ')}]${eol}`;
+		} else {
+			// Keep the indentation of an existing block list
+			const itemIndent = entries.find(entry => entry.kind === 'block')?.itemIndent ?? `${first.indent}  `;
+			text = prefix + eol + tags.map(tag => `${itemIndent}- ${this.formatTag(tag.value, tag.quote, false)}${eol}`).join('');
 		}
 
-		return content;
+		const edits: TextEdit[] = entries.map((entry, index) => ({ start: entry.start, end: entry.end, text: index === 0 ? text : '' }));
+		return this.frontmatterParser.applyEdits(content, frontmatter, edits);
 	}
 
-	processFileContent(content: string, patterns: RenamePattern[]): string {
-		const frontmatterMatch = content.match(REGEX_PATTERNS.FRONTMATTER);
-		
-		if (!frontmatterMatch) return content;
+	/**
+	 * Runs the patterns against a single tag and returns null if it should be removed.
+	 * Sequential: each pattern sees the result of the previous ones, so a→b, b→c turns a into c.
+	 * Parallel: every pattern sees the original tag and the first match wins.
+	 */
+	applyPatternsToTag(tag: string, patterns: CompiledPattern[], parallel = false): string | null {
+		let current = tag;
+		for (const pattern of patterns) {
+			// Match against the display text for markdown links
+			const displayText = this.extractDisplayText(current);
+			if (this.matchesPattern(pattern, displayText)) {
+				if (pattern.removeMode) {
+					return null;
+				}
+				current = this.getReplacement(pattern, displayText);
+				if (parallel) {
+					return current;
+				}
+			}
+		}
+		return current;
+	}
 
-		let frontmatter = frontmatterMatch[1];
-		let modified = false;
+	private chooseSpelling(spellings: string[], key: string, options?: DuplicateOptions): string {
+		switch (options?.keep) {
+			case 'canonical':
+				return (options.canonicalTags || []).find(tag => this.getVariantKey(tag) === key) || spellings[0];
+			case 'lowercase':
+				return key;
+			default:
+				return spellings[0];
+		}
+	}
 
-		// Pre-compile regexes for better performance
-		const compiledPatterns = patterns.map(p => ({
-			...p,
-			regex: new RegExp(`^${this.escapeRegex(p.search)}$`)
-		}));
+	/**
+	 * The tag a frontmatter value stands for: the display text of a markdown link, without a leading #
+	 */
+	private toTagName(value: string): string {
+		return this.extractDisplayText(value.trim()).replace(/^#/, '');
+	}
 
-		// Process tag arrays (tags: [tag1, tag2])
-		frontmatter = frontmatter.replace(REGEX_PATTERNS.TAG_ARRAY, (_line, tagContent) => {
-			let tags = tagContent.split(',').map((tag: string) => tag.trim().replace(/['"]/g, ''));
-			let originalLength = tags.length;
-			
-			for (const pattern of compiledPatterns) {
-				if (pattern.removeMode) {
-					// Remove matching tags (check display text for markdown links)
-					tags = tags.filter((tag: string) => {
-						const displayText = this.extractDisplayText(tag.trim());
-						return !pattern.regex.test(displayText);
-					});
-				} else {
-					// Replace matching tags (check display text for markdown links)
-					tags = tags.map((tag: string) => {
-						const displayText = this.extractDisplayText(tag.trim());
-						if (pattern.regex.test(displayText)) {
-							modified = true;
-							// Convert to proper tag format (replace spaces with underscores, drop links)
-							return pattern.replace.replace(/\s+/g, '_');
-						}
-						return tag;
-					});
+	private getTagEntries(frontmatter: ParsedFrontmatter): FrontmatterEntry[] {
+		return frontmatter.entries.filter(entry => TAG_KEYS.includes(entry.key));
+	}
+
+	/**
+	 * Reads the tags of a `tags`/`tag` entry. Plain string values are split on commas and spaces, like Obsidian does.
+	 */
+	private readEntryTags(entry: FrontmatterEntry): string[] {
+		switch (entry.kind) {
+			case 'flow':
+			case 'block':
+				return entry.items.map(item => item.value.trim()).filter(tag => tag.length > 0);
+			case 'scalar':
+			case 'block-scalar': {
+				const item = entry.items[0];
+				if (item.quote !== '' && entry.kind === 'scalar') {
+					return item.value.trim().length > 0 ? [item.value.trim()] : [];
 				}
+				return item.value.split(/[,\s]+/).filter(tag => tag.length > 0);
 			}
-			
-			if (tags.length !== originalLength) {
-				modified = true;
+			default:
+				return [];
+		}
+	}
+
+	/**
+	 * Maps every tag of every `tags`/`tag` entry (null removes the tag) and writes back only the entries that changed.
+	 * Everything else in the file is kept byte-for-byte.
+	 */
+	private rewriteTagEntries(content: string, mapTags: (tags: string[]) => (string | null)[]): string {
+		const frontmatter = this.frontmatterParser.parse(content);
+		if (!frontmatter) return content;
+
+		const edits: TextEdit[] = [];
+		for (const entry of this.getTagEntries(frontmatter)) {
+			const tags = this.readEntryTags(entry);
+			const mapped = mapTags(tags);
+			if (mapped.every((tag, index) => tag === tags[index])) {
+				continue;
 			}
-			
-			const formattedTags = tags.filter((tag: string) => tag.length > 0).map((tag: string) => `"${tag}"`).join(', ');
-			return `tags: [${formattedTags}]`;
-		});
 
-		// Process tag lists (tags:\n  - tag1\n  - tag2)
-		frontmatter = frontmatter.replace(REGEX_PATTERNS.TAG_LIST, (block) => {
-			const tagLines = block.match(REGEX_PATTERNS.TAG_LINE_MATCH);
-			if (tagLines) {
-				let tags = tagLines.map(line => 
-					line.replace(/^\s*-\s*/, '').trim().replace(/['"]/g, '')
-				).filter(tag => tag.length > 0);
-				
-				let originalLength = tags.length;
-				
-				for (const pattern of compiledPatterns) {
-					if (pattern.removeMode) {
-						// Remove matching tags (check display text for markdown links)
-						tags = tags.filter(tag => {
-							const displayText = this.extractDisplayText(tag);
-							return !pattern.regex.test(displayText);
-						});
-					} else {
-						// Replace matching tags (check display text for markdown links)
-						tags = tags.map(tag => {
-							const displayText = this.extractDisplayText(tag);
-							if (pattern.regex.test(displayText)) {
-								modified = true;
-								// Convert to proper tag format (replace spaces with underscores, drop links)
-								return pattern.replace.replace(/\s+/g, '_');
-							}
-							return tag;
-						});
+			const remaining = mapped.filter((tag): tag is string => tag !== null && tag.length > 0);
+			edits.push(...this.buildEntryEdits(entry, mapped, remaining));
+		}
+
+		return this.frontmatterParser.applyEdits(content, frontmatter, edits);
+	}
+
+	/**
+	 * Edits only the tags that changed: removed tags disappear with their separator or line,
+	 * renamed tags are formatted with the quote style, and everything else keeps its original text
+	 */
+	private buildEntryEdits(entry: FrontmatterEntry, mapped: (string | null)[], remaining: string[]): TextEdit[] {
+		switch (entry.kind) {
+			case 'flow': {
+				if (remaining.length === 0) {
+					return [{ start: entry.valueStart, end: entry.valueEnd, text: ' []' }];
+				}
+				const edits: TextEdit[] = [];
+				const items = entry.items.filter(item => item.value.trim().length > 0);
+				const isKept = (index: number) => mapped[index] !== null && (mapped[index] || '').length > 0;
+				const lastKept = items.reduce((last, _item, index) => isKept(index) ? index : last, -1);
+				items.forEach((item, index) => {
+					const tag = mapped[index];
+					if (index > lastKept) {
+						return; // The trailing run of removed tags is cut in one edit below
+					}
+					if (!isKept(index)) {
+						edits.push({ start: item.start, end: items[index + 1].start, text: '' });
+					} else if (tag !== item.value.trim()) {
+						edits.push({ start: item.start, end: item.end, text: this.formatTag(tag as string, item.quote, true) });
 					}
+				});
+				if (lastKept < items.length - 1) {
+					edits.push({ start: items[lastKept].end, end: items[items.length - 1].end, text: '' });
 				}
-				
-				if (tags.length !== originalLength) {
-					modified = true;
+				return edits;
+			}
+			case 'block': {
+				if (remaining.length === 0) {
+					// Remove the entire tags section if no tags remain
+					return [{ start: entry.start, end: entry.end, text: '' }];
 				}
-				
-				if (tags.length === 0) {
-					return ''; // Remove the entire tags section if no tags remain
+				const edits: TextEdit[] = [];
+				const items = entry.items.filter(item => item.value.trim().length > 0);
+				items.forEach((item, index) => {
+					const tag = mapped[index];
+					if (tag === null || tag.length === 0) {
+						edits.push({ start: item.lineStart, end: item.lineEnd, text: '' });
+					} else if (tag !== item.value.trim()) {
+						edits.push({ start: item.start, end: item.end, text: this.formatTag(tag, item.quote, false) });
+					}
+				});
+				return edits;
+			}
+			case 'scalar': {
+				if (remaining.length === 0) {
+					return [{ start: entry.start, end: entry.end, text: '' }];
 				}
-				
-				const newTagLines = tags.map((tag: string) => `  - "${tag}"`).join('\n');
-				return `tags:\n${newTagLines}\n`;
+				const item = entry.items[0];
+				const separator = item.value.includes(',') || remaining.length === 1 ? ', ' : ' ';
+				return [{ start: item.start, end: item.end, text: this.formatTag(remaining.join(separator), item.quote, false) }];
 			}
-			return block;
-		});
-
-		// Process single tag line (tag: tagname)
-		frontmatter = frontmatter.replace(REGEX_PATTERNS.SINGLE_TAG, (line, tag) => {
-			const cleanTag = tag.trim().replace(/['"]/g, '');
-			const displayText = this.extractDisplayText(cleanTag);
-			
-			for (const pattern of compiledPatterns) {
-				if (pattern.regex.test(displayText)) {
-					modified = true;
-					if (pattern.removeMode) {
-						return ''; // Remove the entire tag line
-					} else {
-						// Convert to proper tag format (replace spaces with underscores, drop links)
-						return `tag: "${pattern.replace.replace(/\s+/g, '_')}"`;
-					}
+			case 'block-scalar': {
+				if (remaining.length === 0) {
+					return [{ start: entry.start, end: entry.end, text: '' }];
 				}
+				const item = entry.items[0];
+				const indent = item.raw.slice(0, item.raw.length - item.raw.trimStart().length) || `${entry.indent}  `;
+				return [{ start: item.start, end: item.end, text: `${indent}${remaining.join(', ')}` }];
 			}
-			return line;
-		});
-
-		// Clean up empty lines left by removed tags
-		frontmatter = frontmatter.replace(REGEX_PATTERNS.EMPTY_LINES, '\n').replace(REGEX_PATTERNS.TRIM_LINES, '');
-
-		if (modified) {
-			return content.replace(REGEX_PATTERNS.FRONTMATTER, `---\n${frontmatter}\n---`);
+			default:
+				return [];
 		}
+	}
 
-		return content;
+	/**
+	 * Formats a rewritten tag. "match" keeps the quotes of the value it replaces; plain values
+	 * (from "match" or "plain") are quoted only when YAML would misread them.
+	 */
+	private formatTag(tag: string, quote: QuoteStyle, inFlow: boolean): string {
+		switch (this.quoteStyle) {
+			case 'double':
+				return this.frontmatterParser.formatScalar(tag, '"');
+			case 'single':
+				return this.frontmatterParser.formatScalar(tag, "'");
+			case 'plain':
+				return this.frontmatterParser.formatValue(tag, '', inFlow);
+			default:
+				return this.frontmatterParser.formatValue(tag, quote, inFlow);
+		}
 	}
-}
\ No newline at end of file
+}
@@ -1,145 +1,447 @@
 /**
  * Tag Property Processor Service
  * Handles renaming of tag property names in frontmatter
- * (e.g., "🗄️ Tags Database" → "tags")
+ * (e.g., "🗄️ Tags Database" → "tags"), as well as deleting properties and setting their values
  */
 
-import { PropertyRenamePattern } from '../types/interfaces';
-import { REGEX_PATTERNS } from '../constants/patterns';
+import { DiscoveredProperty, KeyConflict, PropertyConflictPolicy, PropertyDiscoverySettings, PropertyObservation, PropertyRenamePattern } from '../types/interfaces';
+import { FrontmatterParser, FrontmatterEntry, FrontmatterItem, ParsedFrontmatter, QuoteStyle, TextEdit } from './FrontmatterParser';
+import { DEFAULT_PROPERTY_DISCOVERY } from '../constants/patterns';
+
+// How one note writes a property: a list of slugs (work, project-x), a list of short values or links,
+// a single slug, IDs/numbers/dates, longer text, or something else (nested, boolean, empty)
+type ValueShape = 'slug-list' | 'short-list' | 'slug' | 'id' | 'text' | 'other';
+
+const SHAPE_REASONS: Record<Exclude<ValueShape, 'other'>, string> = {
+    'slug-list': 'list of short slugs',
+    'short-list': 'list of short values',
+    slug: 'single slug',
+    id: 'IDs, numbers or dates',
+    text: 'long or multi-word text'
+};
+
+// UUIDs, long hex strings, numbers, ISO dates and URLs
+const ID_LIKE = /^(?:[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}|[0-9a-f]{16,}|[-+]?\d+(?:[.,]\d+)?|\d{4}-\d{2}-\d{2}.*|[a-z][a-z0-9+.-]*:\/\/\S+)$/i;
+const TAG_NAME_HINT = /tag|label|categor|topic|keyword|subject/i;
+const TAG_KEYS = ['tags', 'tag'];
+const MAX_OBSERVED_VALUES = 10;
+
+export interface PropertyRenameOutcome {
+    content: string;
+    conflicts: KeyConflict[];
+}
 
 export class TagPropertyProcessor {
+    private frontmatterParser = new FrontmatterParser();
+
     /**
-     * Renames tag properties in frontmatter according to patterns
+     * Renames tag properties in frontmatter according to patterns.
+     * Only the keys are rewritten; values, comments and formatting are left untouched.
+     * When a note already has the target key, the policy decides what happens (see applyPropertyPatterns).
      */
-    renameTagProperties(content: string, patterns: PropertyRenamePattern[]): string {
-        const frontmatterMatch = content.match(REGEX_PATTERNS.FRONTMATTER);
-        
-        if (!frontmatterMatch || patterns.length === 0) {
-            return content;
-        }
+    renameTagProperties(content: string, patterns: PropertyRenamePattern[], policy: PropertyConflictPolicy = 'merge'): string {
+        return this.applyPropertyPatterns(content, patterns, policy).content;
+    }
 
-        let frontmatter = frontmatterMatch[1];
-        let modified = false;
+    /**
+     * Applies the patterns in order and reports every rename whose target key already existed.
+     * merge: the values are added to the target entry (without duplicates) and the old entry is removed
+     * skip: both entries are left as they are
+     * overwrite: the target entry is removed and the old entry takes its name
+     * suffix: the old entry is renamed to the first free "to_2", "to_3", ...
+     */
+    applyPropertyPatterns(content: string, patterns: PropertyRenamePattern[], policy: PropertyConflictPolicy = 'merge'): PropertyRenameOutcome {
+        const conflicts: KeyConflict[] = [];
+        let result = content;
 
-        // Apply each pattern
+        // Apply each pattern in order, so later patterns see the keys renamed by earlier ones
         for (const pattern of patterns) {
-            const { from, to } = pattern;
-            
-            // Escape special characters in the property name for regex
-            const escapedFrom = this.escapeRegexSpecialChars(from);
-            
-            // Pattern to match property lines: "property:" or "property: value" or "property:\n  - item"
-            const propertyRegex = new RegExp(
-                `^(\\s*)(${escapedFrom})(\\s*:)(.*?)$`,
-                'gm'
-            );
-
-            const beforeReplace = frontmatter;
-            frontmatter = frontmatter.replace(propertyRegex, (_match, indent, _oldProp, colon, rest) => {
-                modified = true;
-                return `${indent}${to}${colon}${rest}`;
-            });
-
-            // If we made changes, continue to next pattern
-            if (frontmatter !== beforeReplace) {
+            if (pattern.action && pattern.action !== 'rename') {
+                result = this.editProperty(result, pattern);
                 continue;
             }
+
+            // Without frontmatter there is nothing to rename, but later set and add patterns still apply
+            const renamed = this.renameProperty(result, pattern, policy, conflicts);
+            if (renamed === null) {
+                continue;
+            }
+            result = renamed;
+        }
+
+        return { content: result, conflicts };
+    }
+
+    /**
+     * Whether a pattern has everything its action needs. Values of set and add must fit on one line.
+     */
+    isValidPattern(pattern: PropertyRenamePattern): boolean {
+        if (!pattern.from) {
+            return false;
+        }
+        switch (pattern.action) {
+            case 'delete':
+                return true;
+            case 'set':
+            case 'add':
+                return !/[\r\n]/.test(pattern.value || '');
+            default:
+                return !!pattern.to;
+        }
+    }
+
+    /**
+     * Describes what happened to a conflicting property, e.g. 'merged "Labels" into "tags"'
+     */
+    describeConflict(conflict: KeyConflict): string {
+        const from = `"${conflict.from}"`;
+        const to = `"${conflict.to}"`;
+        switch (conflict.resolution) {
+            case 'merge':
+                return `merged ${from} into ${to}`;
+            case 'overwrite':
+                return `${from} replaced the existing ${to}`;
+            case 'suffix':
+                return `${from} kept as "${conflict.writtenKey}" next to ${to}`;
+            default:
+                return `skipped ${from}, ${to} already exists`;
+        }
+    }
+
+    /**
+     * Adds the values a property does not have yet. A missing property is created with a single value or a flow list,
+     * a single value becomes a list and existing lists keep their style. Returns null if the property is nested or multi-line.
+     */
+    addPropertyValues(content: string, property: string, values: string[]): string | null {
+        if (values.length === 0) {
+            return content;
         }
 
-        if (modified) {
-            return content.replace(REGEX_PATTERNS.FRONTMATTER, `---\n${frontmatter}\n---`);
+        const frontmatter = this.frontmatterParser.parse(content);
+        const target = frontmatter?.entries.find(entry => entry.key === property);
+        if (!frontmatter || !target) {
+            const unique = values.filter((value, index) => values.indexOf(value) === index);
+            const text = unique.length === 1
+                ? this.frontmatterParser.formatValue(unique[0], '', false)
+                : `[${unique.map(value => this.frontmatterParser.formatValue(value, '', true)).join(', ')}]`;
+            return this.editProperty(content, { from: property, to: '', action: 'add', value: text });
         }
 
-        return content;
+        const edits = this.buildAppendEdits(frontmatter, target, values.map(value => ({ value, quote: '' as QuoteStyle })));
+        return edits ? this.frontmatterParser.applyEdits(content, frontmatter, edits) : null;
     }
 
     /**
      * Finds custom tag properties in frontmatter (excludes standard "tags", "tag", etc.)
      */
-    findCustomTagProperties(content: string): string[] {
-        const frontmatterMatch = content.match(REGEX_PATTERNS.FRONTMATTER);
-        
-        if (!frontmatterMatch) {
-            return [];
+    findCustomTagProperties(content: string, settings?: PropertyDiscoverySettings): string[] {
+        return this.scoreProperties([this.observePropertiesInContent(content)], settings).map(property => property.name);
+    }
+
+    /**
+     * Same as observeProperties, for raw note content
+     */
+    observePropertiesInContent(content: string): Record<string, PropertyObservation> {
+        const frontmatter = this.frontmatterParser.parse(content);
+
+        // Reduce each entry to the shape Obsidian's metadata cache would give us
+        return this.observeProperties(frontmatter ? this.frontmatterParser.getValues(frontmatter) : undefined);
+    }
+
+    /**
+     * Finds custom tag properties in an already parsed frontmatter object (e.g. from Obsidian's metadata cache)
+     */
+    findCustomTagPropertiesInFrontmatter(frontmatter: Record<string, unknown> | undefined, settings?: PropertyDiscoverySettings): string[] {
+        return this.scoreProperties([this.observeProperties(frontmatter)], settings).map(property => property.name);
+    }
+
+    /**
+     * Records the shape and first values of every property of one note, so discovery can be scored
+     * across notes later with the current settings
+     */
+    observeProperties(frontmatter: Record<string, unknown> | undefined): Record<string, PropertyObservation> {
+        const observations: Record<string, PropertyObservation> = {};
+        if (!frontmatter) {
+            return observations;
         }
 
-        const frontmatter = frontmatterMatch[1];
-        const properties: string[] = [];
-        
-        // Standard tag properties to exclude
-        const standardProps = new Set(['tags', 'tag', 'category', 'categories']);
-        
-        // Common metadata fields to exclude  
-        const commonMetadata = new Set(['title', 'author', 'date', 'created', 'modified', 'status', 'priority']);
-        
-        // Match all property lines in frontmatter
-        // Handle property names that may contain spaces (like emoji properties)
-        const propertyRegex = /^(\s*)([^:]+?)(\s*:)/gmu;
-        let match;
-        
-        while ((match = propertyRegex.exec(frontmatter)) !== null) {
-            const propertyName = match[2].trim();
-            
-            // Skip standard properties and common metadata
-            if (standardProps.has(propertyName.toLowerCase()) || commonMetadata.has(propertyName.toLowerCase())) {
+        for (const [key, value] of Object.entries(frontmatter)) {
+            const propertyName = key.trim();
+            // Obsidian exposes its own "position" key; tag keys are never custom properties
+            if (propertyName === 'position' || TAG_KEYS.includes(propertyName.toLowerCase())) {
                 continue;
             }
-            
-            // Look for properties that might contain tag-like data
-            const restOfLine = frontmatter.slice(match.index + match[0].length);
-            const lineEnd = restOfLine.indexOf('\n');
-            const line = lineEnd === -1 ? restOfLine : restOfLine.slice(0, lineEnd);
-            
-            // Check if this looks like a tag property (array, list, or single values)
-            if (this.looksLikeTagProperty(line, frontmatter, match.index + match[0].length)) {
-                if (!properties.includes(propertyName)) {
-                    properties.push(propertyName);
-                }
+
+            const items = Array.isArray(value) ? value : [value];
+            observations[propertyName] = {
+                list: Array.isArray(value),
+                values: items
+                    .filter(item => typeof item === 'string' || typeof item === 'number')
+                    .map(item => String(item).trim())
+                    .filter(item => item.length > 0)
+                    .slice(0, MAX_OBSERVED_VALUES)
+            };
+        }
+        return observations;
+    }
+
+    /**
+     * Scores properties across notes, one observation map per note. Lists of short slugs score highest,
+     * lists of short values (e.g. links) a little lower and single slugs lower still; IDs, numbers, dates
+     * and long text do not count. Excluded properties and those below the minimum confidence are dropped.
+     */
+    scoreProperties(notes: Record<string, PropertyObservation>[], settings?: PropertyDiscoverySettings): DiscoveredProperty[] {
+        const options = settings || DEFAULT_PROPERTY_DISCOVERY;
+        const excluded = new Set(options.excludedProperties.map(name => name.trim().toLowerCase()));
+
+        const byProperty = new Map<string, PropertyObservation[]>();
+        notes.forEach(note => Object.entries(note).forEach(([name, observation]) => {
+            if (!excluded.has(name.toLowerCase())) {
+                byProperty.set(name, [...(byProperty.get(name) || []), observation]);
             }
+        }));
+
+        const discovered: DiscoveredProperty[] = [];
+        byProperty.forEach((observations, name) => {
+            const counts: Record<ValueShape, number> = { 'slug-list': 0, 'short-list': 0, slug: 0, id: 0, text: 0, other: 0 };
+            observations.forEach(observation => counts[this.classifyObservation(observation, options.maxValueLength)]++);
+
+            const noteCount = observations.length;
+            const share = (shape: ValueShape) => counts[shape] / noteCount;
+            const nameHint = TAG_NAME_HINT.test(name);
+            const score = share('slug-list') + share('short-list') * 0.8 + (options.countSingleValues ? share('slug') * 0.6 : 0);
+            const confidence = Math.min(100, Math.round(score * 100) + (nameHint && score > 0 ? 15 : 0));
+            if (confidence < options.minConfidence) {
+                return;
+            }
+
+            const percent = (shape: ValueShape) => `${Math.round(share(shape) * 100)}% of notes`;
+            const reasons: string[] = [];
+            (Object.keys(SHAPE_REASONS) as Exclude<ValueShape, 'other'>[])
+                .filter(shape => counts[shape] > 0)
+                .forEach(shape => reasons.push(`${SHAPE_REASONS[shape]} in ${percent(shape)}${shape === 'slug' && !options.countSingleValues ? ' (not counted)' : ''}`));
+            if (nameHint) {
+                reasons.push('name suggests tags');
+            }
+
+            const typical = observations.find(observation => this.isTagLikeShape(this.classifyObservation(observation, options.maxValueLength)));
+            const sample = (typical || observations.find(observation => observation.values.length > 0))?.values[0] || '';
+            discovered.push({ name, noteCount, confidence, reasons, sample });
+        });
+
+        return discovered.sort((a, b) => b.confidence - a.confidence || b.noteCount - a.noteCount || a.name.localeCompare(b.name));
+    }
+
+    /**
+     * Renames every "from" entry, or returns null if the note has no frontmatter
+     */
+    private renameProperty(content: string, pattern: PropertyRenamePattern, policy: PropertyConflictPolicy, conflicts: KeyConflict[]): string | null {
+        const { from, to } = pattern;
+        const initial = this.frontmatterParser.parse(content);
+        if (!initial) {
+            return null;
+        }
+        if (from === to) {
+            return content;
+        }
+
+        // Entries are handled one at a time, so a second "from" entry conflicts with the first one once it is renamed
+        const sourceCount = initial.entries.filter(entry => entry.key === from).length;
+        let result = content;
+        let handled = 0;
+
+        for (let i = 0; i < sourceCount; i++) {
+            const frontmatter = this.frontmatterParser.parse(result);
+            const source = frontmatter?.entries.filter(entry => entry.key === from)[handled];
+            if (!frontmatter || !source) {
+                break;
+            }
+
+            const target = frontmatter.entries.find(entry => entry.key === to);
+            if (!target) {
+                result = this.frontmatterParser.applyEdits(result, frontmatter, [this.renameKey(source, to)]);
+                continue;
+            }
+
+            const conflict = this.resolveConflict(frontmatter, source, target, pattern, policy);
+            conflicts.push(conflict.conflict);
+            if (conflict.edits.length === 0) {
+                handled++; // The source stays, so the next one is further down the list
+            }
+            result = this.frontmatterParser.applyEdits(result, frontmatter, conflict.edits);
         }
-        
-        return properties;
+        return result;
     }
 
     /**
-     * Determines if a property value looks like it contains tags
+     * Deletes the property or writes its value. The value is written as YAML source, so "false" stays a checkbox.
+     * set and add create the frontmatter block in notes that have none.
      */
-    private looksLikeTagProperty(line: string, fullFrontmatter: string, startPos: number): boolean {
-        const trimmedLine = line.trim();
-        
-        // Array format: [item1, item2]
-        if (trimmedLine.match(/^\s*\[.*\]\s*$/)) {
-            return true;
+    private editProperty(content: string, pattern: PropertyRenamePattern): string {
+        const key = pattern.from;
+        const value = (pattern.value || '').trim();
+        const frontmatter = this.frontmatterParser.parse(content);
+
+        if (!frontmatter) {
+            if (pattern.action === 'delete') {
+                return content;
+            }
+            const eol = content.includes('\r\n') ? '\r\n' : '\n';
+            return `---${eol}${this.formatEntry('', key, value)}${eol}---${eol}${content}`;
+        }
+
+        const entries = frontmatter.entries.filter(entry => entry.key === key);
+        const eol = frontmatter.eol;
+        let edits: TextEdit[];
+        switch (pattern.action) {
+            case 'delete':
+                edits = entries.map(entry => ({ start: entry.start, end: entry.end, text: '' }));
+                break;
+            case 'add':
+                edits = entries.length > 0 ? [] : [this.appendEntry(frontmatter, key, value)];
+                break;
+            default:
+                edits = entries.length === 0
+                    ? [this.appendEntry(frontmatter, key, value)]
+                    : entries
+                        .filter(entry => !(['empty', 'scalar', 'flow'].includes(entry.kind) && frontmatter.text.slice(entry.valueStart, entry.valueEnd).trim() === value))
+                        .map(entry => ({
+                            start: entry.start,
+                            end: entry.end,
+                            text: `${entry.indent}${this.frontmatterParser.getRawKey(frontmatter, entry)}:${value ? ` ${value}` : ''}${eol}`
+                        }));
         }
-        
-        // List format: check if next lines are list items
-        if (trimmedLine === '' || trimmedLine === '\n') {
-            const remainingText = fullFrontmatter.slice(startPos);
-            const nextLines = remainingText.split('\n').slice(1, 4); // Check next few lines
-            
-            // Check if we have list items
-            for (const nextLine of nextLines) {
-                if (nextLine.trim().startsWith('- ')) {
-                    return true;
+        return this.frontmatterParser.applyEdits(content, frontmatter, edits);
+    }
+
+    private appendEntry(frontmatter: ParsedFrontmatter, key: string, value: string): TextEdit {
+        const end = frontmatter.text.length;
+        const indent = frontmatter.entries.length > 0 ? frontmatter.entries[0].indent : '';
+        return { start: end, end, text: `${this.formatEntry(indent, key, value)}${frontmatter.eol}` };
+    }
+
+    private formatEntry(indent: string, key: string, value: string): string {
+        return `${indent}${this.frontmatterParser.formatValue(key, '', false)}:${value ? ` ${value}` : ''}`;
+    }
+
+    private resolveConflict(frontmatter: ParsedFrontmatter, source: FrontmatterEntry, target: FrontmatterEntry, pattern: PropertyRenamePattern, policy: PropertyConflictPolicy): { conflict: KeyConflict; edits: TextEdit[] } {
+        const { from, to } = pattern;
+        const removeSource: TextEdit = { start: source.start, end: source.end, text: '' };
+
+        switch (policy) {
+            case 'merge': {
+                const edits = this.buildMergeEdits(frontmatter, source, target);
+                if (!edits) {
+                    // Nested or multi-line values cannot be merged item by item
+                    return { conflict: { from, to, resolution: 'skip' }, edits: [] };
                 }
-                if (nextLine.trim() && !nextLine.trim().startsWith('- ')) {
-                    break; // Hit a non-list item
+                // The removal goes first: when both edits start at the same offset, it must not cut the inserted items
+                return { conflict: { from, to, resolution: 'merge' }, edits: [removeSource, ...edits] };
+            }
+            case 'overwrite':
+                return {
+                    conflict: { from, to, resolution: 'overwrite' },
+                    edits: [{ start: target.start, end: target.end, text: '' }, this.renameKey(source, to)]
+                };
+            case 'suffix': {
+                const keys = new Set(frontmatter.entries.map(entry => entry.key));
+                let counter = 2;
+                while (keys.has(`${to}_${counter}`)) {
+                    counter++;
                 }
+                const writtenKey = `${to}_${counter}`;
+                return { conflict: { from, to, resolution: 'suffix', writtenKey }, edits: [this.renameKey(source, writtenKey)] };
             }
+            default:
+                return { conflict: { from, to, resolution: 'skip' }, edits: [] };
         }
-        
-        // Single value that looks like a tag (no spaces, reasonable length)
-        if (trimmedLine && !trimmedLine.includes(' ') && trimmedLine.length < 50) {
+    }
+
+    /**
+     * Adds the source values that the target does not have yet, or returns null if either side is not a plain value or list
+     */
+    private buildMergeEdits(frontmatter: ParsedFrontmatter, source: FrontmatterEntry, target: FrontmatterEntry): TextEdit[] | null {
+        if (!this.isMergeable(source)) {
+            return null;
+        }
+        return this.buildAppendEdits(frontmatter, target, this.readItems(source));
+    }
+
+    /**
+     * Appends the values the entry does not have yet: block lists get new lines, everything else becomes a flow list
+     */
+    private buildAppendEdits(frontmatter: ParsedFrontmatter, target: FrontmatterEntry, additions: { value: string; quote: QuoteStyle }[]): TextEdit[] | null {
+        if (!this.isMergeable(target)) {
+            return null;
+        }
+
+        const existing = this.readItems(target);
+        const seen = new Set(existing.map(item => item.value));
+        const incoming = additions.filter(item => {
+            if (seen.has(item.value)) {
+                return false;
+            }
+            seen.add(item.value);
             return true;
+        });
+        if (incoming.length === 0) {
+            return [];
         }
-        
-        return false;
+
+        if (target.kind === 'block' && existing.length > 0) {
+            const insertAt = target.items[target.items.length - 1].lineEnd;
+            const lines = incoming.map(item => `${target.itemIndent}- ${this.frontmatterParser.formatValue(item.value, item.quote, false)}${frontmatter.eol}`);
+            return [{ start: insertAt, end: insertAt, text: lines.join('') }];
+        }
+
+        const values = [...existing, ...incoming].map(item => this.frontmatterParser.formatValue(item.value, item.quote, true));
+        const end = target.kind === 'block' ? target.end : target.valueEnd;
+        const eol = target.kind === 'block' ? frontmatter.eol : '';
+        return [{ start: target.valueStart, end, text: ` [${values.join(', ')}]${eol}` }];
+    }
+
+    private isMergeable(entry: FrontmatterEntry): boolean {
+        return ['empty', 'scalar', 'flow', 'block'].includes(entry.kind);
+    }
+
+    private readItems(entry: FrontmatterEntry): FrontmatterItem[] {
+        return entry.items.filter(item => item.value.trim().length > 0);
+    }
+
+    private renameKey(entry: FrontmatterEntry, key: string): TextEdit {
+        return { start: entry.keyStart, end: entry.keyEnd, text: this.frontmatterParser.formatValue(key, entry.keyQuote, false) };
+    }
+
+    private classifyObservation(observation: PropertyObservation, maxValueLength: number): ValueShape {
+        const values = observation.values.map(value => this.extractLinkText(value));
+        if (values.length === 0) {
+            return 'other';
+        }
+        if (values.filter(value => ID_LIKE.test(value)).length * 2 > values.length) {
+            return 'id';
+        }
+
+        const short = values.every(value => value.length <= maxValueLength && !ID_LIKE.test(value));
+        const slugs = short && values.every(value => /^#?[^\s,:[\](){}"'`]+$/.test(value));
+        if (observation.list) {
+            return slugs ? 'slug-list' : short ? 'short-list' : 'text';
+        }
+        return slugs ? 'slug' : 'text';
+    }
+
+    private isTagLikeShape(shape: ValueShape): boolean {
+        return shape === 'slug-list' || shape === 'short-list' || shape === 'slug';
     }
 
     /**
-     * Escapes special regex characters in property names
+     * [[target|alias]] and [text](link) count as their text, like exported database relations
      */
-    private escapeRegexSpecialChars(str: string): string {
-        return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    private extractLinkText(value: string): string {
+        const wikilink = value.match(/^\[\[([^\]|]+)(?:\|([^\]]*))?\]\]$/);
+        if (wikilink) {
+            return (wikilink[2] || wikilink[1]).trim();
+        }
+        const markdownLink = value.match(/^\[([^\]]+)\]\([^)]*\)$/);
+        return markdownLink ? markdownLink[1].trim() : value;
     }
-}
\ No newline at end of file
+}
@@ -0,0 +1,187 @@
+/**
+ * Tag Similarity Service
+ * Clusters discovered tags that are probably spelling variants of each other:
+ * different case, separators (-, _, camelCase), plural/singular forms or small typos
+ */
+
+import { SimilarityReason, TagCluster } from '../types/interfaces';
+
+// Keys shorter than this are too short for typo matching ("todo" vs "toto")
+const MIN_SPELLING_LENGTH = 5;
+
+export class TagSimilarityService {
+	/**
+	 * Groups similar tags into clusters of two or more. Usage counts, if given, decide the suggested canonical tag.
+	 */
+	findClusters(tags: string[], counts?: Map<string, number>): TagCluster[] {
+		const uniqueTags = [...new Set(tags)];
+		const parent = new Map<string, string>();
+		const reasons = new Map<string, Set<SimilarityReason>>();
+
+		const find = (tag: string): string => {
+			let root = tag;
+			let next = parent.get(root);
+			while (next !== undefined && next !== root) {
+				root = next;
+				next = parent.get(root);
+			}
+			parent.set(tag, root);
+			return root;
+		};
+
+		const union = (a: string, b: string, reason: SimilarityReason) => {
+			const rootA = find(a);
+			const rootB = find(b);
+			const merged = new Set([...(reasons.get(rootA) || []), ...(reasons.get(rootB) || []), reason]);
+			if (rootA !== rootB) {
+				parent.set(rootB, rootA);
+				reasons.delete(rootB);
+			}
+			reasons.set(rootA, merged);
+		};
+
+		uniqueTags.forEach(tag => parent.set(tag, tag));
+
+		// Tags with the same normalized key differ only in case, separators or plural form
+		const byKey = new Map<string, string[]>();
+		uniqueTags.forEach(tag => {
+			const key = this.normalize(tag);
+			byKey.set(key, [...(byKey.get(key) || []), tag]);
+		});
+		byKey.forEach(group => {
+			for (let i = 0; i < group.length; i++) {
+				for (let j = i + 1; j < group.length; j++) {
+					union(group[i], group[j], this.getReason(group[i], group[j]));
+				}
+			}
+		});
+
+		// Keys within a small edit distance are likely typos
+		const keyGroups = Array.from(byKey.entries());
+		for (let i = 0; i < keyGroups.length; i++) {
+			for (let j = i + 1; j < keyGroups.length; j++) {
+				const [a, groupA] = keyGroups[i];
+				const [b, groupB] = keyGroups[j];
+				const maxDistance = Math.min(a.length, b.length) >= 10 ? 2 : 1;
+				if (Math.min(a.length, b.length) < MIN_SPELLING_LENGTH || Math.abs(a.length - b.length) > maxDistance) {
+					continue;
+				}
+				if (this.editDistance(a, b, maxDistance) <= maxDistance) {
+					union(groupA[0], groupB[0], 'spelling');
+				}
+			}
+		}
+
+		const groups = new Map<string, string[]>();
+		uniqueTags.forEach(tag => {
+			const root = find(tag);
+			groups.set(root, [...(groups.get(root) || []), tag]);
+		});
+
+		const clusters: TagCluster[] = [];
+		groups.forEach((group, root) => {
+			if (group.length < 2) {
+				return;
+			}
+			const sorted = group.sort((a, b) => a.localeCompare(b));
+			clusters.push({
+				tags: sorted,
+				canonical: this.pickCanonical(sorted, counts),
+				reasons: Array.from(reasons.get(root) || [])
+			});
+		});
+
+		return clusters.sort((a, b) => a.canonical.toLowerCase().localeCompare(b.canonical.toLowerCase()));
+	}
+
+	/**
+	 * Reduces a tag to a comparison key: camelCase split, lowercased, separators removed, each level singularized
+	 */
+	normalize(tag: string): string {
+		return tag
+			.split('/')
+			.map(level => this.singularize(this.foldSeparators(level)))
+			.join('/');
+	}
+
+	/**
+	 * Computes the Levenshtein distance, giving up early once it exceeds maxDistance
+	 */
+	editDistance(a: string, b: string, maxDistance = Infinity): number {
+		let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+		for (let i = 1; i <= a.length; i++) {
+			const current = [i];
+			let rowMin = i;
+			for (let j = 1; j <= b.length; j++) {
+				const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+				current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+				rowMin = Math.min(rowMin, current[j]);
+			}
+			if (rowMin > maxDistance) {
+				return rowMin;
+			}
+			previous = current;
+		}
+
+		return previous[b.length];
+	}
+
+	private foldSeparators(level: string): string {
+		return level
+			.replace(/([\p{Ll}\p{N}])(\p{Lu})/gu, '$1-$2')
+			.toLowerCase()
+			.replace(/[-_\s]+/g, '');
+	}
+
+	private singularize(word: string): string {
+		if (word.length <= 3) {
+			return word;
+		}
+		if (/ies$/.test(word)) {
+			return word.slice(0, -3) + 'y';
+		}
+		if (/(?:s|x|z|ch|sh)es$/.test(word)) {
+			return word.slice(0, -2);
+		}
+		if (/[^su]s$/.test(word)) {
+			return word.slice(0, -1);
+		}
+		return word;
+	}
+
+	private getReason(a: string, b: string): SimilarityReason {
+		if (a.toLowerCase() === b.toLowerCase()) {
+			return 'case';
+		}
+		const foldedA = a.split('/').map(level => this.foldSeparators(level)).join('/');
+		const foldedB = b.split('/').map(level => this.foldSeparators(level)).join('/');
+		return foldedA === foldedB ? 'separators' : 'plural';
+	}
+
+	/**
+	 * Prefers the most used tag, then the spelling most variants agree on (so typos lose),
+	 * then an all-lowercase, already singular spelling, then the shortest
+	 */
+	private pickCanonical(tags: string[], counts?: Map<string, number>): string {
+		const keys = new Map(tags.map(tag => [tag, this.normalize(tag)]));
+		const support = (tag: string) => tags.filter(other => keys.get(other) === keys.get(tag)).length;
+		const isPlain = (tag: string) => Number(tag === keys.get(tag));
+
+		return [...tags].sort((a, b) => {
+			const countDiff = (counts?.get(b) || 0) - (counts?.get(a) || 0);
+			if (countDiff !== 0) {
+				return countDiff;
+			}
+			const supportDiff = support(b) - support(a);
+			if (supportDiff !== 0) {
+				return supportDiff;
+			}
+			const lowerDiff = Number(b === b.toLowerCase()) - Number(a === a.toLowerCase());
+			if (lowerDiff !== 0) {
+				return lowerDiff;
+			}
+			return isPlain(b) - isPlain(a) || a.length - b.length || a.localeCompare(b);
+		})[0];
+	}
+}
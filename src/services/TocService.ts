@@ -4,8 +4,8 @@
  */
 
 import { TFile, App } from 'obsidian';
-import { REGEX_PATTERNS } from '../constants/patterns';
 import { TocOptions } from '../types/interfaces';
+import { FrontmatterParser } from './FrontmatterParser';
 
 export interface TocEntry {
 	level: number;
@@ -14,9 +14,11 @@ export interface TocEntry {
 
 export class TocService {
 	private app: App;
+	private frontmatterParser: FrontmatterParser;
 
 	constructor(app: App) {
 		this.app = app;
+		this.frontmatterParser = new FrontmatterParser();
 	}
 
 	/**
@@ -74,7 +76,7 @@ export class TocService {
 	 */
 	insertToc(content: string, options: TocOptions): string {
 		// Remove existing TOC if present
-		const cleanContent = this.removeToc(content);
+		const cleanContent = this.removeToc(content, options.tocTitle);
 		
 		// Generate new TOC
 		const toc = this.generateToc(cleanContent, options);
@@ -98,14 +100,14 @@ export class TocService {
 	 * After frontmatter (if exists) or at the beginning
 	 */
 	private findTocInsertionPoint(content: string): number {
-		const frontmatterMatch = content.match(REGEX_PATTERNS.FRONTMATTER);
+		const frontmatter = this.frontmatterParser.parse(content);
 		
-		if (frontmatterMatch) {
+		if (frontmatter) {
 			// Insert after frontmatter
-			const frontmatterEnd = frontmatterMatch.index! + frontmatterMatch[0].length;
+			const frontmatterEnd = frontmatter.fenceEnd;
 			// Add some spacing after frontmatter
 			const afterFrontmatter = content.substring(frontmatterEnd);
-			const nextContentMatch = afterFrontmatter.match(/\n*(.)/);
+			const nextContentMatch = afterFrontmatter.match(/[\r\n]*([^\r\n])/);
 			if (nextContentMatch) {
 				return frontmatterEnd + (nextContentMatch.index || 0);
 			}
@@ -119,12 +121,24 @@ export class TocService {
 	/**
 	 * Remove existing TOC from content
 	 */
-	private removeToc(content: string): string {
-		// Match TOC section (starts with "## Table of Contents" or similar, followed by list items)
-		const tocRegex = /^##\s+(Table of Contents|TOC|Contents)\s*\n\n((?:\s*-\s+.*\n)*)\n*/gmi;
+	private removeToc(content: string, tocTitle?: string): string {
+		// Match TOC section (starts with the configured title, "## Table of Contents" or similar, followed by list items)
+		const tocRegex = new RegExp(`^##\\s+(${this.getTitlePattern(tocTitle)})\\s*\\n\\n((?:\\s*-\\s+.*\\n)*)\\n*`, 'gmi');
 		return content.replace(tocRegex, '');
 	}
 
+	/**
+	 * The TOC headings to recognise: the configured title plus the default ones
+	 */
+	private getTitlePattern(tocTitle?: string): string {
+		const titles = ['Table of Contents', 'TOC', 'Contents'];
+		const title = tocTitle?.trim();
+		if (title && !titles.some(known => known.toLowerCase() === title.toLowerCase())) {
+			titles.unshift(title);
+		}
+		return titles.map(known => known.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|');
+	}
+
 	/**
 	 * Insert TOC in a specific file
 	 */
@@ -144,6 +158,13 @@ export class TocService {
 		}
 	}
 
+	/**
+	 * Check if content already contains a TOC section, under the configured title or one of the defaults
+	 */
+	hasToc(content: string, tocTitle?: string): boolean {
+		return new RegExp(`^##\\s+(${this.getTitlePattern(tocTitle)})\\s*\\n\\n`, 'mi').test(content);
+	}
+
 	/**
 	 * Check if content has any headings
 	 */
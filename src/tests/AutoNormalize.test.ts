@@ -0,0 +1,66 @@
+/**
+ * Auto Normalize Tests
+ * Covers the content transformation, exclusion list and self-write guard of the auto-normalizer
+ */
+
+import { AutoNormalizeService } from '../services/AutoNormalizeService';
+import { TagRenamerSettings } from '../types/interfaces';
+import { TestFramework } from './TestFramework';
+
+const framework = new TestFramework();
+export { framework };
+
+const describe = framework.describe.bind(framework);
+const test = framework.test.bind(framework);
+const expect = framework.expect.bind(framework);
+
+describe('Auto Normalize Tests', () => {
+	const settings: TagRenamerSettings = {
+		renamePatterns: [{ search: 'old', replace: 'new', matchMode: 'exact' }],
+		tagScope: 'frontmatter',
+		autoNormalize: { enabled: true, delaySeconds: 5, removeDuplicates: true, excludeGlobs: ['Templates'] }
+	};
+	const service = new AutoNormalizeService({} as any, () => settings);
+
+	test('applies rename patterns and removes the duplicates they create', () => {
+		const content = '---\ntags: [old, new]\n---\nBody #old';
+
+		expect(service.normalizeContent(content, settings)).toBe('---\ntags: [new]\n---\nBody #old');
+	});
+
+	test('honours the tag scope', () => {
+		const bodyOnly: TagRenamerSettings = { ...settings, tagScope: 'body' };
+		const content = '---\ntags: [old]\n---\nBody #old';
+
+		expect(service.normalizeContent(content, bodyOnly)).toBe('---\ntags: [old]\n---\nBody #new');
+	});
+
+	test('leaves already normalized notes untouched', () => {
+		const content = '---\ntags:\n  - new\n---\nBody';
+
+		expect(service.normalizeContent(content, settings)).toBe(content);
+	});
+
+	test('skips excluded paths', () => {
+		expect(service.isExcluded('Templates/daily.md')).toBe(true);
+		expect(service.isExcluded('Notes/daily.md')).toBe(false);
+	});
+
+	test('recognises its own writes until the content changes', () => {
+		expect(service.isOwnWrite('a.md', 'x')).toBe(false);
+		service.ignoreWrite('a.md', 'x');
+
+		expect(service.isOwnWrite('a.md', 'x')).toBe(true);
+		expect(service.isOwnWrite('a.md', 'y')).toBe(false);
+		expect(service.isOwnWrite('a.md', 'x')).toBe(false);
+	});
+
+	test('a note restored by undo is not normalized again', () => {
+		const restored = '---\ntags: [old]\n---\n';
+		service.ignoreWrite('restored.md', restored);
+
+		// The current patterns would rename the tag again, but the restore is recognised as the plugin's own write
+		expect(service.normalizeContent(restored, settings)).toBe('---\ntags: [new]\n---\n');
+		expect(service.isOwnWrite('restored.md', restored)).toBe(true);
+	});
+});
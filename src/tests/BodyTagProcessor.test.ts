@@ -0,0 +1,93 @@
+/**
+ * Body Tag Processor Tests
+ * Covers inline #tag discovery and renaming in the note body
+ */
+
+import { BodyTagProcessor } from '../services/BodyTagProcessor';
+import { RenamePattern } from '../types/interfaces';
+import { TestFramework } from './TestFramework';
+
+const framework = new TestFramework();
+export { framework };
+
+const describe = framework.describe.bind(framework);
+const test = framework.test.bind(framework);
+const expect = framework.expect.bind(framework);
+
+describe('Body Tag Processor Tests', () => {
+	const processor = new BodyTagProcessor();
+
+	test('extracts inline tags but ignores frontmatter and headings', () => {
+		const content = `---
+tags: [fm]
+---
+# Heading
+Some text #alpha and #beta/nested.
+#gamma at line start, not #123`;
+
+		expect(processor.extractInlineTags(content)).toEqual(['alpha', 'beta/nested', 'gamma']);
+	});
+
+	test('renames inline tags and leaves the frontmatter alone', () => {
+		const content = `---
+tags: [work]
+---
+Meeting notes #work #other`;
+		const patterns: RenamePattern[] = [{ search: 'work', replace: 'job' }];
+		const result = processor.processBodyContent(content, patterns);
+
+		expect(result).toBe(`---
+tags: [work]
+---
+Meeting notes #job #other`);
+	});
+
+	test('skips fenced code blocks, inline code, URLs and links', () => {
+		const content = `Real #work tag
+\`\`\`
+code #work
+\`\`\`
+~~~js
+#work
+~~~
+Inline \`#work\` and https://example.com/page#work
+[[Note#work]] [link](other.md#work) done #work`;
+		const patterns: RenamePattern[] = [{ search: 'work', replace: 'job' }];
+		const result = processor.processBodyContent(content, patterns);
+
+		expect(result).toBe(`Real #job tag
+\`\`\`
+code #work
+\`\`\`
+~~~js
+#work
+~~~
+Inline \`#work\` and https://example.com/page#work
+[[Note#work]] [link](other.md#work) done #job`);
+	});
+
+	test('does not match tags that only share a prefix', () => {
+		const content = 'Text #work-log and #workshop';
+		const patterns: RenamePattern[] = [{ search: 'work', replace: 'job' }];
+
+		expect(processor.processBodyContent(content, patterns)).toBe(content);
+	});
+
+	test('removes inline tags and tidies whitespace', () => {
+		const content = 'Buy milk #todo today\n#todo first\nlast #todo';
+		const patterns: RenamePattern[] = [{ search: 'todo', replace: '', removeMode: true }];
+
+		expect(processor.processBodyContent(content, patterns)).toBe('Buy milk today\nfirst\nlast');
+	});
+
+	test('supports glob, regex and prefix modes', () => {
+		const content = 'A #proj-apollo B #area/work/x C #temp/a';
+		const patterns: RenamePattern[] = [
+			{ search: 'proj-(.+)', replace: 'project/$1', matchMode: 'regex' },
+			{ search: 'area/work', replace: 'work', matchMode: 'prefix' },
+			{ search: 'temp/*', replace: 'scratch', matchMode: 'glob' }
+		];
+
+		expect(processor.processBodyContent(content, patterns)).toBe('A #project/apollo B #work/x C #scratch');
+	});
+});
@@ -0,0 +1,47 @@
+/**
+ * Diff Service Tests
+ */
+
+import { DiffService } from '../services/DiffService';
+import { TestFramework } from './TestFramework';
+
+const framework = new TestFramework();
+export { framework };
+
+const describe = framework.describe.bind(framework);
+const test = framework.test.bind(framework);
+const expect = framework.expect.bind(framework);
+
+describe('Diff Service Tests', () => {
+	const diffService = new DiffService();
+
+	test('should mark identical text as unchanged', () => {
+		const diff = diffService.diffLines('tags: [a]\ntitle: Test', 'tags: [a]\ntitle: Test');
+
+		expect(diff).toHaveLength(2);
+		expect(diff.every(line => line.type === 'unchanged')).toBe(true);
+	});
+
+	test('should report a changed line as removed then added', () => {
+		const diff = diffService.diffLines('tags: [work]\ntitle: Test', 'tags: ["professional"]\ntitle: Test');
+
+		expect(diff).toEqual([
+			{ type: 'removed', text: 'tags: [work]' },
+			{ type: 'added', text: 'tags: ["professional"]' },
+			{ type: 'unchanged', text: 'title: Test' }
+		]);
+	});
+
+	test('should report removed list items', () => {
+		const diff = diffService.diffLines('tags:\n  - a\n  - b\n  - c', 'tags:\n  - a\n  - c');
+
+		expect(diff.filter(line => line.type === 'removed')).toEqual([{ type: 'removed', text: '  - b' }]);
+		expect(diff.filter(line => line.type === 'added')).toHaveLength(0);
+	});
+
+	test('should handle empty input on either side', () => {
+		expect(diffService.diffLines('', 'tag: a')).toEqual([{ type: 'added', text: 'tag: a' }]);
+		expect(diffService.diffLines('tag: a', '')).toEqual([{ type: 'removed', text: 'tag: a' }]);
+		expect(diffService.diffLines('', '')).toHaveLength(0);
+	});
+});
@@ -0,0 +1,232 @@
+/**
+ * Frontmatter Parser Tests
+ * Covers YAML frontmatter parsing and format-preserving rewrites of tag entries
+ */
+
+import { FrontmatterParser } from '../services/FrontmatterParser';
+import { TagProcessor } from '../services/TagProcessor';
+import { TagPropertyProcessor } from '../services/TagPropertyProcessor';
+import { RenamePattern } from '../types/interfaces';
+import { TestFramework } from './TestFramework';
+
+const framework = new TestFramework();
+export { framework };
+
+const describe = framework.describe.bind(framework);
+const test = framework.test.bind(framework);
+const expect = framework.expect.bind(framework);
+
+describe('Frontmatter Parser Tests', () => {
+	const parser = new FrontmatterParser();
+
+	test('parses scalar, flow, block and nested entries', () => {
+		const content = `---
+title: "Hello: world"
+tags: [a, 'b c']
+aliases:
+  - one
+  - "two"
+meta:
+  nested: true
+---
+Body`;
+		const frontmatter = parser.parse(content)!;
+
+		expect(frontmatter.entries.map(entry => entry.key)).toEqual(['title', 'tags', 'aliases', 'meta']);
+		expect(frontmatter.entries.map(entry => entry.kind)).toEqual(['scalar', 'flow', 'block', 'mapping']);
+		expect(frontmatter.entries[0].items[0].value).toBe('Hello: world');
+		expect(frontmatter.entries[1].items.map(item => item.quote)).toEqual(['', "'"]);
+		expect(frontmatter.entries[2].items.map(item => item.value)).toEqual(['one', 'two']);
+		expect(content.slice(frontmatter.fenceEnd)).toBe('\nBody');
+	});
+
+	test('returns null without a closed frontmatter block', () => {
+		expect(parser.parse('# Title\n---\n')).toBe(null);
+		expect(parser.parse('---\ntags: [a]\n# no closing fence')).toBe(null);
+	});
+
+	test('handles comments, quoted commas and multi-line flow sequences', () => {
+		const content = `---
+# leading comment
+tags: [
+  "one, two", # inline comment
+  three
+]
+status: draft # trailing comment
+---
+`;
+		const frontmatter = parser.parse(content)!;
+
+		expect(frontmatter.entries.map(entry => entry.key)).toEqual(['tags', 'status']);
+		expect(frontmatter.entries[0].items.map(item => item.value)).toEqual(['one, two', 'three']);
+		expect(frontmatter.entries[1].items[0].value).toBe('draft');
+	});
+
+	test('handles indented keys, block scalars and CRLF line endings', () => {
+		const content = '---\r\n  tags: >-\r\n    alpha, beta\r\n  title: Note\r\n---\r\nBody';
+		const frontmatter = parser.parse(content)!;
+
+		expect(frontmatter.eol).toBe('\r\n');
+		expect(frontmatter.entries.map(entry => entry.key)).toEqual(['tags', 'title']);
+		expect(frontmatter.entries[0].kind).toBe('block-scalar');
+		expect(frontmatter.entries[0].items[0].value).toBe('alpha, beta');
+		expect(frontmatter.entries[1].items[0].value).toBe('Note');
+	});
+
+	test('keeps quoting styles when formatting values', () => {
+		expect(parser.formatScalar("it's", "'")).toBe("'it''s'");
+		expect(parser.formatScalar('say "hi"', '"')).toBe('"say \\"hi\\""');
+		expect(parser.formatValue('plain', '', false)).toBe('plain');
+		expect(parser.formatValue('true', '', false)).toBe('"true"');
+		expect(parser.formatValue('a, b', '', true)).toBe('"a, b"');
+	});
+});
+
+describe('Frontmatter Round-Trip Tests', () => {
+	const processor = new TagProcessor();
+	const patterns: RenamePattern[] = [{ search: 'work', replace: 'job' }];
+
+	test('leaves untouched lines byte-for-byte', () => {
+		const content = `---
+title:   'Spaced'   # keep me
+tags:
+  - work   # a comment
+  - 'other'
+date: 2024-01-01
+---
+# Content`;
+		const result = processor.processFileContent(content, patterns);
+
+		expect(result).toBe(`---
+title:   'Spaced'   # keep me
+tags:
+  - job   # a comment
+  - 'other'
+date: 2024-01-01
+---
+# Content`);
+	});
+
+	test('rewrites multi-line flow sequences with quoted commas', () => {
+		const content = `---
+tags: [
+  "a, b",
+  work
+]
+other: x
+---
+`;
+		const result = processor.processFileContent(content, patterns);
+
+		expect(processor.extractTagsFromContent(content)).toEqual(['a, b', 'work']);
+		expect(result).toBe(`---
+tags: [
+  "a, b",
+  job
+]
+other: x
+---
+`);
+	});
+
+	test('renames tags inside block scalars and keeps CRLF endings', () => {
+		const content = '---\r\ntags: >-\r\n  work, home\r\ntitle: x\r\n---\r\nBody';
+		const result = processor.processFileContent(content, patterns);
+
+		expect(processor.extractTagsFromContent(content)).toEqual(['work', 'home']);
+		expect(result).toBe('---\r\ntags: >-\r\n  job, home\r\ntitle: x\r\n---\r\nBody');
+	});
+
+	test('reads tags the same way from content and from the metadata cache', () => {
+		const content = '---\ntags: ["#foo", bar, "[Baz](baz.md)"]\n---\n';
+
+		expect(processor.extractTagsFromContent(content)).toEqual(['foo', 'bar', 'Baz']);
+		expect(processor.extractTagsFromFrontmatter({ tags: ['#foo', 'bar', '[Baz](baz.md)'] })).toEqual(['foo', 'bar', 'Baz']);
+		expect(processor.extractTagsFromFrontmatter({ tag: '#foo, bar' })).toEqual(['foo', 'bar']);
+	});
+
+	test('ignores tags keys nested under other properties', () => {
+		const content = `---
+meta:
+  tags: [work]
+---
+`;
+		expect(processor.extractTagsFromContent(content)).toEqual([]);
+		expect(processor.processFileContent(content, patterns)).toBe(content);
+	});
+
+	test('removes a list entry entirely when its last tag is removed', () => {
+		const content = `---
+title: x
+tags:
+  - work
+after: y
+---
+`;
+		const result = processor.processFileContent(content, [{ search: 'work', replace: '', removeMode: true }]);
+
+		expect(result).toBe(`---
+title: x
+after: y
+---
+`);
+	});
+
+	test('renames quoted and indented property keys in place', () => {
+		const propertyProcessor = new TagPropertyProcessor();
+		const content = '---\r\n  "🏷️ Labels": [a, b] # comment\r\n  title: x\r\n---\r\n';
+		const result = propertyProcessor.renameTagProperties(content, [{ from: '🏷️ Labels', to: 'tags' }]);
+
+		expect(result).toBe('---\r\n  "tags": [a, b] # comment\r\n  title: x\r\n---\r\n');
+	});
+});
+
+describe('Tag Quoting Tests', () => {
+	const processor = new TagProcessor();
+	const patterns: RenamePattern[] = [{ search: 'work', replace: 'job' }];
+
+	test('renamed tags keep the quotes of the value they replace', () => {
+		const content = `---\ntags: ['work', "personal", other]\n---\n`;
+
+		expect(processor.processFileContent(content, patterns)).toBe(`---\ntags: ['job', "personal", other]\n---\n`);
+	});
+
+	test('plain values are quoted only when YAML needs it', () => {
+		const content = `---\ntags: [work, other]\n---\n`;
+
+		expect(processor.processFileContent(content, [{ search: 'work', replace: 'true' }])).toBe(`---\ntags: ["true", other]\n---\n`);
+	});
+
+	test('removing tags from a flow list keeps its spacing', () => {
+		const content = `---\ntags: [ a,b, c, d ]\n---\n`;
+		const remove = (search: string): RenamePattern => ({ search, replace: '', removeMode: true });
+
+		expect(processor.processFileContent(content, [remove('a')])).toBe(`---\ntags: [ b, c, d ]\n---\n`);
+		expect(processor.processFileContent(content, [remove('b')])).toBe(`---\ntags: [ a,c, d ]\n---\n`);
+		expect(processor.processFileContent(content, [remove('c'), remove('d')])).toBe(`---\ntags: [ a,b ]\n---\n`);
+	});
+
+	test('duplicate removal keeps block list indentation and the remaining items as written', () => {
+		const content = `---\ntags:\n    - 'work'\n    - other\n    - work\n---\n`;
+
+		expect(processor.removeDuplicateTagsFromContent(content)).toBe(`---\ntags:\n    - 'work'\n    - other\n---\n`);
+	});
+
+	test('space-separated string values stay space-separated', () => {
+		const content = `---\ntags: work other\n---\n`;
+
+		expect(processor.processFileContent(content, patterns)).toBe(`---\ntags: job other\n---\n`);
+	});
+
+	test('the output style setting covers rewritten values only', () => {
+		const styled = new TagProcessor();
+		const content = `---\ntags: [work, other]\n---\n`;
+
+		styled.setQuoteStyle('double');
+		expect(styled.processFileContent(content, patterns)).toBe(`---\ntags: ["job", other]\n---\n`);
+		styled.setQuoteStyle('single');
+		expect(styled.processFileContent(content, patterns)).toBe(`---\ntags: ['job', other]\n---\n`);
+		styled.setQuoteStyle('plain');
+		expect(styled.processFileContent(`---\ntags: ["work"]\n---\n`, patterns)).toBe(`---\ntags: [job]\n---\n`);
+	});
+});
@@ -0,0 +1,82 @@
+/**
+ * Maintenance Tests
+ * Covers the schedule check, report path, report rendering and TOC detection of the maintenance scheduler
+ */
+
+import { MaintenanceService } from '../services/MaintenanceService';
+import { TocService } from '../services/TocService';
+import { MaintenanceSettings, MaintenanceStepResult, TagRenamerSettings } from '../types/interfaces';
+import { TestFramework } from './TestFramework';
+
+const framework = new TestFramework();
+export { framework };
+
+const describe = framework.describe.bind(framework);
+const test = framework.test.bind(framework);
+const expect = framework.expect.bind(framework);
+
+describe('Maintenance Tests', () => {
+	const HOUR = 60 * 60 * 1000;
+	const maintenance: MaintenanceSettings = {
+		runOnStartup: false,
+		intervalHours: 6,
+		operations: ['renameTags', 'refreshToc'],
+		reportPath: 'Reports/maintenance'
+	};
+	const settings: TagRenamerSettings = { renamePatterns: [], maintenance };
+	const service = new MaintenanceService({} as any, {} as any, {} as any, () => settings, async () => undefined);
+
+	test('a run is due once the interval has passed', () => {
+		maintenance.lastRun = undefined;
+		expect(service.isDue(10 * HOUR)).toBe(true);
+
+		maintenance.lastRun = 10 * HOUR;
+		expect(service.isDue(15 * HOUR)).toBe(false);
+		expect(service.isDue(16 * HOUR)).toBe(true);
+	});
+
+	test('an interval of 0 never schedules a run', () => {
+		maintenance.intervalHours = 0;
+		maintenance.lastRun = undefined;
+
+		expect(service.isDue(100 * HOUR)).toBe(false);
+		maintenance.intervalHours = 6;
+	});
+
+	test('the report path is vault-relative and ends in .md', () => {
+		expect(service.getReportPath()).toBe('Reports/maintenance.md');
+
+		maintenance.reportPath = '/Reports/run.md';
+		expect(service.getReportPath()).toBe('Reports/run.md');
+
+		maintenance.reportPath = ' ';
+		expect(service.getReportPath()).toBe('Tag Renamer maintenance report.md');
+	});
+
+	test('the report lists each step, its changed files and errors', () => {
+		const results: MaintenanceStepResult[] = [
+			{ operation: 'renameTags', result: { processed: 3, modified: ['Notes/a.md'], errors: ['Notes/b.md: locked'] } },
+			{ operation: 'renameProperties', result: { processed: 0, modified: [], errors: [] }, skipped: 'no property patterns' }
+		];
+
+		const report = service.buildReport(results, 0, 2500);
+
+		expect(report).toContain('took 2.5 s');
+		expect(report).toContain('| Rename tags | 3 | 1 | 1 |');
+		expect(report).toContain('| Apply property patterns | skipped: no property patterns | | |');
+		expect(report).toContain('## Rename tags\n- [[Notes/a]]\n\nErrors:\n- Notes/b.md: locked');
+		expect(report).not.toContain('## Apply property patterns');
+	});
+
+	test('TOC refresh recognises the configured TOC title', () => {
+		const tocService = new TocService({} as any);
+		const options = { maxDepth: 3, includeLinks: true, tocTitle: 'On this page (v2)' };
+		const content = '## On this page (v2)\n\n- [[#Old]]\n\n# Intro\n## Part';
+
+		expect(tocService.hasToc(content, options.tocTitle)).toBe(true);
+		expect(tocService.hasToc(content)).toBe(false);
+
+		const refreshed = tocService.insertToc(content, options);
+		expect(refreshed).toBe('## On this page (v2)\n\n- [[#Intro]]\n  - [[#Part]]\n\n# Intro\n## Part');
+	});
+});
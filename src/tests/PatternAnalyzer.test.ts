@@ -0,0 +1,115 @@
+/**
+ * Pattern Analyzer Tests
+ * Covers chain, cycle, duplicate and shadowing detection, chain collapsing and parallel pattern order
+ */
+
+import { PatternAnalyzer } from '../services/PatternAnalyzer';
+import { TagProcessor } from '../services/TagProcessor';
+import { BodyTagProcessor } from '../services/BodyTagProcessor';
+import { RenamePattern } from '../types/interfaces';
+import { TestFramework } from './TestFramework';
+
+const framework = new TestFramework();
+export { framework };
+
+const describe = framework.describe.bind(framework);
+const test = framework.test.bind(framework);
+const expect = framework.expect.bind(framework);
+
+const rename = (search: string, replace: string, matchMode: RenamePattern['matchMode'] = 'exact'): RenamePattern => ({ search, replace, matchMode });
+const remove = (search: string, matchMode: RenamePattern['matchMode'] = 'exact'): RenamePattern => ({ search, replace: '', removeMode: true, matchMode });
+
+describe('Pattern Analyzer Tests', () => {
+	const analyzer = new PatternAnalyzer();
+
+	test('detects a chain only when the second pattern runs later', () => {
+		const issues = analyzer.analyze([rename('a', 'b'), rename('b', 'c')]);
+
+		expect(issues.length).toBe(1);
+		expect(issues[0].type).toBe('chain');
+		expect(issues[0].patternIndexes).toEqual([0, 1]);
+		expect(analyzer.analyze([rename('b', 'c'), rename('a', 'b')]).length).toBe(0);
+	});
+
+	test('chains are not reported in parallel mode', () => {
+		expect(analyzer.analyze([rename('a', 'b'), rename('b', 'c')], true).length).toBe(0);
+	});
+
+	test('follows chains through glob patterns and into removals', () => {
+		const issues = analyzer.analyze([rename('draft', 'status/draft'), remove('status/*', 'glob')]);
+
+		expect(issues.length).toBe(1);
+		expect(issues[0].message).toContain('then removes');
+	});
+
+	test('detects cycles instead of chains', () => {
+		const issues = analyzer.analyze([rename('a', 'b'), rename('b', 'a')]);
+
+		expect(issues.length).toBe(1);
+		expect(issues[0].type).toBe('cycle');
+		expect(issues[0].patternIndexes).toEqual([0, 1]);
+	});
+
+	test('detects duplicate search keys per match mode', () => {
+		const issues = analyzer.analyze([rename('a', 'b'), rename('a', 'c'), rename('a', 'd', 'prefix')]);
+
+		expect(issues.length).toBe(1);
+		expect(issues[0].type).toBe('duplicate');
+		expect(issues[0].patternIndexes).toEqual([0, 1]);
+	});
+
+	test('detects remove patterns that shadow later renames', () => {
+		const issues = analyzer.analyze([remove('project', 'prefix'), rename('project/alpha', 'alpha')]);
+
+		expect(issues.length).toBe(1);
+		expect(issues[0].type).toBe('shadowed');
+		expect(analyzer.analyze([rename('project/alpha', 'alpha'), remove('project', 'prefix')]).length).toBe(0);
+	});
+
+	test('collapses a chain into a direct rename', () => {
+		const collapsed = analyzer.collapseChain([rename('a', 'b'), rename('b', 'c'), rename('c', 'd')], 0);
+
+		expect(collapsed[0].replace).toBe('d');
+		expect(collapsed[1].replace).toBe('c');
+		expect(analyzer.collapseChain([rename('a', 'b'), remove('b')], 0)[0].removeMode).toBe(true);
+	});
+
+	test('leaves cycles alone when collapsing', () => {
+		const patterns = [rename('a', 'b'), rename('b', 'a')];
+
+		expect(analyzer.collapseChain(patterns, 0)).toEqual(patterns);
+	});
+
+	test('sorting is refused for order-dependent patterns', () => {
+		expect(analyzer.isOrderSensitive([rename('b', 'c'), rename('a', 'b')])).toBe(true);
+		expect(analyzer.isOrderSensitive([rename('b', 'c'), rename('a', 'b')], true)).toBe(false);
+		expect(analyzer.isOrderSensitive([rename('a', 'x'), rename('b', 'y')])).toBe(false);
+	});
+
+	test('patterns that can match the same tag are order-sensitive', () => {
+		expect(analyzer.isOrderSensitive([rename('tag', 'x'), rename('ta*', 'y', 'glob')])).toBe(true);
+		expect(analyzer.isOrderSensitive([rename('tag', 'x'), rename('ta*', 'y', 'glob')], true)).toBe(true);
+		expect(analyzer.isOrderSensitive([rename('tag', 'x'), rename('other*', 'y', 'glob')])).toBe(false);
+		expect(analyzer.isOrderSensitive([rename('a', 'x', 'prefix'), rename('b.*', 'y', 'regex')])).toBe(true);
+		expect(analyzer.isOrderSensitive([remove('tag'), remove('ta*', 'glob')])).toBe(false);
+	});
+});
+
+describe('Pattern Order Tests', () => {
+	const tagProcessor = new TagProcessor();
+	const bodyTagProcessor = new BodyTagProcessor();
+	const swap = [rename('a', 'b'), rename('b', 'a')];
+
+	test('sequential order feeds each result into the next pattern', () => {
+		const content = '---\ntags: [a, b]\n---\n';
+
+		expect(tagProcessor.processFileContent(content, swap)).toBe('---\ntags: [a, a]\n---\n');
+	});
+
+	test('parallel order matches every pattern against the original tag', () => {
+		const content = '---\ntags: [a, b]\n---\nText #a and #b';
+
+		expect(tagProcessor.processFileContent(content, swap, true)).toBe('---\ntags: [b, a]\n---\nText #a and #b');
+		expect(bodyTagProcessor.processBodyContent(content, swap, true)).toBe('---\ntags: [a, b]\n---\nText #b and #a');
+	});
+});
@@ -0,0 +1,101 @@
+/**
+ * Pattern Set Tests
+ * Covers creating, switching, duplicating, deleting and importing named pattern sets
+ */
+
+import { PatternSetService, DEFAULT_PATTERN_SET_NAME } from '../services/PatternSetService';
+import { TagRenamerSettings } from '../types/interfaces';
+import { TestFramework } from './TestFramework';
+
+const framework = new TestFramework();
+export { framework };
+
+const describe = framework.describe.bind(framework);
+const test = framework.test.bind(framework);
+const expect = framework.expect.bind(framework);
+
+describe('Pattern Set Tests', () => {
+	const service = new PatternSetService();
+	const createSettings = (): TagRenamerSettings => ({
+		renamePatterns: [{ search: 'old', replace: 'new', matchMode: 'exact' }],
+		propertyRenamePatterns: [{ from: 'keywords', to: 'tags' }],
+		tagScope: 'both',
+		operationScope: { includeGlobs: ['Projects/**'], excludeGlobs: [] }
+	});
+
+	test('existing patterns become the default set', () => {
+		const settings = createSettings();
+		service.ensureSets(settings);
+
+		const sets = service.getSets(settings);
+		expect(sets.length).toBe(1);
+		expect(sets[0].name).toBe(DEFAULT_PATTERN_SET_NAME);
+		expect(sets[0].renamePatterns[0].search).toBe('old');
+		expect(settings.activePatternSetId).toBe(sets[0].id);
+	});
+
+	test('switching stores the active set and loads the chosen one', () => {
+		const settings = createSettings();
+		const other = service.createSet(settings, 'Archive');
+
+		settings.renamePatterns.push({ search: 'todo', replace: 'task', matchMode: 'exact' });
+		service.switchTo(settings, other.id);
+
+		expect(settings.renamePatterns.length).toBe(0);
+		expect(settings.tagScope).toBe('frontmatter');
+		expect(service.getSets(settings)[0].renamePatterns.length).toBe(2);
+	});
+
+	test('resolving the active set returns the live patterns', () => {
+		const settings = createSettings();
+		service.ensureSets(settings);
+		settings.renamePatterns = [];
+
+		expect(service.resolveSet(settings).renamePatterns.length).toBe(0);
+	});
+
+	test('duplicates are independent copies with a unique name', () => {
+		const settings = createSettings();
+		service.ensureSets(settings);
+		const id = settings.activePatternSetId || '';
+
+		const first = service.duplicateSet(settings, id);
+		const second = service.duplicateSet(settings, id);
+		settings.renamePatterns[0].replace = 'changed';
+
+		expect(first?.name).toBe('Default (copy)');
+		expect(second?.name).toBe('Default (copy) 2');
+		expect(first?.renamePatterns[0].replace).toBe('new');
+		expect(first?.operationScope.includeGlobs).toEqual(['Projects/**']);
+	});
+
+	test('replacing with a per-set export keeps the value rules', () => {
+		const settings = { ...createSettings(), propertyValueRules: [{ property: 'status', search: 'todo', replace: 'doing' }] };
+		const exported = JSON.parse(JSON.stringify({
+			patterns: [{ search: 'a', replace: 'b', matchMode: 'exact' }],
+			propertyPatterns: [],
+			patternSet: { name: 'Work', tagScope: 'both' }
+		}));
+
+		service.replacePatterns(settings, exported.patterns, exported.propertyPatterns, exported.propertyValueRules);
+
+		expect(settings.renamePatterns).toEqual([{ search: 'a', replace: 'b', matchMode: 'exact' }]);
+		expect(settings.propertyRenamePatterns).toEqual([]);
+		expect(settings.propertyValueRules).toEqual([{ property: 'status', search: 'todo', replace: 'doing' }]);
+
+		service.replacePatterns(settings, [], [], []);
+		expect(settings.propertyValueRules).toEqual([]);
+	});
+
+	test('deleting the active set activates the next one, the last set is kept', () => {
+		const settings = createSettings();
+		service.ensureSets(settings);
+		const defaultId = settings.activePatternSetId || '';
+		const other = service.createSet(settings, 'Other');
+
+		expect(service.deleteSet(settings, defaultId)).toBe(true);
+		expect(settings.activePatternSetId).toBe(other.id);
+		expect(settings.renamePatterns.length).toBe(0);
+		expect(service.deleteSet(settings, other.id)).toBe(false);
+	});
+});
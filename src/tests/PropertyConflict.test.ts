@@ -0,0 +1,58 @@
+/**
+ * Property Conflict Tests
+ * Covers renaming a property onto a key the note already has
+ */
+
+import { TagPropertyProcessor } from '../services/TagPropertyProcessor';
+import { PropertyRenamePattern } from '../types/interfaces';
+import { TestFramework } from './TestFramework';
+
+const framework = new TestFramework();
+export { framework };
+
+const describe = framework.describe.bind(framework);
+const test = framework.test.bind(framework);
+const expect = framework.expect.bind(framework);
+
+describe('Property Conflict Tests', () => {
+	const processor = new TagPropertyProcessor();
+	const patterns: PropertyRenamePattern[] = [{ from: '🗄️ Tags Database', to: 'tags' }];
+	const content = '---\ntags: [work, home]\ntitle: x\n🗄️ Tags Database: [home, project]\n---\nBody';
+
+	test('merges the values into the existing key without duplicates', () => {
+		const outcome = processor.applyPropertyPatterns(content, patterns, 'merge');
+
+		expect(outcome.content).toBe('---\ntags: [work, home, project]\ntitle: x\n---\nBody');
+		expect(outcome.conflicts).toEqual([{ from: '🗄️ Tags Database', to: 'tags', resolution: 'merge' }]);
+	});
+
+	test('appends to block lists and turns single values into lists', () => {
+		const block = '---\ntags:\n  - work\n🗄️ Tags Database:\n  - project\n  - work\n---\n';
+		const scalar = '---\ntags: work\n🗄️ Tags Database: "a, b"\n---\n';
+
+		expect(processor.renameTagProperties(block, patterns)).toBe('---\ntags:\n  - work\n  - project\n---\n');
+		expect(processor.renameTagProperties(scalar, patterns)).toBe('---\ntags: [work, "a, b"]\n---\n');
+	});
+
+	test('skip, overwrite and suffix policies', () => {
+		expect(processor.renameTagProperties(content, patterns, 'skip')).toBe(content);
+		expect(processor.renameTagProperties(content, patterns, 'overwrite')).toBe('---\ntitle: x\ntags: [home, project]\n---\nBody');
+		expect(processor.renameTagProperties(content, patterns, 'suffix')).toBe('---\ntags: [work, home]\ntitle: x\ntags_2: [home, project]\n---\nBody');
+	});
+
+	test('a repeated source key conflicts with its own renamed copy', () => {
+		const repeated = '---\nLabels: [a]\nLabels: [b, a]\n---\n';
+		const outcome = processor.applyPropertyPatterns(repeated, [{ from: 'Labels', to: 'tags' }], 'merge');
+
+		expect(outcome.content).toBe('---\ntags: [a, b]\n---\n');
+		expect(outcome.conflicts.length).toBe(1);
+	});
+
+	test('nested values are skipped even when merging', () => {
+		const nested = '---\ntags:\n  nested: true\nLabels: [a]\n---\n';
+		const outcome = processor.applyPropertyPatterns(nested, [{ from: 'Labels', to: 'tags' }], 'merge');
+
+		expect(outcome.content).toBe(nested);
+		expect(processor.describeConflict(outcome.conflicts[0])).toBe('skipped "Labels", "tags" already exists');
+	});
+});
@@ -0,0 +1,64 @@
+/**
+ * Property Discovery Tests
+ * Covers scoring properties as likely tag properties with configurable rules
+ */
+
+import { TagPropertyProcessor } from '../services/TagPropertyProcessor';
+import { PropertyDiscoverySettings } from '../types/interfaces';
+import { DEFAULT_PROPERTY_DISCOVERY } from '../constants/patterns';
+import { TestFramework } from './TestFramework';
+
+const framework = new TestFramework();
+export { framework };
+
+const describe = framework.describe.bind(framework);
+const test = framework.test.bind(framework);
+const expect = framework.expect.bind(framework);
+
+describe('Property Discovery Tests', () => {
+	const processor = new TagPropertyProcessor();
+	const notes = [
+		'---\nTopics: [work, project-x]\nuid: 3f2a9c1e-4b5d-4e6f-8a9b-0c1d2e3f4a5b\ntype: meeting\ntitle: Weekly\n---\n',
+		'---\nTopics:\n  - "[[Home]]"\n  - garden\nuid: 9b8a7c6d-5e4f-4a3b-9c2d-1e0f9a8b7c6d\ntype: A longer description of the note\n---\n',
+		'---\nTopics: [reading]\nsource: https://example.com/article\n---\n'
+	].map(content => processor.observePropertiesInContent(content));
+
+	const settings = (overrides: Partial<PropertyDiscoverySettings>): PropertyDiscoverySettings => ({
+		...DEFAULT_PROPERTY_DISCOVERY,
+		excludedProperties: [...DEFAULT_PROPERTY_DISCOVERY.excludedProperties],
+		...overrides
+	});
+
+	test('scores lists of slugs highest, with note count, sample and reasons', () => {
+		const [topics] = processor.scoreProperties(notes);
+
+		expect(topics).toEqual({
+			name: 'Topics',
+			noteCount: 3,
+			confidence: 100,
+			reasons: ['list of short slugs in 100% of notes', 'name suggests tags'],
+			sample: 'work'
+		});
+	});
+
+	test('leaves out IDs, URLs, excluded names and low-confidence properties', () => {
+		expect(processor.scoreProperties(notes).map(property => property.name)).toEqual(['Topics']);
+		expect(processor.scoreProperties(notes, settings({ minConfidence: 0 })).map(property => property.name)).toEqual(['Topics', 'type', 'uid', 'source']);
+		expect(processor.scoreProperties(notes, settings({ excludedProperties: ['TOPICS', 'title'] })).length).toBe(0);
+	});
+
+	test('single values count only when enabled', () => {
+		const type = (options: Partial<PropertyDiscoverySettings>) => processor.scoreProperties(notes, settings({ minConfidence: 0, ...options }))
+			.filter(property => property.name === 'type')[0];
+
+		expect(type({}).confidence).toBe(30);
+		expect(type({}).reasons).toEqual(['single slug in 50% of notes', 'long or multi-word text in 50% of notes']);
+		expect(type({ countSingleValues: false }).confidence).toBe(0);
+		expect(type({ maxValueLength: 5 }).confidence).toBe(0);
+	});
+
+	test('keeps the name-only helpers working with the default rules', () => {
+		expect(processor.findCustomTagProperties('---\ntags: [a]\nkeywords: [ml, ai]\ntitle: x\n---\n')).toEqual(['keywords']);
+		expect(processor.findCustomTagPropertiesInFrontmatter({ labels: ['a'], position: {}, done: true })).toEqual(['labels']);
+	});
+});
@@ -0,0 +1,68 @@
+/**
+ * Property Edit Tests
+ * Covers property patterns that delete a property, set its value or add it where it is missing
+ */
+
+import { TagPropertyProcessor } from '../services/TagPropertyProcessor';
+import { PropertyRenamePattern } from '../types/interfaces';
+import { TestFramework } from './TestFramework';
+
+const framework = new TestFramework();
+export { framework };
+
+const describe = framework.describe.bind(framework);
+const test = framework.test.bind(framework);
+const expect = framework.expect.bind(framework);
+
+describe('Property Edit Tests', () => {
+	const processor = new TagPropertyProcessor();
+	const content = '---\ntitle: x\ncssclass: wide\naliases:\n  - one\n---\nBody';
+
+	test('deletes a property including its list items', () => {
+		const remove: PropertyRenamePattern = { from: 'aliases', to: '', action: 'delete' };
+
+		expect(processor.renameTagProperties(content, [remove])).toBe('---\ntitle: x\ncssclass: wide\n---\nBody');
+		expect(processor.renameTagProperties('No frontmatter', [remove])).toBe('No frontmatter');
+	});
+
+	test('sets a value, overwriting the existing one or adding the property', () => {
+		const set: PropertyRenamePattern = { from: 'cssclass', to: '', action: 'set', value: 'narrow' };
+		const status: PropertyRenamePattern = { from: 'status', to: '', action: 'set', value: '[draft, review]' };
+
+		expect(processor.renameTagProperties(content, [set])).toBe('---\ntitle: x\ncssclass: narrow\naliases:\n  - one\n---\nBody');
+		expect(processor.renameTagProperties(content, [status])).toBe('---\ntitle: x\ncssclass: wide\naliases:\n  - one\nstatus: [draft, review]\n---\nBody');
+		expect(processor.renameTagProperties(content, [{ ...set, value: 'wide' }])).toBe(content);
+	});
+
+	test('adds a property only where it is missing, creating frontmatter if needed', () => {
+		const add: PropertyRenamePattern = { from: 'reviewed', to: '', action: 'add', value: 'false' };
+		const reviewed = '---\nreviewed: true\n---\n';
+
+		expect(processor.renameTagProperties(reviewed, [add])).toBe(reviewed);
+		expect(processor.renameTagProperties('---\r\ntitle: x\r\n---\r\n', [add])).toBe('---\r\ntitle: x\r\nreviewed: false\r\n---\r\n');
+		expect(processor.renameTagProperties('# Note', [add])).toBe('---\nreviewed: false\n---\n# Note');
+	});
+
+	test('runs in order with renames and validates each action', () => {
+		const patterns: PropertyRenamePattern[] = [
+			{ from: 'cssclass', to: 'cssclasses' },
+			{ from: 'cssclasses', to: '', action: 'delete' }
+		];
+
+		expect(processor.renameTagProperties(content, patterns)).toBe('---\ntitle: x\naliases:\n  - one\n---\nBody');
+		expect(processor.isValidPattern({ from: 'a', to: '' })).toBe(false);
+		expect(processor.isValidPattern({ from: 'a', to: '', action: 'delete' })).toBe(true);
+		expect(processor.isValidPattern({ from: 'a', to: '', action: 'set', value: 'x\ny' })).toBe(false);
+	});
+
+	test('a rename on a note without frontmatter does not drop the other patterns', () => {
+		const patterns: PropertyRenamePattern[] = [
+			{ from: 'status', to: '', action: 'set', value: 'draft' },
+			{ from: 'old', to: 'new' },
+			{ from: 'reviewed', to: '', action: 'add', value: 'false' }
+		];
+
+		expect(processor.renameTagProperties('Just a body', patterns)).toBe('---\nstatus: draft\nreviewed: false\n---\nJust a body');
+		expect(processor.renameTagProperties('Just a body', patterns.slice(1))).toBe('---\nreviewed: false\n---\nJust a body');
+	});
+});
@@ -0,0 +1,64 @@
+/**
+ * Property Migration Tests
+ * Covers converting properties between list, text, number, date and checkbox values
+ */
+
+import { PropertyMigrationService } from '../services/PropertyMigrationService';
+import { TestFramework } from './TestFramework';
+
+const framework = new TestFramework();
+export { framework };
+
+const describe = framework.describe.bind(framework);
+const test = framework.test.bind(framework);
+const expect = framework.expect.bind(framework);
+
+describe('Property Migration Tests', () => {
+	const service = new PropertyMigrationService();
+
+	test('turns comma strings and links into a flow list', () => {
+		const content = '---\ntags: "[[Engineering Leadership]], [Software](path/software.md), work"\ntitle: x\n---\nBody';
+		const outcome = service.migrate(content, { property: 'tags', type: 'list' });
+
+		expect(outcome.content).toBe('---\ntags: ["Engineering Leadership", "Software", "work"]\ntitle: x\n---\nBody');
+		expect(outcome.issues.length).toBe(0);
+	});
+
+	test('cleans block list items in place and leaves clean lists untouched', () => {
+		const content = '---\ntags:\n    - "[[Alpha|the alpha note]]"\n    - beta\n---\n';
+
+		expect(service.migrate(content, { property: 'tags', type: 'list' }).content).toBe('---\ntags:\n    - "Alpha"\n    - beta\n---\n');
+		expect(service.migrate('---\ntags: [a, b] # keep\n---\n', { property: 'tags', type: 'list' }).content).toBe('---\ntags: [a, b] # keep\n---\n');
+	});
+
+	test('joins lists into text', () => {
+		expect(service.migrate('---\nauthor: ["[[Ada]]", Grace]\n---\n', { property: 'author', type: 'text' }).content).toBe('---\nauthor: "Ada, Grace"\n---\n');
+		expect(service.migrate('---\ncount: 5\n---\n', { property: 'count', type: 'text' }).content).toBe('---\ncount: "5"\n---\n');
+	});
+
+	test('converts numbers and checkboxes to unquoted values', () => {
+		expect(service.migrate('---\npages: "1 200,5"\n---\n', { property: 'pages', type: 'number' }).content).toBe('---\npages: 1200.5\n---\n');
+		expect(service.migrate('---\ndone:\n  - Yes\n---\n', { property: 'done', type: 'checkbox' }).content).toBe('---\ndone: true\n---\n');
+		expect(service.convertValue('x', 'checkbox')).toBe('true');
+	});
+
+	test('normalizes dates and refuses ambiguous ones', () => {
+		expect(service.convertValue('31.12.2024', 'date')).toBe('2024-12-31');
+		expect(service.convertValue('12/31/2024', 'date')).toBe('2024-12-31');
+		expect(service.convertValue('2024/1/5 9:30', 'date')).toBe('2024-01-05T09:30');
+		expect(service.migrate('---\ndue: "[[2024-03-01]]"\n---\n', { property: 'due', type: 'date' }).content).toBe('---\ndue: 2024-03-01\n---\n');
+
+		const outcome = service.migrate('---\ndue: 03/04/2024\n---\n', { property: 'due', type: 'date' });
+		expect(outcome.content).toBe('---\ndue: 03/04/2024\n---\n');
+		expect(outcome.issues[0].reason).toContain('Ambiguous');
+	});
+
+	test('reports values it cannot convert and leaves them unchanged', () => {
+		const content = '---\npriority: high\nscore: [1, 2]\nmeta:\n  nested: true\n---\n';
+
+		expect(service.migrate(content, { property: 'priority', type: 'number' }).issues).toEqual([{ value: 'high', reason: 'Not a number' }]);
+		expect(service.migrate(content, { property: 'score', type: 'number' }).issues[0].reason).toContain('2 values');
+		expect(service.migrate(content, { property: 'meta', type: 'text' }).issues.length).toBe(1);
+		expect(service.migrate(content, { property: 'priority', type: 'number' }).content).toBe(content);
+	});
+});
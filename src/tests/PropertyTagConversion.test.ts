@@ -0,0 +1,61 @@
+/**
+ * Property Tag Conversion Tests
+ * Covers moving and copying values between a property and nested tags
+ */
+
+import { PropertyTagConversionService } from '../services/PropertyTagConversionService';
+import { PropertyTagConversion } from '../types/interfaces';
+import { TestFramework } from './TestFramework';
+
+const framework = new TestFramework();
+export { framework };
+
+const describe = framework.describe.bind(framework);
+const test = framework.test.bind(framework);
+const expect = framework.expect.bind(framework);
+
+describe('Property Tag Conversion Tests', () => {
+	const service = new PropertyTagConversionService();
+	const toTags: PropertyTagConversion = { property: 'project', prefix: 'project', direction: 'to-tags', transfer: 'move' };
+	const toProperty: PropertyTagConversion = { property: 'project', prefix: 'project', direction: 'to-property', transfer: 'move' };
+
+	test('moves property values into nested tags, merging with existing tags', () => {
+		const content = '---\ntags: [work, Project/Apollo]\nproject: ["[[Apollo]]", Mars Base]\ntitle: x\n---\nBody';
+
+		expect(service.convert(content, toTags).content).toBe('---\ntags: [work, Project/Apollo, project/Mars-Base]\ntitle: x\n---\nBody');
+		expect(service.convert(content, { ...toTags, transfer: 'copy' }).content).toBe('---\ntags: [work, Project/Apollo, project/Mars-Base]\nproject: ["[[Apollo]]", Mars Base]\ntitle: x\n---\nBody');
+	});
+
+	test('adds to block lists and creates the tags list when missing', () => {
+		expect(service.convert('---\ntags:\n  - work\narea: home\n---\n', { ...toTags, property: 'area', prefix: '#area/' }).content)
+			.toBe('---\ntags:\n  - work\n  - area/home\n---\n');
+		expect(service.convert('---\nproject: apollo\n---\n', toTags).content).toBe('---\ntags: [project/apollo]\n---\n');
+		expect(service.convert('---\ntags: work\nproject: apollo\n---\n', toTags).content).toBe('---\ntags: [work, project/apollo]\n---\n');
+	});
+
+	test('keeps the property when a value cannot become a tag', () => {
+		const content = '---\nyear: [2024, "#"]\n---\n';
+		const outcome = service.convert(content, { ...toTags, property: 'year', prefix: '' });
+
+		expect(outcome.content).toBe(content);
+		expect(outcome.issues).toEqual([{ value: '2024', reason: 'Not a valid tag' }, { value: '#', reason: 'Not a valid tag' }]);
+	});
+
+	test('moves nested tags into the property, merging with its values', () => {
+		const content = '---\ntags: [work, project/apollo, project/mars]\nproject: apollo\n---\n';
+
+		expect(service.convert(content, toProperty).content).toBe('---\ntags: [work]\nproject: [apollo, mars]\n---\n');
+		expect(service.convert('---\ntags:\n  - "#project/apollo"\n---\n', toProperty).content).toBe('---\nproject: apollo\n---\n');
+		expect(service.convert('---\ntags: [project/a, project/b]\n---\n', { ...toProperty, transfer: 'copy' }).content)
+			.toBe('---\ntags: [project/a, project/b]\nproject: [a, b]\n---\n');
+	});
+
+	test('leaves notes alone when the target cannot be extended or nothing matches', () => {
+		const nested = '---\ntags: [project/apollo]\nproject:\n  name: x\n---\n';
+
+		expect(service.convert(nested, toProperty).content).toBe(nested);
+		expect(service.convert(nested, toProperty).issues.length).toBe(1);
+		expect(service.convert('---\ntags: [projects/apollo]\n---\n', toProperty).content).toBe('---\ntags: [projects/apollo]\n---\n');
+		expect(service.convert('---\ntags: [a/b]\n---\n', { ...toProperty, prefix: '' }).content).toBe('---\ntags: [a/b]\n---\n');
+	});
+});
@@ -0,0 +1,67 @@
+/**
+ * Property Value Tests
+ * Covers rewriting frontmatter property values with exact, regex and link-stripping rules
+ */
+
+import { PropertyValueProcessor } from '../services/PropertyValueProcessor';
+import { PropertyValueRule } from '../types/interfaces';
+import { TestFramework } from './TestFramework';
+
+const framework = new TestFramework();
+export { framework };
+
+const describe = framework.describe.bind(framework);
+const test = framework.test.bind(framework);
+const expect = framework.expect.bind(framework);
+
+describe('Property Value Tests', () => {
+	const processor = new PropertyValueProcessor();
+	const status: PropertyValueRule = { property: 'status', search: 'in-progress', replace: 'doing' };
+
+	test('maps scalar values and keeps their quotes', () => {
+		const content = `---\ntitle: x\nstatus: 'in-progress' # keep\n---\nstatus: in-progress`;
+
+		expect(processor.applyRules(content, [status])).toBe(`---\ntitle: x\nstatus: 'doing' # keep\n---\nstatus: in-progress`);
+	});
+
+	test('rewrites list values item by item', () => {
+		const flow = '---\nstatus: [todo, in-progress]\n---\n';
+		const block = '---\nstatus:\n  - in-progress\n  - todo\n---\n';
+
+		expect(processor.applyRules(flow, [status])).toBe('---\nstatus: [todo, doing]\n---\n');
+		expect(processor.applyRules(block, [status])).toBe('---\nstatus:\n  - doing\n  - todo\n---\n');
+	});
+
+	test('regex rules match whole values and support groups', () => {
+		const rule: PropertyValueRule = { property: 'due', search: '(\\d{2})/(\\d{2})/(\\d{4})', replace: '$3-$2-$1', mode: 'regex' };
+
+		expect(processor.applyRules('---\ndue: 31/12/2024\n---\n', [rule])).toBe('---\ndue: 2024-12-31\n---\n');
+		expect(processor.mapValue('on 31/12/2024', rule)).toBe('on 31/12/2024');
+	});
+
+	test('strips wikilinks down to their target', () => {
+		const rule: PropertyValueRule = { property: 'project', search: '', replace: '', mode: 'unlink' };
+		const content = '---\nproject: "[[Apollo]]"\nrelated: ["[[Gemini|the gemini note]]", plain]\n---\n';
+
+		expect(processor.applyRules(content, [rule])).toBe('---\nproject: "Apollo"\nrelated: ["[[Gemini|the gemini note]]", plain]\n---\n');
+		expect(processor.mapValue('[[Gemini|the gemini note]]', rule)).toBe('Gemini');
+	});
+
+	test('conditions limit rules to notes with a matching property', () => {
+		const rule: PropertyValueRule = { ...status, condition: { property: 'type', value: 'Project' } };
+
+		expect(processor.applyRules('---\ntype: [project, work]\nstatus: in-progress\n---\n', [rule])).toBe('---\ntype: [project, work]\nstatus: doing\n---\n');
+		expect(processor.applyRules('---\ntype: meeting\nstatus: in-progress\n---\n', [rule])).toBe('---\ntype: meeting\nstatus: in-progress\n---\n');
+	});
+
+	test('rules run in order and invalid regexes are skipped', () => {
+		const rules: PropertyValueRule[] = [
+			{ property: 'status', search: '(', replace: 'broken', mode: 'regex' },
+			status,
+			{ property: 'status', search: 'doing', replace: 'active' }
+		];
+
+		expect(processor.validateRule(rules[0])).not.toBe(null);
+		expect(processor.applyRules('---\nstatus: in-progress\n---\n', rules)).toBe('---\nstatus: active\n---\n');
+	});
+});
@@ -0,0 +1,82 @@
+/**
+ * Scope Service Tests
+ * Covers include/exclude path globs and the frontmatter filter of operation scopes
+ */
+
+import { ScopeService } from '../services/ScopeService';
+import { OperationScope } from '../types/interfaces';
+import { TestFramework } from './TestFramework';
+
+const framework = new TestFramework();
+export { framework };
+
+const describe = framework.describe.bind(framework);
+const test = framework.test.bind(framework);
+const expect = framework.expect.bind(framework);
+
+describe('Scope Service Tests', () => {
+	const files = ['Projects/a.md', 'Projects/sub/b.md', 'Templates/t.md', 'Archive/2020/old.md', 'inbox.md'];
+	const mockApp = {
+		vault: {
+			getMarkdownFiles: () => files.map(path => ({ path }))
+		},
+		metadataCache: {
+			getFileCache: (file: { path: string }) => ({
+				frontmatter: file.path === 'Projects/a.md' ? { type: 'Meeting' } : { type: ['note', 'meeting'] }
+			})
+		}
+	} as any;
+	const service = new ScopeService(mockApp);
+
+	test('an empty scope includes every path', () => {
+		expect(service.matchesPath('any/note.md', { includeGlobs: [], excludeGlobs: [] })).toBe(true);
+	});
+
+	test('exclude globs and bare folder names skip paths', () => {
+		const scope: OperationScope = { includeGlobs: [], excludeGlobs: ['Templates/**', 'Archive'] };
+
+		expect(service.matchesPath('Templates/t.md', scope)).toBe(false);
+		expect(service.matchesPath('Archive/2020/old.md', scope)).toBe(false);
+		expect(service.matchesPath('Archived.md', scope)).toBe(true);
+	});
+
+	test('include globs keep * within one folder', () => {
+		const scope: OperationScope = { includeGlobs: ['Projects/*.md'], excludeGlobs: [] };
+
+		expect(service.matchesPath('Projects/a.md', scope)).toBe(true);
+		expect(service.matchesPath('Projects/sub/b.md', scope)).toBe(false);
+	});
+
+	test('**/ also matches files at the vault root', () => {
+		const exclude: OperationScope = { includeGlobs: [], excludeGlobs: ['**/Templates/**'] };
+		const include: OperationScope = { includeGlobs: ['**/*.md'], excludeGlobs: [] };
+
+		expect(service.matchesPath('Templates/t.md', exclude)).toBe(false);
+		expect(service.matchesPath('Projects/Templates/t.md', exclude)).toBe(false);
+		expect(service.matchesPath('MyTemplates/t.md', exclude)).toBe(true);
+		expect(service.matchesPath('inbox.md', include)).toBe(true);
+		expect(service.matchesPath('Projects/sub/b.md', include)).toBe(true);
+	});
+
+	test('frontmatter filter matches scalar and list values ignoring case', () => {
+		const filter = { property: 'type', value: 'meeting' };
+
+		expect(service.matchesFrontmatter({ type: 'Meeting' }, filter)).toBe(true);
+		expect(service.matchesFrontmatter({ type: ['note', 'meeting'] }, filter)).toBe(true);
+		expect(service.matchesFrontmatter({ type: 'note' }, filter)).toBe(false);
+		expect(service.matchesFrontmatter({ status: 'x' }, { property: 'status', value: '' })).toBe(true);
+		expect(service.matchesFrontmatter(undefined, filter)).toBe(false);
+	});
+
+	test('getFiles combines the vault, globs and frontmatter filter', () => {
+		const scope: OperationScope = {
+			includeGlobs: ['Projects/**'],
+			excludeGlobs: [],
+			frontmatterFilter: { property: 'type', value: 'meeting' }
+		};
+
+		expect(service.getFiles(null, scope).map(file => file.path)).toEqual(['Projects/a.md', 'Projects/sub/b.md']);
+		expect(service.getFiles(null, { includeGlobs: [], excludeGlobs: ['Templates', 'Archive/**'] }).map(file => file.path))
+			.toEqual(['inbox.md', 'Projects/a.md', 'Projects/sub/b.md']);
+	});
+});
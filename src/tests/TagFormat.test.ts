@@ -0,0 +1,61 @@
+/**
+ * Tag Format Tests
+ * Covers converting tag entries between flow lists, block lists and single values
+ */
+
+import { TagProcessor } from '../services/TagProcessor';
+import { TagFormatSettings } from '../types/interfaces';
+import { TestFramework } from './TestFramework';
+
+const framework = new TestFramework();
+export { framework };
+
+const describe = framework.describe.bind(framework);
+const test = framework.test.bind(framework);
+const expect = framework.expect.bind(framework);
+
+describe('Tag Format Tests', () => {
+	const processor = new TagProcessor();
+	const flow: TagFormatSettings = { style: 'flow', singleTagInline: false };
+	const block: TagFormatSettings = { style: 'block', singleTagInline: false };
+
+	test('converts a block list to a flow list and back', () => {
+		const blockContent = '---\ntitle: x\ntags:\n  - work\n  - "a, b"\ndate: 2024-01-01\n---\nBody';
+		const flowContent = '---\ntitle: x\ntags: [work, "a, b"]\ndate: 2024-01-01\n---\nBody';
+
+		expect(processor.normalizeTagFormat(blockContent, flow)).toBe(flowContent);
+		expect(processor.normalizeTagFormat(flowContent, block)).toBe(blockContent);
+	});
+
+	test('renames tag: to tags: and splits comma and space separated strings', () => {
+		const content = '---\ntag: work, project urgent\n---\n';
+
+		expect(processor.normalizeTagFormat(content, flow)).toBe('---\ntags: [work, project, urgent]\n---\n');
+	});
+
+	test('merges notes that have both tag and tags', () => {
+		const content = '---\ntags:\n    - work\ntitle: x\ntag: project work\n---\n';
+
+		expect(processor.normalizeTagFormat(content, block)).toBe('---\ntags:\n    - work\n    - project\ntitle: x\n---\n');
+	});
+
+	test('writes a lone tag inline when asked', () => {
+		const content = '---\ntags: [work]\n---\n';
+
+		expect(processor.normalizeTagFormat(content, { style: 'flow', singleTagInline: true })).toBe('---\ntags: work\n---\n');
+		expect(processor.normalizeTagFormat('---\ntags: work\n---\n', flow)).toBe('---\ntags: [work]\n---\n');
+	});
+
+	test('leaves notes that are already in the target format untouched', () => {
+		const content = "---\ntags: [ 'work',project ]  # keep\n---\n";
+
+		expect(processor.normalizeTagFormat(content, flow)).toBe(content);
+		expect(processor.normalizeTagFormat('---\ntitle: x\n---\n', flow)).toBe('---\ntitle: x\n---\n');
+	});
+
+	test('skips tag entries it cannot read', () => {
+		const content = '---\ntags:\n  nested: value\n---\n';
+
+		expect(processor.normalizeTagFormat(content, flow)).toBe(content);
+	});
+});
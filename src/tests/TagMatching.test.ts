@@ -0,0 +1,249 @@
+/**
+ * Tag Matching Mode Tests
+ * Covers exact, glob and regex RenamePattern match modes, case and Unicode matching
+ */
+
+import { TagProcessor } from '../services/TagProcessor';
+import { RenamePattern } from '../types/interfaces';
+import { TestFramework } from './TestFramework';
+
+const framework = new TestFramework();
+export { framework };
+
+const describe = framework.describe.bind(framework);
+const test = framework.test.bind(framework);
+const expect = framework.expect.bind(framework);
+
+describe('Tag Matching Mode Tests', () => {
+	const processor = new TagProcessor();
+
+	test('exact mode treats special characters literally', () => {
+		const content = `---
+tags: [project/*, project/a]
+---
+# Content`;
+		const patterns: RenamePattern[] = [{ search: 'project/*', replace: 'done', matchMode: 'exact' }];
+		const result = processor.processFileContent(content, patterns);
+
+		expect(result).toContain('tags: [done, project/a]');
+	});
+
+	test('glob mode matches a single tag level', () => {
+		const content = `---
+tags: [project/alpha, project/beta/sub, other]
+---
+# Content`;
+		const patterns: RenamePattern[] = [{ search: 'project/*', replace: 'archive', matchMode: 'glob' }];
+		const result = processor.processFileContent(content, patterns);
+
+		expect(result).toContain('tags: [archive, project/beta/sub, other]');
+	});
+
+	test('glob mode supports ** and capture groups', () => {
+		const content = `---
+tags:
+  - project/alpha
+  - project/beta/sub
+---
+# Content`;
+		const patterns: RenamePattern[] = [{ search: 'project/**', replace: 'archive/$1', matchMode: 'glob' }];
+		const result = processor.processFileContent(content, patterns);
+
+		expect(result).toContain('  - archive/alpha\n  - archive/beta/sub');
+	});
+
+	test('regex mode substitutes capture groups', () => {
+		const content = `---
+tags: [proj-apollo, proj-gemini, personal]
+---
+# Content`;
+		const patterns: RenamePattern[] = [{ search: 'proj-(.+)', replace: 'project/$1', matchMode: 'regex' }];
+		const result = processor.processFileContent(content, patterns);
+
+		expect(result).toContain('tags: [project/apollo, project/gemini, personal]');
+	});
+
+	test('regex mode is anchored to the whole tag', () => {
+		const content = `---
+tag: my-work-notes
+---
+# Content`;
+		const patterns: RenamePattern[] = [{ search: 'work', replace: 'job', matchMode: 'regex' }];
+
+		expect(processor.processFileContent(content, patterns)).toBe(content);
+	});
+
+	test('regex mode works in remove mode', () => {
+		const content = `---
+tags: [temp-1, temp-2, keep]
+---
+# Content`;
+		const patterns: RenamePattern[] = [{ search: 'temp-\\d+', replace: '', removeMode: true, matchMode: 'regex' }];
+		const result = processor.processFileContent(content, patterns);
+
+		expect(result).toContain('tags: [keep]');
+	});
+
+	test('validatePattern reports invalid regexes only', () => {
+		expect(processor.validatePattern({ search: 'proj-(', replace: '', matchMode: 'regex' })).toBeDefined();
+		expect(processor.validatePattern({ search: 'proj-(', replace: '', matchMode: 'exact' })).toBe(null);
+		expect(processor.validatePattern({ search: 'proj-(.+)', replace: '', matchMode: 'regex' })).toBe(null);
+	});
+
+	test('invalid regex patterns are skipped instead of throwing', () => {
+		const content = `---
+tags: [work, other]
+---
+# Content`;
+		const patterns: RenamePattern[] = [
+			{ search: '(unclosed', replace: 'x', matchMode: 'regex' },
+			{ search: 'work', replace: 'job' }
+		];
+		const result = processor.processFileContent(content, patterns);
+
+		expect(result).toContain('tags: [job, other]');
+	});
+});
+
+describe('Nested Tag Tests', () => {
+	const processor = new TagProcessor();
+
+	test('prefix mode rewrites a tag and all its descendants', () => {
+		const content = `---
+tags: [area/work, area/work/client-x, area/workshop, area/home]
+---
+# Content`;
+		const patterns: RenamePattern[] = [{ search: 'area/work', replace: 'work', matchMode: 'prefix' }];
+		const result = processor.processFileContent(content, patterns);
+
+		expect(result).toContain('tags: [work, work/client-x, area/workshop, area/home]');
+	});
+
+	test('prefix mode works for list and single tag formats', () => {
+		const listContent = `---
+tags:
+  - area/work/client-x/meetings
+---
+# Content`;
+		const singleContent = `---
+tag: area/work/client-y
+---
+# Content`;
+		const patterns: RenamePattern[] = [{ search: 'area/work', replace: 'work', matchMode: 'prefix' }];
+
+		expect(processor.processFileContent(listContent, patterns)).toContain('  - work/client-x/meetings');
+		expect(processor.processFileContent(singleContent, patterns)).toContain('tag: work/client-y');
+	});
+
+	test('prefix mode in remove mode drops the whole subtree', () => {
+		const content = `---
+tags: [old, old/a, old/a/b, older]
+---
+# Content`;
+		const patterns: RenamePattern[] = [{ search: 'old', replace: '', removeMode: true, matchMode: 'prefix' }];
+		const result = processor.processFileContent(content, patterns);
+
+		expect(result).toContain('tags: [older]');
+	});
+
+	test('buildTagTree groups nested tags under their parents', () => {
+		const tree = processor.buildTagTree(['area/work/client-x', 'area/home', 'inbox', 'area/work']);
+
+		expect(tree.map(node => node.name)).toEqual(['area', 'inbox']);
+		expect(tree[0].isTag).toBe(false);
+		expect(tree[0].children.map(node => node.path)).toEqual(['area/home', 'area/work']);
+		expect(tree[0].children[1].isTag).toBe(true);
+		expect(tree[0].children[1].children[0].path).toBe('area/work/client-x');
+	});
+});
+
+describe('Tag Merge Tests', () => {
+	const processor = new TagProcessor();
+
+	test('buildMergePatterns skips the target and duplicate sources', () => {
+		const patterns = processor.buildMergePatterns(['todo', 'to-do', 'TODO', 'to-do'], '#todo');
+
+		expect(patterns.map(p => p.search)).toEqual(['to-do', 'TODO']);
+		expect(patterns.every(p => p.replace === 'todo' && p.matchMode === 'exact')).toBe(true);
+		expect(processor.buildMergePatterns(['a'], '  ')).toEqual([]);
+	});
+
+	test('merged tags are deduplicated afterwards', () => {
+		const content = `---
+tags:
+  - todo
+  - to-do
+  - TODO
+  - work
+---
+# Content`;
+		const merged = processor.processFileContent(content, processor.buildMergePatterns(['to-do', 'TODO'], 'todo'));
+		const result = processor.removeDuplicateTagsFromContent(merged);
+
+		expect(processor.extractTagsFromContent(result)).toEqual(['todo', 'work']);
+		expect(result).toContain('tags:\n  - todo\n  - work\n---');
+	});
+});
+
+describe('Case and Unicode Matching Tests', () => {
+	const processor = new TagProcessor();
+	const fullWidthWork = 'ＷＯＲＫ';
+
+	test('patterns are case-sensitive unless asked otherwise', () => {
+		const content = '---\ntags: [Work, work]\n---\n';
+
+		expect(processor.processFileContent(content, [{ search: 'work', replace: 'job' }])).toContain('tags: [Work, job]');
+		expect(processor.processFileContent(content, [{ search: 'work', replace: 'job', caseInsensitive: true }])).toContain('tags: [job, job]');
+	});
+
+	test('NFKC folds full-width tags and NFC joins decomposed accents', () => {
+		const content = `---\ntags: [${fullWidthWork}, cafe\u0301]\n---\n`;
+		const patterns: RenamePattern[] = [
+			{ search: 'work', replace: 'job', caseInsensitive: true, unicodeNormalization: 'NFKC' },
+			{ search: 'café', replace: 'coffee', unicodeNormalization: 'NFC' }
+		];
+
+		expect(processor.processFileContent(content, patterns)).toContain('tags: [job, coffee]');
+		expect(processor.processFileContent(content, [{ search: 'work', replace: 'job', caseInsensitive: true }])).toBe(content);
+	});
+
+	test('global matching settings apply only where a pattern has none of its own', () => {
+		const patterns = processor.applyMatchingDefaults(
+			[{ search: 'a', replace: 'b' }, { search: 'c', replace: 'd', caseInsensitive: false }],
+			{ caseInsensitive: true, unicodeNormalization: 'NFKC', dedupeVariants: false, keepSpelling: 'first' }
+		);
+
+		expect(patterns[0].caseInsensitive).toBe(true);
+		expect(patterns[0].unicodeNormalization).toBe('NFKC');
+		expect(patterns[1].caseInsensitive).toBe(false);
+	});
+
+	test('duplicate removal keeps variants apart by default', () => {
+		const content = '---\ntags: [Work, work, Work]\n---\n';
+
+		expect(processor.removeDuplicateTagsFromContent(content)).toContain('tags: [Work, work]');
+	});
+
+	test('duplicate removal can merge case and Unicode variants', () => {
+		const tags = ['Work', 'notes', 'work', fullWidthWork];
+
+		expect(processor.removeDuplicateTags(tags, { matchVariants: true, keep: 'first' })).toEqual(['Work', 'notes', null, null]);
+		expect(processor.removeDuplicateTags(tags, { matchVariants: true, keep: 'lowercase' })).toEqual(['work', 'notes', null, null]);
+		expect(processor.removeDuplicateTags(tags, { matchVariants: true, keep: 'canonical', canonicalTags: ['WORK'] })).toEqual(['WORK', 'notes', null, null]);
+		expect(processor.removeDuplicateTags(tags, { matchVariants: true, keep: 'canonical' })).toEqual(['Work', 'notes', null, null]);
+	});
+
+	test('a single spelling is never rewritten', () => {
+		expect(processor.removeDuplicateTags(['Work'], { matchVariants: true, keep: 'lowercase' })).toEqual(['Work']);
+	});
+
+	test('rename targets are the canonical spellings', () => {
+		const options = processor.getDuplicateOptions({
+			renamePatterns: [{ search: 'wrk', replace: 'Work', matchMode: 'exact' }, { search: 'x/*', replace: 'y/$1', matchMode: 'glob' }],
+			tagMatching: { caseInsensitive: false, unicodeNormalization: 'none', dedupeVariants: true, keepSpelling: 'canonical' }
+		});
+
+		expect(options.matchVariants).toBe(true);
+		expect(options.canonicalTags).toEqual(['Work']);
+	});
+});
@@ -175,10 +175,9 @@ describe('Duplicate Removal', () => {
         expect(result).toContain('other');
         
         // Count occurrences of each tag (should be 1 each)
-        const workMatches = (result.match(/"work"/g) || []).length;
-        const personalMatches = (result.match(/"personal"/g) || []).length;
-        expect(workMatches).toBe(1);
-        expect(personalMatches).toBe(1);
+        const tags = processor.extractTagsFromContent(result);
+        expect(tags.filter(tag => tag === 'work').length).toBe(1);
+        expect(tags.filter(tag => tag === 'personal').length).toBe(1);
     });
 
     test('removes duplicates from list format', () => {
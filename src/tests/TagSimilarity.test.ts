@@ -0,0 +1,57 @@
+/**
+ * Tag Similarity Tests
+ * Covers clustering of case, separator, plural and spelling variants
+ */
+
+import { TagSimilarityService } from '../services/TagSimilarityService';
+import { TestFramework } from './TestFramework';
+
+const framework = new TestFramework();
+export { framework };
+
+const describe = framework.describe.bind(framework);
+const test = framework.test.bind(framework);
+const expect = framework.expect.bind(framework);
+
+describe('Tag Similarity Tests', () => {
+	const service = new TagSimilarityService();
+
+	test('clusters case, plural and spelling variants', () => {
+		const clusters = service.findClusters(['meeting', 'meetings', 'Meeting', 'meetng', 'project']);
+
+		expect(clusters.length).toBe(1);
+		expect(clusters[0].tags).toEqual(['meeting', 'Meeting', 'meetings', 'meetng']);
+		expect(clusters[0].canonical).toBe('meeting');
+		expect(clusters[0].reasons.sort()).toEqual(['case', 'plural', 'spelling']);
+	});
+
+	test('clusters separator and camelCase variants', () => {
+		const clusters = service.findClusters(['reading-list', 'reading_list', 'readingList', 'ReadingList']);
+
+		expect(clusters.length).toBe(1);
+		expect(clusters[0].tags.length).toBe(4);
+		expect(clusters[0].reasons.sort()).toEqual(['case', 'separators']);
+	});
+
+	test('uses usage counts to pick the canonical tag', () => {
+		const counts = new Map([['todo', 3], ['TODO', 12]]);
+		const clusters = service.findClusters(['todo', 'TODO'], counts);
+
+		expect(clusters[0].canonical).toBe('TODO');
+	});
+
+	test('does not cluster short or unrelated tags', () => {
+		expect(service.findClusters(['todo', 'toto', 'work', 'home'])).toEqual([]);
+		expect(service.findClusters(['area/work', 'area/home'])).toEqual([]);
+	});
+
+	test('normalizes nested tags level by level', () => {
+		expect(service.normalize('Projects/ClientNotes')).toBe('project/clientnote');
+		expect(service.normalize('categories/boxes')).toBe('category/box');
+	});
+
+	test('editDistance counts insertions, deletions and substitutions', () => {
+		expect(service.editDistance('meeting', 'meetng')).toBe(1);
+		expect(service.editDistance('kitten', 'sitting')).toBe(3);
+	});
+});
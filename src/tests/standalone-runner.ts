@@ -12,6 +12,27 @@ if (typeof performance === 'undefined') {
     };
 }
 
+// Service test modules exporting a `framework`, loaded after the core tests
+const SERVICE_TEST_MODULES = [
+    './DiffService.test',
+    './TagMatching.test',
+    './BodyTagProcessor.test',
+    './FrontmatterParser.test',
+    './TagSimilarity.test',
+    './ScopeService.test',
+    './AutoNormalize.test',
+    './Maintenance.test',
+    './PatternSet.test',
+    './PatternAnalyzer.test',
+    './TagFormat.test',
+    './PropertyValue.test',
+    './PropertyMigration.test',
+    './PropertyConflict.test',
+    './PropertyEdit.test',
+    './PropertyDiscovery.test',
+    './PropertyTagConversion.test'
+];
+
 // Import test suites directly (not through main.js)
 async function runStandaloneTests() {
     console.log('🧪 Tag Renamer Plugin - Standalone Test Suite');
@@ -59,6 +80,22 @@ async function runStandaloneTests() {
         totalFailed += 1;
     }
 
+    // Test services that have no Obsidian runtime dependencies
+    console.log('\n🧩 Testing Services...');
+    for (const testModule of SERVICE_TEST_MODULES) {
+        try {
+            const { framework } = await import(testModule);
+            const summary = framework.runAllTests();
+            framework.printResults();
+            totalPassed += summary.totalPassed;
+            totalFailed += summary.totalFailed;
+            totalDuration += summary.totalDuration;
+        } catch (error) {
+            console.error(`❌ ${testModule} failed to load:`, error instanceof Error ? error.message : String(error));
+            totalFailed += 1;
+        }
+    }
+
     // Test basic integration scenarios
     console.log('\n🔗 Testing Integration Scenarios...');
     try {
@@ -133,7 +170,7 @@ tags: [work, personal, work, other, personal]
             expect(result).toContain('personal');
             expect(result).toContain('other');
             
-            const workMatches = (result.match(/"work"/g) || []).length;
+            const workMatches = (result.match(/\bwork\b/g) || []).length;
             expect(workMatches).toBe(1);
         });
 
@@ -272,7 +309,7 @@ tags: [work, work, project, temp]
 # Test`;
 
             const deduplicated = processor.removeDuplicateTagsFromContent(content);
-            const workCount = (deduplicated.match(/"work"/g) || []).length;
+            const workCount = (deduplicated.match(/\bwork\b/g) || []).length;
             expect(workCount).toBe(1);
 
             // Step 2: Apply patterns
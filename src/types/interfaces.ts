@@ -1,12 +1,136 @@
+import { TFile } from 'obsidian';
+
+export type MatchMode = 'exact' | 'glob' | 'regex' | 'prefix'; // prefix = rename a tag and all its nested children
+
 export interface RenamePattern {
 	search: string;
 	replace: string;
 	removeMode?: boolean; // true = remove tag, false/undefined = replace tag
+	matchMode?: MatchMode; // undefined = exact
+	caseInsensitive?: boolean; // undefined = global tag matching setting
+	unicodeNormalization?: UnicodeNormalization; // undefined = global tag matching setting
+}
+
+// NFC joins composed characters (é written as e + ◌́); NFKC also folds compatibility forms such as full-width ＷＯＲＫ
+export type UnicodeNormalization = 'none' | 'NFC' | 'NFKC';
+
+// Which spelling survives when case or Unicode variants of a tag are merged as duplicates
+export type DuplicateSpelling = 'first' | 'canonical' | 'lowercase';
+
+export interface TagMatchingSettings {
+	caseInsensitive: boolean; // Default for patterns without their own setting
+	unicodeNormalization: UnicodeNormalization;
+	dedupeVariants: boolean; // Duplicate removal treats Work, work and ＷＯＲＫ as one tag
+	keepSpelling: DuplicateSpelling;
 }
 
+export interface DuplicateOptions {
+	matchVariants: boolean;
+	keep: DuplicateSpelling;
+	canonicalTags?: string[]; // Preferred spellings for keep = 'canonical', usually the rename targets
+}
+
+export type TagScope = 'frontmatter' | 'body' | 'both';
+
+// sequential: each pattern sees the result of the previous ones; parallel: first match on the original tag wins
+export type PatternOrder = 'sequential' | 'parallel';
+
+export type PatternIssueType = 'chain' | 'cycle' | 'duplicate' | 'shadowed';
+
+export interface PatternIssue {
+	type: PatternIssueType;
+	patternIndexes: number[]; // Indexes into the pattern list, in the order they interact
+	message: string;
+}
+
+// How rewritten tag values are quoted: like the value they replace, plain unless YAML needs quotes, or always quoted
+export type TagQuoteStyle = 'match' | 'plain' | 'double' | 'single';
+
+// flow: tags: [a, b]; block: one "- tag" line per tag
+export type TagListStyle = 'flow' | 'block';
+
+export interface TagFormatSettings {
+	style: TagListStyle;
+	singleTagInline: boolean; // Write a lone tag as `tags: a` instead of a one-item list
+}
+
+export interface TagTreeNode {
+	name: string;   // Last path segment, e.g. "client-x"
+	path: string;   // Full nested tag, e.g. "area/work/client-x"
+	isTag: boolean; // False for intermediate levels that are never used as a tag on their own
+	children: TagTreeNode[];
+}
+
+// rename: from → to; delete: removes from; set: writes the value, adding the property where it is missing;
+// add: writes the value only where the property is missing (e.g., reviewed: false)
+export type PropertyAction = 'rename' | 'delete' | 'set' | 'add';
+
 export interface PropertyRenamePattern {
-	from: string; // Original property name (e.g., "🗄️ Tags Database")
-	to: string;   // Target property name (e.g., "tags")
+	from: string; // Original property name (e.g., "🗄️ Tags Database"); the edited property for the other actions
+	to: string;   // Target property name (e.g., "tags"); unused by the other actions
+	action?: PropertyAction; // undefined = rename
+	value?: string; // YAML value written by set and add (e.g., "false", "[a, b]")
+}
+
+// What a property rename does when the note already has the target key:
+// merge the values into it, skip the note, overwrite the target or keep both by renaming to "to_2"
+export type PropertyConflictPolicy = 'merge' | 'skip' | 'overwrite' | 'suffix';
+
+export interface KeyConflict {
+	from: string;
+	to: string;
+	resolution: PropertyConflictPolicy; // What was done; merge falls back to skip for nested values
+	writtenKey?: string;                // Key used in suffix mode
+}
+
+export interface PropertyConflict extends KeyConflict {
+	path: string;
+}
+
+export interface PropertyRenameResult extends OperationResult {
+	conflicts: PropertyConflict[];
+}
+
+// exact: the whole value; regex: anchored, with $1... in the replacement; unlink: strips [[ ]] from wikilinks
+export type ValueRuleMode = 'exact' | 'regex' | 'unlink';
+
+export interface PropertyValueRule {
+	property: string; // Property whose values are rewritten (e.g., "status")
+	search: string;   // Value to match; ignored in unlink mode
+	replace: string;  // New value (e.g., "doing")
+	mode?: ValueRuleMode; // undefined = exact
+	condition?: FrontmatterFilter; // Only applies to notes where another property has this value
+}
+
+// Target type of a property migration, matching Obsidian's property types
+export type PropertyType = 'list' | 'text' | 'number' | 'date' | 'checkbox';
+
+export interface PropertyMigration {
+	property: string;   // Property to convert (e.g., "tags" after renaming "🗄️ Tags Database")
+	type: PropertyType;
+}
+
+export interface ValueConversionIssue {
+	value: string;  // Value as written in the note
+	reason: string; // Why it was left unchanged
+}
+
+export interface MigrationIssue extends ValueConversionIssue {
+	path: string;
+}
+
+export interface MigrationResult extends OperationResult {
+	issues: MigrationIssue[]; // Values that could not be converted; their notes keep the old value
+}
+
+export type PropertyTagDirection = 'to-tags' | 'to-property';
+export type PropertyTagTransfer = 'move' | 'copy';
+
+export interface PropertyTagConversion {
+	property: string;                 // e.g. "project"
+	prefix: string;                   // Tag prefix, e.g. "project" for project/apollo; may be empty when converting to tags
+	direction: PropertyTagDirection;  // to-tags: project: apollo → tags: [project/apollo]; to-property: the reverse
+	transfer: PropertyTagTransfer;    // move removes the converted values from the source, copy keeps them
 }
 
 export interface TocOptions {
@@ -15,10 +139,152 @@ export interface TocOptions {
 	tocTitle: string;
 }
 
+export interface FrontmatterFilter {
+	property: string;
+	value: string; // Empty = the property only has to be present
+}
+
+export interface OperationScope {
+	includeGlobs: string[]; // Vault-relative path globs; empty = every file
+	excludeGlobs: string[];
+	frontmatterFilter?: FrontmatterFilter;
+}
+
 export interface TagRenamerSettings {
 	renamePatterns: RenamePattern[];
 	propertyRenamePatterns?: PropertyRenamePattern[]; // Optional for backward compatibility
+	propertyValueRules?: PropertyValueRule[]; // Optional; applied in order
+	propertyConflictPolicy?: PropertyConflictPolicy; // Optional; undefined = merge
+	propertyDiscovery?: PropertyDiscoverySettings; // Optional; undefined = DEFAULT_PROPERTY_DISCOVERY
 	tocOptions?: TocOptions; // Optional for backward compatibility
+	tagScope?: TagScope; // Where rename patterns apply; undefined = frontmatter only
+	patternOrder?: PatternOrder; // How rename patterns combine; undefined = sequential
+	tagMatching?: TagMatchingSettings; // Optional; undefined = case-sensitive, no normalization
+	tagQuoteStyle?: TagQuoteStyle; // Optional; undefined = match
+	tagFormat?: TagFormatSettings; // Target shape for "Normalize tag format"; undefined = flow lists
+	operationScope?: OperationScope; // Which files bulk operations touch; undefined = all
+	autoNormalize?: AutoNormalizeSettings; // Optional; undefined = disabled
+	maintenance?: MaintenanceSettings; // Optional; undefined = never runs on its own
+	patternSets?: PatternSet[]; // Saved sets; the active one is mirrored by the top-level fields above
+	activePatternSetId?: string;
+}
+
+export interface PatternSet {
+	id: string;
+	name: string;
+	renamePatterns: RenamePattern[];
+	propertyRenamePatterns: PropertyRenamePattern[];
+	tagScope: TagScope;
+	operationScope: OperationScope;
+}
+
+export interface AutoNormalizeSettings {
+	enabled: boolean;
+	delaySeconds: number; // Quiet period after the last change before the file is normalized
+	removeDuplicates: boolean;
+	excludeGlobs: string[];
+}
+
+export type MaintenanceOperation = 'renameTags' | 'renameProperties' | 'removeDuplicates' | 'refreshToc';
+
+export interface MaintenanceSettings {
+	runOnStartup: boolean;
+	intervalHours: number; // 0 = no periodic runs
+	operations: MaintenanceOperation[]; // Run in this order
+	reportPath: string;
+	lastRun?: number;
+}
+
+export interface MaintenanceStepResult {
+	operation: MaintenanceOperation;
+	result: OperationResult;
+	skipped?: string; // Why the step did not run
+	conflicts?: PropertyConflict[]; // Property rename conflicts, listed in the report
+}
+
+export interface OperationResult {
+	processed: number;
+	modified: string[]; // Paths of the files that changed
+	errors: string[];   // "path: message" for files that could not be processed
+}
+
+export interface DiffLine {
+	type: 'added' | 'removed' | 'unchanged';
+	text: string;
+}
+
+export interface FileChangePreview {
+	file: TFile;
+	originalContent: string;
+	modifiedContent: string;
+	frontmatterDiff: DiffLine[];
+	bodyDiff: DiffLine[]; // Only changed lines, empty when the body is untouched
+}
+
+export interface JournalFileRecord {
+	path: string;
+	originalContent: string;
+	modifiedContent: string;
+}
+
+export interface JournalEntry {
+	id: string;
+	operation: string;   // e.g. "Rename tags"
+	description: string; // e.g. 'Rename tags in "Projects"'
+	timestamp: number;
+	files: JournalFileRecord[];
+}
+
+// Called with the new content just before the plugin writes a note, so automatic normalization can skip it
+export type WriteListener = (path: string, content: string) => void;
+
+export interface UndoResult {
+	restored: number;
+	skipped: string[]; // Paths left untouched because they changed or were deleted
+}
+
+export interface FileTagIndexEntry {
+	frontmatterTags: string[];
+	bodyTags: string[];     // Inline #tags, without the leading #
+	properties: Record<string, PropertyObservation>; // Every other property; scored for discovery at query time
+	mtime: number;
+}
+
+export interface PropertyObservation {
+	list: boolean;    // Written as a list in this note
+	values: string[]; // The first few values as text; empty for nested, boolean and empty values
+}
+
+export interface PropertyDiscoverySettings {
+	excludedProperties: string[]; // Never suggested; compared case-insensitively
+	maxValueLength: number;       // Longer values do not count as tag-like
+	countSingleValues: boolean;   // Whether a single slug counts as tag-like, not only lists
+	minConfidence: number;        // 0-100; properties scoring lower are not suggested
+}
+
+export interface DiscoveredProperty {
+	name: string;
+	noteCount: number;
+	confidence: number; // 0-100
+	reasons: string[];  // e.g. "list of short slugs in 84% of notes"
+	sample: string;     // A typical value, empty if there is none
+}
+
+export interface TagStat {
+	tag: string;
+	fileCount: number;
+	frontmatterCount: number; // Files carrying the tag in frontmatter
+	bodyCount: number;        // Files carrying the tag inline in the body
+	lastModified: number;     // Most recent mtime of the files carrying the tag
+	files: string[];
+}
+
+export type SimilarityReason = 'case' | 'separators' | 'plural' | 'spelling';
+
+export interface TagCluster {
+	tags: string[];
+	canonical: string; // Suggested merge target
+	reasons: SimilarityReason[];
 }
 
 export interface ImportValidationResult {
@@ -38,4 +304,6 @@ export interface ExportData {
 	pluginName: string;
 	patterns: RenamePattern[];
 	propertyPatterns?: PropertyRenamePattern[]; // Optional for backward compatibility
+	propertyValueRules?: PropertyValueRule[]; // Optional; older exports have none
+	patternSet?: { name: string; tagScope?: TagScope; operationScope?: OperationScope }; // Present when a single set was exported
 }
\ No newline at end of file
@@ -4,7 +4,7 @@
  */
 
 import { Plugin, TFolder, TFile } from 'obsidian';
-import { TagRenamerSettings } from './interfaces';
+import { TagRenamerSettings, FileChangePreview, JournalEntry, RenamePattern, TagStat, PatternSet, PropertyMigration, PropertyTagConversion, DiscoveredProperty } from './interfaces';
 
 export interface TagRenamerPlugin extends Plugin {
     settings: TagRenamerSettings;
@@ -14,22 +14,56 @@ export interface TagRenamerPlugin extends Plugin {
     saveSettings(): Promise<void>;
     
     // Tag processing methods
-    renameTags(folder: TFolder): Promise<void>;
-    removeDuplicatesFromFolder(folder: TFolder): Promise<void>;
+    renameTags(folder: TFolder | null, setId?: string): Promise<void>;
+    renameTagsInFiles(files: TFile[]): Promise<void>;
+    runMaintenance(): Promise<void>;
+    previewTagRenames(folder: TFolder | null, setId?: string): Promise<FileChangePreview[]>;
+    applyTagRenamePreview(changes: FileChangePreview[]): Promise<void>;
+    removeDuplicatesFromFolder(folder: TFolder | null): Promise<void>;
     removeDuplicatesFromFile(file: TFile): Promise<boolean>;
+    normalizeTagFormat(folder: TFolder | null): Promise<void>;
+    normalizeTagFormatInFiles(files: TFile[]): Promise<void>;
     getAllTagsInVault(): Promise<string[]>;
+    onTagIndexChange(listener: () => void): () => void;
+    getTagStats(): Promise<TagStat[]>;
+    addRenamePattern(pattern: RenamePattern): Promise<void>;
+    mergeTags(sourceTags: string[], target: string, savePatterns: boolean): Promise<void>;
     
     // Property processing methods
-    renameTagProperties(folder: TFolder): Promise<void>;
+    renameTagProperties(folder: TFolder | null): Promise<void>;
+    applyPropertyValueRules(folder: TFolder | null): Promise<void>;
+    migrateProperty(folder: TFolder | null, migration: PropertyMigration): Promise<void>;
+    convertPropertyTags(folder: TFolder | null, conversion: PropertyTagConversion): Promise<void>;
     findCustomTagPropertiesInVault(): Promise<string[]>;
+    discoverProperties(): Promise<DiscoveredProperty[]>;
+    
+    // Pattern set methods
+    getPatternSets(): PatternSet[];
+    getPatternSet(setId?: string): PatternSet;
+    switchPatternSet(setId: string): Promise<void>;
+    createPatternSet(name: string): Promise<PatternSet>;
+    duplicatePatternSet(setId: string): Promise<PatternSet | null>;
+    deletePatternSet(setId: string): Promise<boolean>;
+    renamePatternSet(setId: string, name: string): Promise<void>;
+    
+    // Undo journal methods
+    confirmUndo(entry: JournalEntry): Promise<void>;
+    undoJournalEntry(entry: JournalEntry, overwriteChanged: boolean): Promise<void>;
     
     // Import/Export methods
-    exportPatternsToJson(): string;
-    importPatternsFromJson(jsonData: string, mergeMode?: boolean): any;
+    exportPatternsToJson(setId?: string): string;
+    importPatternsFromJson(jsonData: string, mergeMode?: boolean, asNewSet?: boolean): any;
     validateImportData(data: any): any;
     
     // UI methods
-    showRenameConfirmation(folder: TFolder): void;
-    showDuplicateRemovalConfirmation(folder: TFolder): void;
-    showPropertyRenameConfirmation(folder: TFolder): void;
+    showRenameConfirmation(folder: TFolder | null, setId?: string): void;
+    showRenamePreview(folder: TFolder | null, setId?: string): Promise<void>;
+    showDuplicateRemovalConfirmation(folder: TFolder | null): void;
+    showTagFormatConfirmation(folder: TFolder | null): void;
+    showPropertyRenameConfirmation(folder: TFolder | null): void;
+    showPropertyValueConfirmation(folder: TFolder | null): void;
+    showPropertyMigrationModal(folder: TFolder | null, property?: string): Promise<void>;
+    showPropertyTagConversionModal(folder: TFolder | null, property?: string): Promise<void>;
+    openTagStatsView(): Promise<void>;
+    showMergeTagsModal(preselected?: string[]): Promise<void>;
 }
\ No newline at end of file
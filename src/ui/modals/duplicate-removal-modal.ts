@@ -8,9 +8,9 @@ import { TagRenamerPlugin } from '../../types/plugin-types';
 
 export class DuplicateRemovalConfirmationModal extends Modal {
 	plugin: TagRenamerPlugin;
-	folder: TFolder;
+	folder: TFolder | null;
 
-	constructor(app: App, plugin: TagRenamerPlugin, folder: TFolder) {
+	constructor(app: App, plugin: TagRenamerPlugin, folder: TFolder | null) {
 		super(app);
 		this.plugin = plugin;
 		this.folder = folder;
@@ -23,15 +23,17 @@ export class DuplicateRemovalConfirmationModal extends Modal {
 		contentEl.createEl('h2', {text: 'Remove Duplicate Tags - Warning'});
 		
 		contentEl.createEl('p', {
-			text: `⚠️ This action will modify files in the folder "${this.folder.name}" and all its subfolders.`
+			text: this.folder
+				? `⚠️ This action will modify files in the folder "${this.folder.name}" and all its subfolders.`
+				: '⚠️ This action will modify files across the whole vault.'
 		});
 
 		contentEl.createEl('p', {
-			text: 'IMPORTANT: Please backup your vault before proceeding. This operation cannot be undone.'
+			text: 'IMPORTANT: Please backup your vault before proceeding. You can revert this operation with the "Undo last tag operation" command.'
 		});
 
 		contentEl.createEl('p', {
-			text: 'This will remove duplicate tags from the frontmatter of all markdown files in this folder.'
+			text: 'This will remove duplicate tags from the frontmatter of all markdown files in scope.'
 		});
 
 		contentEl.createEl('p', {
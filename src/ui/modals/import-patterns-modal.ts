@@ -62,6 +62,14 @@ export class ImportPatternsModal extends Modal {
 		});
 		const mergeLabel = modeContainer.createEl('label', {text: ' Merge with existing patterns'});
 		mergeLabel.style.marginLeft = '5px';
+		modeContainer.createEl('br');
+
+		const newSetRadio = modeContainer.createEl('input', {
+			type: 'radio',
+			attr: { name: 'importMode', value: 'new-set' }
+		});
+		const newSetLabel = modeContainer.createEl('label', {text: ' Import as a new pattern set'});
+		newSetLabel.style.marginLeft = '5px';
 
 		const previewContainer = contentEl.createDiv('preview-container');
 		previewContainer.style.marginBottom = '20px';
@@ -123,7 +131,8 @@ export class ImportPatternsModal extends Modal {
 			reader.onload = (e) => {
 				const content = e.target?.result as string;
 				const mergeMode = (mergeRadio as HTMLInputElement).checked;
-				const result = this.plugin.importPatternsFromJson(content, mergeMode);
+				const asNewSet = (newSetRadio as HTMLInputElement).checked;
+				const result = this.plugin.importPatternsFromJson(content, mergeMode, asNewSet);
 				
 				if (result.success) {
 					new Notice(`Successfully imported ${result.imported} patterns`);
@@ -0,0 +1,68 @@
+/**
+ * Journal History Modal
+ * Lists recorded bulk operations and lets the user undo any of them
+ */
+
+import { App, Modal } from 'obsidian';
+import { TagRenamerPlugin } from '../../types/plugin-types';
+import { JournalEntry } from '../../types/interfaces';
+import { CSS_STYLES } from '../../constants/patterns';
+
+export class JournalHistoryModal extends Modal {
+	plugin: TagRenamerPlugin;
+	entries: JournalEntry[];
+
+	constructor(app: App, plugin: TagRenamerPlugin, entries: JournalEntry[]) {
+		super(app);
+		this.plugin = plugin;
+		this.entries = entries;
+	}
+
+	onOpen(): void {
+		const {contentEl} = this;
+		contentEl.empty();
+
+		contentEl.createEl('h2', {text: 'Tag Operation History'});
+
+		if (this.entries.length === 0) {
+			contentEl.createEl('p', {
+				text: 'No tag operations have been recorded yet.',
+				cls: 'setting-item-description'
+			});
+			return;
+		}
+
+		contentEl.createEl('p', {
+			text: 'Most recent first. Undoing an operation restores every file it modified.',
+			cls: 'setting-item-description'
+		});
+
+		const listEl = contentEl.createDiv('journal-history-list');
+		listEl.style.cssText = CSS_STYLES.PREVIEW_LIST;
+
+		this.entries.forEach(entry => {
+			const itemEl = listEl.createDiv('journal-history-item');
+			itemEl.style.cssText = CSS_STYLES.PATTERN_CONTROL;
+			itemEl.style.justifyContent = 'space-between';
+			itemEl.style.marginBottom = '10px';
+
+			const infoEl = itemEl.createDiv();
+			infoEl.createEl('div', {text: entry.description});
+			infoEl.createEl('div', {
+				text: `${new Date(entry.timestamp).toLocaleString()} • ${entry.files.length} file(s)`,
+				cls: 'setting-item-description'
+			});
+
+			const undoButton = itemEl.createEl('button', {text: 'Undo'});
+			undoButton.onclick = () => {
+				this.close();
+				this.plugin.confirmUndo(entry);
+			};
+		});
+	}
+
+	onClose(): void {
+		const {contentEl} = this;
+		contentEl.empty();
+	}
+}
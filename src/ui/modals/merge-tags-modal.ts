@@ -0,0 +1,146 @@
+/**
+ * Merge Tags Modal
+ * Lets the user pick several discovered tags and fold them into one canonical tag
+ */
+
+import { App, Modal, Setting } from 'obsidian';
+import { TagRenamerPlugin } from '../../types/plugin-types';
+import { CSS_STYLES } from '../../constants/patterns';
+
+export class MergeTagsModal extends Modal {
+	plugin: TagRenamerPlugin;
+	tags: string[];
+	selected: Set<string>;
+	target: string;
+	filter = '';
+	savePatterns = false;
+	private mergeButton: HTMLButtonElement | null = null;
+
+	constructor(app: App, plugin: TagRenamerPlugin, tags: string[], preselected: string[] = []) {
+		super(app);
+		this.plugin = plugin;
+		this.tags = tags;
+		this.selected = new Set(preselected);
+		this.target = preselected[0] || '';
+	}
+
+	onOpen(): void {
+		const {contentEl} = this;
+		contentEl.empty();
+
+		contentEl.createEl('h2', {text: 'Merge Tags'});
+
+		contentEl.createEl('p', {
+			text: 'Select the tags to merge, then pick or type the tag they should become. Duplicates created by the merge are removed automatically.',
+			cls: 'setting-item-description'
+		});
+
+		new Setting(contentEl)
+			.setName('Filter')
+			.addText(text => text
+				.setPlaceholder('Type to filter tags')
+				.onChange(value => {
+					this.filter = value.trim().toLowerCase();
+					this.renderTagList(listEl);
+				}));
+
+		const listEl = contentEl.createDiv('merge-tags-list');
+		listEl.style.cssText = CSS_STYLES.PREVIEW_LIST;
+
+		const datalistId = 'tag-renamer-merge-targets';
+		const datalist = contentEl.createEl('datalist', {attr: {id: datalistId}});
+		this.tags.forEach(tag => datalist.createEl('option', {attr: {value: tag}}));
+
+		new Setting(contentEl)
+			.setName('Merge into')
+			.setDesc('An existing tag or a new one')
+			.addText(text => {
+				text.setPlaceholder('canonical-tag')
+					.setValue(this.target)
+					.onChange(value => {
+						this.target = value.trim().replace(/^#/, '');
+						this.updateMergeButton();
+					});
+				text.inputEl.setAttr('list', datalistId);
+			});
+
+		new Setting(contentEl)
+			.setName('Save as rename patterns')
+			.setDesc('Also add the generated patterns to your rename patterns, so future notes are merged too')
+			.addToggle(toggle => toggle
+				.setValue(this.savePatterns)
+				.onChange(value => {
+					this.savePatterns = value;
+				}));
+
+		const buttonContainer = contentEl.createDiv('modal-button-container');
+
+		const cancelButton = buttonContainer.createEl('button', {
+			text: 'Cancel',
+			cls: 'mod-cta'
+		});
+		cancelButton.onclick = () => this.close();
+
+		this.mergeButton = buttonContainer.createEl('button', {
+			cls: 'mod-warning'
+		});
+		this.mergeButton.onclick = () => {
+			const sources = this.getSources();
+			if (sources.length === 0 || !this.target) {
+				return;
+			}
+			this.close();
+			this.plugin.mergeTags(sources, this.target, this.savePatterns);
+		};
+
+		this.renderTagList(listEl);
+	}
+
+	renderTagList(listEl: HTMLElement): void {
+		listEl.empty();
+
+		const visibleTags = this.tags.filter(tag => !this.filter || tag.toLowerCase().includes(this.filter));
+		if (visibleTags.length === 0) {
+			listEl.createEl('p', {text: 'No matching tags.', cls: 'setting-item-description'});
+		}
+
+		visibleTags.forEach(tag => {
+			const labelEl = listEl.createEl('label');
+			labelEl.style.display = 'block';
+			const checkbox = labelEl.createEl('input', {type: 'checkbox'});
+			checkbox.checked = this.selected.has(tag);
+			labelEl.createEl('span', {text: ` #${tag}`});
+
+			checkbox.addEventListener('change', () => {
+				if (checkbox.checked) {
+					this.selected.add(tag);
+				} else {
+					this.selected.delete(tag);
+				}
+				this.updateMergeButton();
+			});
+		});
+
+		this.updateMergeButton();
+	}
+
+	getSources(): string[] {
+		return Array.from(this.selected).filter(tag => tag !== this.target);
+	}
+
+	updateMergeButton(): void {
+		if (!this.mergeButton) {
+			return;
+		}
+		const count = this.getSources().length;
+		this.mergeButton.textContent = this.target
+			? `Merge ${count} tag(s) into "${this.target}"`
+			: `Merge ${count} tag(s)`;
+		this.mergeButton.disabled = count === 0 || !this.target;
+	}
+
+	onClose(): void {
+		const {contentEl} = this;
+		contentEl.empty();
+	}
+}
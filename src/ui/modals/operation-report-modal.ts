@@ -0,0 +1,65 @@
+/**
+ * Operation Report Modal
+ * Lists the notes a bulk run needs the user to look at, e.g. values a property migration
+ * could not convert or property renames that ran into an existing key
+ */
+
+import { App, Modal } from 'obsidian';
+import { CSS_STYLES } from '../../constants/patterns';
+
+export interface ReportItem {
+	path: string;
+	detail: string;
+}
+
+export class OperationReportModal extends Modal {
+	title: string;
+	summary: string;
+	items: ReportItem[];
+
+	constructor(app: App, title: string, summary: string, items: ReportItem[]) {
+		super(app);
+		this.title = title;
+		this.summary = summary;
+		this.items = items;
+	}
+
+	onOpen(): void {
+		const {contentEl} = this;
+		contentEl.empty();
+
+		contentEl.createEl('h2', {text: this.title});
+		contentEl.createEl('p', {text: this.summary});
+
+		const listEl = contentEl.createDiv('operation-report-list');
+		listEl.style.cssText = CSS_STYLES.PREVIEW_LIST;
+
+		this.items.forEach(item => {
+			const itemEl = listEl.createDiv();
+			itemEl.style.marginBottom = '10px';
+
+			const linkEl = itemEl.createEl('a', {text: item.path, href: '#'});
+			linkEl.onclick = (event) => {
+				event.preventDefault();
+				this.app.workspace.openLinkText(item.path, '', false);
+				this.close();
+			};
+			itemEl.createEl('div', {
+				text: item.detail,
+				cls: 'setting-item-description'
+			});
+		});
+
+		const buttonContainer = contentEl.createDiv('modal-button-container');
+		const closeButton = buttonContainer.createEl('button', {
+			text: 'Close',
+			cls: 'mod-cta'
+		});
+		closeButton.onclick = () => this.close();
+	}
+
+	onClose(): void {
+		const {contentEl} = this;
+		contentEl.empty();
+	}
+}
@@ -0,0 +1,113 @@
+/**
+ * Property Migration Modal
+ * Lets the user pick a property and the type its values should be converted to
+ */
+
+import { App, Modal, Setting, TFolder } from 'obsidian';
+import { TagRenamerPlugin } from '../../types/plugin-types';
+import { PropertyType } from '../../types/interfaces';
+
+const TYPE_EXAMPLES: Record<PropertyType, string> = {
+	list: '"a, [[b]]" → [a, b]',
+	text: '[a, b] → "a, b"',
+	number: '"1 200,5" → 1200.5',
+	date: '31.12.2024 → 2024-12-31',
+	checkbox: 'yes / x / done → true'
+};
+
+export class PropertyMigrationModal extends Modal {
+	plugin: TagRenamerPlugin;
+	folder: TFolder | null;
+	properties: string[];
+	property: string;
+	type: PropertyType = 'list';
+	private migrateButton: HTMLButtonElement | null = null;
+
+	constructor(app: App, plugin: TagRenamerPlugin, folder: TFolder | null, properties: string[], property = '') {
+		super(app);
+		this.plugin = plugin;
+		this.folder = folder;
+		this.properties = properties;
+		this.property = property;
+	}
+
+	onOpen(): void {
+		const {contentEl} = this;
+		contentEl.empty();
+
+		contentEl.createEl('h2', {text: 'Migrate Property Type'});
+
+		contentEl.createEl('p', {
+			text: `Convert a property in ${this.folder ? `the folder "${this.folder.name}"` : 'every note in the operation scope'} to another type. Wikilinks and markdown links are reduced to their text. Values that cannot be converted are left unchanged and listed in a report.`,
+			cls: 'setting-item-description'
+		});
+
+		const datalistId = 'tag-renamer-migration-properties';
+		const datalist = contentEl.createEl('datalist', {attr: {id: datalistId}});
+		this.properties.forEach(property => datalist.createEl('option', {attr: {value: property}}));
+
+		new Setting(contentEl)
+			.setName('Property')
+			.addText(text => {
+				text.setPlaceholder('tags')
+					.setValue(this.property)
+					.onChange(value => {
+						this.property = value.trim();
+						this.updateMigrateButton();
+					});
+				text.inputEl.setAttr('list', datalistId);
+			});
+
+		const typeSetting = new Setting(contentEl)
+			.setName('Convert to')
+			.setDesc(TYPE_EXAMPLES[this.type])
+			.addDropdown(dropdown => dropdown
+				.addOption('list', 'List')
+				.addOption('text', 'Text')
+				.addOption('number', 'Number')
+				.addOption('date', 'Date')
+				.addOption('checkbox', 'Checkbox')
+				.setValue(this.type)
+				.onChange(value => {
+					this.type = value as PropertyType;
+					typeSetting.setDesc(TYPE_EXAMPLES[this.type]);
+				}));
+
+		contentEl.createEl('p', {
+			text: 'IMPORTANT: Please backup your vault before proceeding. You can revert this operation with the "Undo last tag operation" command.'
+		});
+
+		const buttonContainer = contentEl.createDiv('modal-button-container');
+
+		const cancelButton = buttonContainer.createEl('button', {
+			text: 'Cancel',
+			cls: 'mod-cta'
+		});
+		cancelButton.onclick = () => this.close();
+
+		this.migrateButton = buttonContainer.createEl('button', {
+			text: 'Migrate Property',
+			cls: 'mod-warning'
+		});
+		this.migrateButton.onclick = () => {
+			if (!this.property) {
+				return;
+			}
+			this.close();
+			this.plugin.migrateProperty(this.folder, { property: this.property, type: this.type });
+		};
+
+		this.updateMigrateButton();
+	}
+
+	updateMigrateButton(): void {
+		if (this.migrateButton) {
+			this.migrateButton.disabled = !this.property;
+		}
+	}
+
+	onClose(): void {
+		const {contentEl} = this;
+		contentEl.empty();
+	}
+}
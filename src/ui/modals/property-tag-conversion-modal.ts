@@ -0,0 +1,159 @@
+/**
+ * Property Tag Conversion Modal
+ * Lets the user pick a property, a tag prefix and whether values are moved or copied between them
+ */
+
+import { App, Modal, Setting, TFolder } from 'obsidian';
+import { TagRenamerPlugin } from '../../types/plugin-types';
+import { PropertyTagDirection, PropertyTagTransfer } from '../../types/interfaces';
+
+export class PropertyTagConversionModal extends Modal {
+	plugin: TagRenamerPlugin;
+	folder: TFolder | null;
+	properties: string[];
+	property: string;
+	prefix: string;
+	direction: PropertyTagDirection = 'to-tags';
+	transfer: PropertyTagTransfer = 'move';
+	private prefixEdited = false;
+	private exampleSetting: Setting | null = null;
+	private convertButton: HTMLButtonElement | null = null;
+
+	constructor(app: App, plugin: TagRenamerPlugin, folder: TFolder | null, properties: string[], property = '') {
+		super(app);
+		this.plugin = plugin;
+		this.folder = folder;
+		this.properties = properties;
+		this.property = property;
+		this.prefix = property;
+	}
+
+	onOpen(): void {
+		const {contentEl} = this;
+		contentEl.empty();
+
+		contentEl.createEl('h2', {text: 'Convert Property and Tags'});
+
+		contentEl.createEl('p', {
+			text: `Turn the values of a property into nested tags or the other way round in ${this.folder ? `the folder "${this.folder.name}"` : 'every note in the operation scope'}. Converted values are merged with the existing tags or property values. Values that cannot be converted are listed in a report and, when moving, stay where they are.`,
+			cls: 'setting-item-description'
+		});
+
+		const datalistId = 'tag-renamer-conversion-properties';
+		const datalist = contentEl.createEl('datalist', {attr: {id: datalistId}});
+		this.properties.forEach(property => datalist.createEl('option', {attr: {value: property}}));
+
+		let prefixInput: HTMLInputElement | null = null;
+		new Setting(contentEl)
+			.setName('Property')
+			.addText(text => {
+				text.setPlaceholder('project')
+					.setValue(this.property)
+					.onChange(value => {
+						this.property = value.trim();
+						// Follow the property name until the prefix is edited by hand
+						if (!this.prefixEdited && prefixInput) {
+							this.prefix = this.property;
+							prefixInput.value = this.prefix;
+						}
+						this.updateControls();
+					});
+				text.inputEl.setAttr('list', datalistId);
+			});
+
+		new Setting(contentEl)
+			.setName('Tag prefix')
+			.setDesc('Values become nested tags below this prefix. Leave empty to convert values into top-level tags.')
+			.addText(text => {
+				prefixInput = text.inputEl;
+				text.setPlaceholder('project')
+					.setValue(this.prefix)
+					.onChange(value => {
+						this.prefix = value.trim();
+						this.prefixEdited = true;
+						this.updateControls();
+					});
+			});
+
+		new Setting(contentEl)
+			.setName('Direction')
+			.addDropdown(dropdown => dropdown
+				.addOption('to-tags', 'Property → tags')
+				.addOption('to-property', 'Tags → property')
+				.setValue(this.direction)
+				.onChange(value => {
+					this.direction = value as PropertyTagDirection;
+					this.updateControls();
+				}));
+
+		new Setting(contentEl)
+			.setName('Move or copy')
+			.setDesc('Move removes the converted values from the source, copy keeps them')
+			.addDropdown(dropdown => dropdown
+				.addOption('move', 'Move')
+				.addOption('copy', 'Copy')
+				.setValue(this.transfer)
+				.onChange(value => {
+					this.transfer = value as PropertyTagTransfer;
+					this.updateControls();
+				}));
+
+		this.exampleSetting = new Setting(contentEl).setName('Example');
+
+		contentEl.createEl('p', {
+			text: 'IMPORTANT: Please backup your vault before proceeding. You can revert this operation with the "Undo last tag operation" command.'
+		});
+
+		const buttonContainer = contentEl.createDiv('modal-button-container');
+
+		const cancelButton = buttonContainer.createEl('button', {
+			text: 'Cancel',
+			cls: 'mod-cta'
+		});
+		cancelButton.onclick = () => this.close();
+
+		this.convertButton = buttonContainer.createEl('button', {
+			text: 'Convert',
+			cls: 'mod-warning'
+		});
+		this.convertButton.onclick = () => {
+			if (!this.canConvert()) {
+				return;
+			}
+			this.close();
+			this.plugin.convertPropertyTags(this.folder, {
+				property: this.property,
+				prefix: this.prefix,
+				direction: this.direction,
+				transfer: this.transfer
+			});
+		};
+
+		this.updateControls();
+	}
+
+	canConvert(): boolean {
+		const prefix = this.prefix.replace(/^#/, '').replace(/\/+$/, '');
+		return this.property.length > 0 && !['tags', 'tag'].includes(this.property.toLowerCase()) && (this.direction === 'to-tags' || prefix.length > 0);
+	}
+
+	updateControls(): void {
+		if (this.convertButton) {
+			this.convertButton.disabled = !this.canConvert();
+		}
+		if (this.exampleSetting) {
+			const property = this.property || 'project';
+			const prefix = this.prefix.replace(/^#/, '').replace(/\/+$/, '');
+			const tag = prefix ? `${prefix}/apollo` : 'apollo';
+			const kept = this.transfer === 'copy';
+			this.exampleSetting.setDesc(this.direction === 'to-tags'
+				? `${property}: apollo → tags: [${tag}]${kept ? `, ${property} is kept` : ''}`
+				: `tags: [${tag}] → ${property}: apollo${kept ? ', the tag is kept' : ''}`);
+		}
+	}
+
+	onClose(): void {
+		const {contentEl} = this;
+		contentEl.empty();
+	}
+}
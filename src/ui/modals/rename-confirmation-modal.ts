@@ -8,12 +8,17 @@ import { TagRenamerPlugin } from '../../types/plugin-types';
 
 export class RenameConfirmationModal extends Modal {
 	plugin: TagRenamerPlugin;
-	folder: TFolder;
+	folder: TFolder | null;
+	setId?: string;
 
-	constructor(app: App, plugin: TagRenamerPlugin, folder: TFolder) {
+	/**
+	 * Without a set id the active pattern set is used
+	 */
+	constructor(app: App, plugin: TagRenamerPlugin, folder: TFolder | null, setId?: string) {
 		super(app);
 		this.plugin = plugin;
 		this.folder = folder;
+		this.setId = setId;
 	}
 
 	onOpen(): void {
@@ -23,16 +28,19 @@ export class RenameConfirmationModal extends Modal {
 		contentEl.createEl('h2', {text: 'Rename Tags - Warning'});
 		
 		contentEl.createEl('p', {
-			text: `⚠️ This action will modify files in the folder "${this.folder.name}" and all its subfolders.`
+			text: this.folder
+				? `⚠️ This action will modify files in the folder "${this.folder.name}" and all its subfolders.`
+				: '⚠️ This action will modify files across the whole vault.'
 		});
 
 		contentEl.createEl('p', {
-			text: 'IMPORTANT: Please backup your vault before proceeding. This operation cannot be undone.'
+			text: 'IMPORTANT: Please backup your vault before proceeding. You can revert this operation with the "Undo last tag operation" command.'
 		});
 
-		const patternCount = this.plugin.settings.renamePatterns.filter(p => p.search && p.replace).length;
+		const patternSet = this.plugin.getPatternSet(this.setId);
+		const patternCount = patternSet.renamePatterns.filter(p => p.search && (p.removeMode || p.replace)).length;
 		contentEl.createEl('p', {
-			text: `${patternCount} rename pattern(s) will be applied to all markdown files in this folder.`
+			text: `${patternCount} rename pattern(s) from the "${patternSet.name}" set will be applied to all markdown files in scope.`
 		});
 
 		if (patternCount === 0) {
@@ -51,13 +59,21 @@ export class RenameConfirmationModal extends Modal {
 		cancelButton.onclick = () => this.close();
 
 		if (patternCount > 0) {
+			const previewButton = buttonContainer.createEl('button', {
+				text: 'Preview Changes'
+			});
+			previewButton.onclick = () => {
+				this.close();
+				this.plugin.showRenamePreview(this.folder, this.setId);
+			};
+
 			const proceedButton = buttonContainer.createEl('button', {
 				text: 'Proceed with Rename',
 				cls: 'mod-warning'
 			});
 			proceedButton.onclick = () => {
 				this.close();
-				this.plugin.renameTags(this.folder);
+				this.plugin.renameTags(this.folder, this.setId);
 			};
 		}
 	}
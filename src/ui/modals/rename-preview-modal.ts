@@ -0,0 +1,134 @@
+/**
+ * Rename Preview Modal
+ * Shows a dry-run of the tag rename patterns with a per-file frontmatter diff
+ * and lets the user pick which files to apply the changes to
+ */
+
+import { App, Modal, TFolder } from 'obsidian';
+import { TagRenamerPlugin } from '../../types/plugin-types';
+import { FileChangePreview, DiffLine } from '../../types/interfaces';
+import { CSS_STYLES } from '../../constants/patterns';
+
+export class RenamePreviewModal extends Modal {
+	plugin: TagRenamerPlugin;
+	folder: TFolder | null;
+	previews: FileChangePreview[];
+	selected: Set<FileChangePreview>;
+
+	constructor(app: App, plugin: TagRenamerPlugin, folder: TFolder | null, previews: FileChangePreview[]) {
+		super(app);
+		this.plugin = plugin;
+		this.folder = folder;
+		this.previews = previews;
+		this.selected = new Set(previews);
+	}
+
+	onOpen(): void {
+		const {contentEl} = this;
+		contentEl.empty();
+
+		contentEl.createEl('h2', {text: 'Preview Tag Renames'});
+
+		if (this.previews.length === 0) {
+			contentEl.createEl('p', {
+				text: `No files in ${this.getTargetName()} would be changed by the current rename patterns.`
+			});
+
+			const closeContainer = contentEl.createDiv('modal-button-container');
+			const closeButton = closeContainer.createEl('button', {
+				text: 'Close',
+				cls: 'mod-cta'
+			});
+			closeButton.onclick = () => this.close();
+			return;
+		}
+
+		contentEl.createEl('p', {
+			text: `${this.previews.length} file(s) in ${this.getTargetName()} would be modified. Untick any file you want to leave unchanged.`
+		});
+
+		const listEl = contentEl.createDiv('rename-preview-list');
+		listEl.style.cssText = CSS_STYLES.PREVIEW_LIST;
+
+		const buttonContainer = contentEl.createDiv('modal-button-container');
+
+		const cancelButton = buttonContainer.createEl('button', {
+			text: 'Cancel',
+			cls: 'mod-cta'
+		});
+		cancelButton.onclick = () => this.close();
+
+		const applyButton = buttonContainer.createEl('button', {
+			text: this.getApplyButtonText(),
+			cls: 'mod-warning'
+		});
+		applyButton.onclick = () => {
+			const changes = this.previews.filter(preview => this.selected.has(preview));
+			if (changes.length === 0) {
+				return;
+			}
+			this.close();
+			this.plugin.applyTagRenamePreview(changes);
+		};
+
+		this.previews.forEach(preview => {
+			const itemEl = listEl.createDiv('rename-preview-item');
+
+			const labelEl = itemEl.createEl('label');
+			const checkbox = labelEl.createEl('input', {
+				type: 'checkbox',
+				attr: { checked: 'checked' }
+			});
+			const pathEl = labelEl.createEl('span', {text: preview.file.path});
+			pathEl.style.marginLeft = '5px';
+			pathEl.style.fontWeight = 'bold';
+
+			checkbox.addEventListener('change', () => {
+				if (checkbox.checked) {
+					this.selected.add(preview);
+				} else {
+					this.selected.delete(preview);
+				}
+				applyButton.textContent = this.getApplyButtonText();
+			});
+
+			if (preview.frontmatterDiff.some(line => line.type !== 'unchanged')) {
+				this.renderDiff(itemEl, preview.frontmatterDiff);
+			}
+			if (preview.bodyDiff.length > 0) {
+				itemEl.createEl('div', {text: 'Body', cls: 'setting-item-description'});
+				this.renderDiff(itemEl, preview.bodyDiff);
+			}
+		});
+	}
+
+	renderDiff(container: HTMLElement, diff: DiffLine[]): void {
+		const diffEl = container.createDiv('rename-preview-diff');
+		diffEl.style.cssText = CSS_STYLES.DIFF_BLOCK;
+
+		diff.forEach(line => {
+			if (line.type === 'added') {
+				const lineEl = diffEl.createDiv({text: `+ ${line.text}`});
+				lineEl.style.cssText = CSS_STYLES.DIFF_ADDED;
+			} else if (line.type === 'removed') {
+				const lineEl = diffEl.createDiv({text: `- ${line.text}`});
+				lineEl.style.cssText = CSS_STYLES.DIFF_REMOVED;
+			} else {
+				diffEl.createDiv({text: `  ${line.text}`});
+			}
+		});
+	}
+
+	getTargetName(): string {
+		return this.folder ? `"${this.folder.name}"` : 'the vault';
+	}
+
+	getApplyButtonText(): string {
+		return `Apply to ${this.selected.size} of ${this.previews.length} file(s)`;
+	}
+
+	onClose(): void {
+		const {contentEl} = this;
+		contentEl.empty();
+	}
+}
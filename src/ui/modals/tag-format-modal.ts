@@ -0,0 +1,67 @@
+/**
+ * Tag Format Confirmation Modal
+ * Handles user confirmation before normalizing the tag format of a folder or the whole vault
+ */
+
+import { App, Modal, TFolder } from 'obsidian';
+import { TagRenamerPlugin } from '../../types/plugin-types';
+
+export class TagFormatConfirmationModal extends Modal {
+	plugin: TagRenamerPlugin;
+	folder: TFolder | null;
+
+	constructor(app: App, plugin: TagRenamerPlugin, folder: TFolder | null) {
+		super(app);
+		this.plugin = plugin;
+		this.folder = folder;
+	}
+
+	onOpen(): void {
+		const {contentEl} = this;
+		contentEl.empty();
+
+		contentEl.createEl('h2', {text: 'Normalize Tag Format - Warning'});
+
+		contentEl.createEl('p', {
+			text: this.folder
+				? `⚠️ This action will modify files in the folder "${this.folder.name}" and all its subfolders.`
+				: '⚠️ This action will modify files across the whole vault.'
+		});
+
+		contentEl.createEl('p', {
+			text: 'IMPORTANT: Please backup your vault before proceeding. You can revert this operation with the "Undo last tag operation" command.'
+		});
+
+		const format = this.plugin.settings.tagFormat;
+		contentEl.createEl('p', {
+			text: `Tags will be written as ${format?.style === 'block' ? 'a block list (one "- tag" line per tag)' : 'a flow list (tags: [a, b])'}${format?.singleTagInline ? ', with a single tag written as tags: a' : ''}. Notes with both "tag" and "tags" get one merged list.`
+		});
+
+		contentEl.createEl('p', {
+			text: 'Example: tag: work, project → tags: [work, project]',
+			cls: 'setting-item-description'
+		});
+
+		const buttonContainer = contentEl.createDiv('modal-button-container');
+
+		const cancelButton = buttonContainer.createEl('button', {
+			text: 'Cancel',
+			cls: 'mod-cta'
+		});
+		cancelButton.onclick = () => this.close();
+
+		const proceedButton = buttonContainer.createEl('button', {
+			text: 'Normalize Format',
+			cls: 'mod-warning'
+		});
+		proceedButton.onclick = () => {
+			this.close();
+			this.plugin.normalizeTagFormat(this.folder);
+		};
+	}
+
+	onClose(): void {
+		const {contentEl} = this;
+		contentEl.empty();
+	}
+}
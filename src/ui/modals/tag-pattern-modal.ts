@@ -0,0 +1,68 @@
+/**
+ * Tag Pattern Modal
+ * Asks for the replacement of a single tag and adds the resulting rename pattern
+ */
+
+import { App, Modal, Setting } from 'obsidian';
+import { TagRenamerPlugin } from '../../types/plugin-types';
+
+export class TagPatternModal extends Modal {
+	plugin: TagRenamerPlugin;
+	tag: string;
+	replacement: string;
+
+	constructor(app: App, plugin: TagRenamerPlugin, tag: string) {
+		super(app);
+		this.plugin = plugin;
+		this.tag = tag;
+		this.replacement = tag;
+	}
+
+	onOpen(): void {
+		const {contentEl} = this;
+		contentEl.empty();
+
+		contentEl.createEl('h2', {text: 'Create Rename Pattern'});
+
+		new Setting(contentEl)
+			.setName(`Rename "${this.tag}" to`)
+			.addText(text => {
+				text.setValue(this.replacement)
+					.onChange(value => {
+						this.replacement = value.trim();
+					});
+				text.inputEl.addEventListener('keydown', (event: KeyboardEvent) => {
+					if (event.key === 'Enter') {
+						event.preventDefault();
+						this.submit();
+					}
+				});
+			});
+
+		const buttonContainer = contentEl.createDiv('modal-button-container');
+
+		const cancelButton = buttonContainer.createEl('button', {
+			text: 'Cancel'
+		});
+		cancelButton.onclick = () => this.close();
+
+		const addButton = buttonContainer.createEl('button', {
+			text: 'Add Pattern',
+			cls: 'mod-cta'
+		});
+		addButton.onclick = () => this.submit();
+	}
+
+	async submit(): Promise<void> {
+		if (!this.replacement || this.replacement === this.tag) {
+			return;
+		}
+		this.close();
+		await this.plugin.addRenamePattern({ search: this.tag, replace: this.replacement, matchMode: 'exact' });
+	}
+
+	onClose(): void {
+		const {contentEl} = this;
+		contentEl.empty();
+	}
+}
@@ -0,0 +1,81 @@
+/**
+ * Undo Confirmation Modal
+ * Confirms restoring the files touched by a journaled bulk operation and
+ * warns about files that were edited after the operation ran
+ */
+
+import { App, Modal } from 'obsidian';
+import { TagRenamerPlugin } from '../../types/plugin-types';
+import { JournalEntry } from '../../types/interfaces';
+
+export class UndoConfirmationModal extends Modal {
+	plugin: TagRenamerPlugin;
+	entry: JournalEntry;
+	changedFiles: string[];
+
+	constructor(app: App, plugin: TagRenamerPlugin, entry: JournalEntry, changedFiles: string[]) {
+		super(app);
+		this.plugin = plugin;
+		this.entry = entry;
+		this.changedFiles = changedFiles;
+	}
+
+	onOpen(): void {
+		const {contentEl} = this;
+		contentEl.empty();
+
+		contentEl.createEl('h2', {text: 'Undo Tag Operation'});
+
+		contentEl.createEl('p', {
+			text: `${this.entry.description} — ${new Date(this.entry.timestamp).toLocaleString()}`
+		});
+
+		contentEl.createEl('p', {
+			text: `${this.entry.files.length} file(s) will be restored to their content from before this operation.`
+		});
+
+		if (this.changedFiles.length > 0) {
+			contentEl.createEl('p', {
+				text: `⚠️ ${this.changedFiles.length} file(s) were changed or deleted since this operation ran. Restoring them will discard those later edits:`,
+				cls: 'mod-warning'
+			});
+
+			const changedList = contentEl.createEl('ul');
+			this.changedFiles.forEach(path => {
+				changedList.createEl('li', {text: path});
+			});
+		}
+
+		const buttonContainer = contentEl.createDiv('modal-button-container');
+
+		const cancelButton = buttonContainer.createEl('button', {
+			text: 'Cancel',
+			cls: 'mod-cta'
+		});
+		cancelButton.onclick = () => this.close();
+
+		if (this.changedFiles.length > 0) {
+			const safeButton = buttonContainer.createEl('button', {
+				text: 'Restore Unchanged Files Only'
+			});
+			safeButton.onclick = () => {
+				this.close();
+				this.plugin.undoJournalEntry(this.entry, false);
+			};
+		}
+
+		const undoButton = buttonContainer.createEl('button', {
+			text: this.changedFiles.length > 0 ? 'Restore All Files' : 'Undo',
+			cls: 'mod-warning'
+		});
+		undoButton.onclick = () => {
+			this.close();
+			this.plugin.undoJournalEntry(this.entry, true);
+		};
+	}
+
+	onClose(): void {
+		const {contentEl} = this;
+		contentEl.empty();
+	}
+}
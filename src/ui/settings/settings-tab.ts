@@ -3,19 +3,45 @@
  * Handles plugin configuration UI and pattern management
  */
 
-import { App, PluginSettingTab, Setting, Notice } from 'obsidian';
+import { App, PluginSettingTab, Setting, Notice, debounce } from 'obsidian';
 import { TagRenamerPlugin } from '../../types/plugin-types';
-import { RenamePattern, PropertyRenamePattern } from '../../types/interfaces';
-import { CSS_STYLES } from '../../constants/patterns';
+import { RenamePattern, PropertyRenamePattern, PropertyAction, PropertyConflictPolicy, PropertyValueRule, ValueRuleMode, MatchMode, TagTreeNode, TagScope, TagCluster, OperationScope, AutoNormalizeSettings, MaintenanceSettings, MaintenanceOperation, PatternOrder, PatternIssue, TagQuoteStyle, TagMatchingSettings, UnicodeNormalization, DuplicateSpelling, TagFormatSettings, TagListStyle, DiscoveredProperty, PropertyDiscoverySettings } from '../../types/interfaces';
+import { CSS_STYLES, DEFAULT_PROPERTY_DISCOVERY } from '../../constants/patterns';
 import { ImportPatternsModal } from '../modals/import-patterns-modal';
+import { TagProcessor } from '../../services/TagProcessor';
+import { PropertyValueProcessor } from '../../services/PropertyValueProcessor';
+import { PatternAnalyzer } from '../../services/PatternAnalyzer';
+import { TagSimilarityService } from '../../services/TagSimilarityService';
+import { MAINTENANCE_OPERATION_LABELS } from '../../services/MaintenanceService';
+
+const ISSUE_LABELS: Record<PatternIssue['type'], string> = {
+	chain: 'part of a chain',
+	cycle: 'part of a cycle',
+	duplicate: 'duplicate search',
+	shadowed: 'shadowed by a remove pattern'
+};
 
 export class TagRenamerSettingTab extends PluginSettingTab {
 	plugin: TagRenamerPlugin;
 	allTags: string[] = [];
+	foundProperties: DiscoveredProperty[] | null = null;
+	similarClusters: TagCluster[] | null = null;
+	private similarTagCounts = new Map<string, number>();
+	private tagProcessor: TagProcessor;
+	private valueProcessor: PropertyValueProcessor;
+	private similarityService: TagSimilarityService;
+	private patternAnalyzer: PatternAnalyzer;
+	private patternIssuesEl: HTMLElement | null = null;
+	private patternWarningEls: HTMLElement[] = [];
+	private unsubscribeTagIndex: (() => void) | null = null;
 
 	constructor(app: App, plugin: TagRenamerPlugin) {
 		super(app, plugin);
 		this.plugin = plugin;
+		this.tagProcessor = new TagProcessor();
+		this.valueProcessor = new PropertyValueProcessor();
+		this.similarityService = new TagSimilarityService();
+		this.patternAnalyzer = new PatternAnalyzer();
 	}
 
 	async display(): Promise<void> {
@@ -53,8 +79,53 @@ export class TagRenamerSettingTab extends PluginSettingTab {
 					button.setDisabled(false);
 				}));
 
+		new Setting(tagDiscoveryContainer)
+			.setName('Tag Statistics')
+			.setDesc('Open a view with file counts, usage location and last-used dates for every tag')
+			.addButton(button => button
+				.setButtonText('Open Statistics')
+				.onClick(async () => {
+					await this.plugin.openTagStatsView();
+				}));
+
+		new Setting(tagDiscoveryContainer)
+			.setName('Merge Tags')
+			.setDesc('Fold several tags (e.g. todo, to-do, TODO) into one canonical tag across the vault')
+			.addButton(button => button
+				.setButtonText('Merge Tags...')
+				.onClick(async () => {
+					await this.plugin.showMergeTagsModal();
+				}));
+
+		const similarTagsContainer = containerEl.createDiv();
+
+		new Setting(similarTagsContainer)
+			.setName('Similar Tags')
+			.setDesc('Find likely duplicates that differ in case, separators, plural form or spelling')
+			.addButton(button => button
+				.setButtonText('Find Similar Tags')
+				.onClick(async () => {
+					button.setButtonText('Analyzing...');
+					button.setDisabled(true);
+					try {
+						const stats = await this.plugin.getTagStats();
+						this.similarTagCounts = new Map(stats.map(stat => [stat.tag, stat.fileCount]));
+						this.similarClusters = this.similarityService.findClusters(stats.map(stat => stat.tag), this.similarTagCounts);
+						this.displaySimilarTags(similarTagsContainer);
+						new Notice(`Found ${this.similarClusters.length} groups of similar tags`);
+					} catch (error) {
+						new Notice('Error analyzing tags: ' + (error instanceof Error ? error.message : String(error)));
+					}
+					button.setButtonText('Find Similar Tags');
+					button.setDisabled(false);
+				}));
+
 		this.displayFoundTags(tagDiscoveryContainer);
 
+		if (this.similarClusters) {
+			this.displaySimilarTags(similarTagsContainer);
+		}
+
 		// Property Discovery Section
 		new Setting(containerEl)
 			.setName('Property Discovery')
@@ -74,7 +145,8 @@ export class TagRenamerSettingTab extends PluginSettingTab {
 					button.setDisabled(true);
 					
 					try {
-						const properties = await this.plugin.findCustomTagPropertiesInVault();
+						const properties = await this.plugin.discoverProperties();
+						this.foundProperties = properties;
 						this.displayFoundProperties(propertyDiscoveryContainer, properties);
 						new Notice(`Found ${properties.length} custom tag properties`);
 					} catch (error) {
@@ -85,11 +157,19 @@ export class TagRenamerSettingTab extends PluginSettingTab {
 					button.setDisabled(false);
 				}));
 
+		this.createPropertyDiscoveryRules(propertyDiscoveryContainer);
+
+		if (this.foundProperties) {
+			this.displayFoundProperties(propertyDiscoveryContainer, this.foundProperties);
+		}
+
+		this.watchTagIndex(tagDiscoveryContainer, propertyDiscoveryContainer);
+
 		// Property Rename Patterns Section
 		const propertyPatternsCount = this.plugin.settings.propertyRenamePatterns?.length || 0;
 		const propertyDesc = propertyPatternsCount > 0 
-			? `Define patterns to rename property names across your vault (${propertyPatternsCount} configured)`
-			: 'Define patterns to rename property names across your vault. Example: "🗄️ Tags Database" → "tags"';
+			? `Define patterns to rename, delete or set properties across your vault (${propertyPatternsCount} configured)`
+			: 'Define patterns to rename, delete or set properties across your vault. Example: "🗄️ Tags Database" → "tags", or add "reviewed: false" where it is missing';
 			
 		new Setting(containerEl)
 			.setName('Property Rename Patterns')
@@ -133,6 +213,40 @@ export class TagRenamerSettingTab extends PluginSettingTab {
 				this.display();
 			}));
 
+		new Setting(containerEl)
+			.setName('When the new name already exists')
+			.setDesc('What happens in notes that already have the target property. Every conflict is listed after the run.')
+			.addDropdown(dropdown => dropdown
+				.addOption('merge', 'Merge the values into it')
+				.addOption('skip', 'Skip the note')
+				.addOption('overwrite', 'Overwrite it')
+				.addOption('suffix', 'Keep both (rename to name_2)')
+				.setValue(this.plugin.settings.propertyConflictPolicy || 'merge')
+				.onChange(async (value) => {
+					this.plugin.settings.propertyConflictPolicy = value as PropertyConflictPolicy;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Migrate property type')
+			.setDesc('Convert a property to a list, text, number, date or checkbox after renaming it, e.g. turn "a, [[b]]" strings into real lists. Values that cannot be converted are reported.')
+			.addButton(button => button
+				.setButtonText('Migrate...')
+				.onClick(async () => {
+					await this.plugin.showPropertyMigrationModal(null);
+				}));
+
+		new Setting(containerEl)
+			.setName('Convert between property and tags')
+			.setDesc('Turn property values into nested tags (project: apollo → project/apollo) or nested tags back into a property, merging with what the note already has')
+			.addButton(button => button
+				.setButtonText('Convert...')
+				.onClick(async () => {
+					await this.plugin.showPropertyTagConversionModal(null);
+				}));
+
+		this.createPropertyValueRulesSection(containerEl);
+
 		// Export/Import Section
 		new Setting(containerEl)
 			.setName('Export & Import')
@@ -141,7 +255,7 @@ export class TagRenamerSettingTab extends PluginSettingTab {
 
 		new Setting(containerEl)
 			.setName('Export Patterns')
-			.setDesc('Export all current tag and property patterns to JSON file')
+			.setDesc('Export the tag and property patterns of the active set, together with the property value rules, to a JSON file')
 			.addButton(button => button
 				.setButtonText('Export to JSON')
 				.setIcon('download')
@@ -151,7 +265,7 @@ export class TagRenamerSettingTab extends PluginSettingTab {
 
 		new Setting(containerEl)
 			.setName('Import Patterns')
-			.setDesc('Import tag and property patterns from JSON file')
+			.setDesc('Import tag and property patterns from a JSON file into the active set, or as a new pattern set. Property value rules are added to the value rule list.')
 			.addButton(button => button
 				.setButtonText('Import from JSON')
 				.setIcon('upload')
@@ -159,12 +273,59 @@ export class TagRenamerSettingTab extends PluginSettingTab {
 					this.importPatterns();
 				}));
 
+		this.createPatternSetSection(containerEl);
+		this.createOperationScopeSection(containerEl);
+
 		// Rename Patterns Section
 		new Setting(containerEl)
 			.setName('Tag Rename Patterns')
 			.setDesc('Define patterns to rename tags across your vault')
 			.setHeading();
 
+		new Setting(containerEl)
+			.setName('Rename Scope')
+			.setDesc('Apply patterns to frontmatter tags, inline #tags in the note body, or both. Code blocks, inline code and URLs are never changed.')
+			.addDropdown(dropdown => dropdown
+				.addOption('frontmatter', 'Frontmatter only')
+				.addOption('body', 'Body only')
+				.addOption('both', 'Frontmatter and body')
+				.setValue(this.plugin.settings.tagScope || 'frontmatter')
+				.onChange(async (value) => {
+					this.plugin.settings.tagScope = value as TagScope;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Pattern Order')
+			.setDesc('In sequence, each pattern sees the result of the ones above it, so "a → b" followed by "b → c" turns a into c. In parallel, every pattern sees the original tag and the first match wins.')
+			.addDropdown(dropdown => dropdown
+				.addOption('sequential', 'In sequence')
+				.addOption('parallel', 'In parallel')
+				.setValue(this.plugin.settings.patternOrder || 'sequential')
+				.onChange(async (value) => {
+					this.plugin.settings.patternOrder = value as PatternOrder;
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+
+		new Setting(containerEl)
+			.setName('Tag Quoting')
+			.setDesc('How renamed tags are written. Tags that don\'t change always keep their original quotes, and lists keep their indentation and style.')
+			.addDropdown(dropdown => dropdown
+				.addOption('match', 'Like the tag it replaces')
+				.addOption('plain', 'Quote only when needed')
+				.addOption('double', 'Always "double" quotes')
+				.addOption('single', 'Always \'single\' quotes')
+				.setValue(this.plugin.settings.tagQuoteStyle || 'match')
+				.onChange(async (value) => {
+					this.plugin.settings.tagQuoteStyle = value as TagQuoteStyle;
+					await this.plugin.saveSettings();
+				}));
+
+		// Chains, cycles, duplicates and shadowed patterns are listed above the patterns they affect
+		this.patternIssuesEl = containerEl.createDiv('pattern-issues');
+		this.patternWarningEls = [];
+
 		// Add column headers
 		if (this.plugin.settings.renamePatterns.length > 0) {
 			this.createPatternHeaders(containerEl);
@@ -173,6 +334,7 @@ export class TagRenamerSettingTab extends PluginSettingTab {
 		this.plugin.settings.renamePatterns.forEach((pattern, index) => {
 			this.createPatternSetting(containerEl, pattern, index);
 		});
+		this.renderPatternIssues();
 
 		// Action buttons
 		const actionSetting = new Setting(containerEl);
@@ -184,6 +346,10 @@ export class TagRenamerSettingTab extends PluginSettingTab {
 				.setIcon('arrow-up-down')
 				.setTooltip('Sort by mode (replace first, then remove) and alphabetically')
 				.onClick(async () => {
+					if (this.patternAnalyzer.isOrderSensitive(this.plugin.settings.renamePatterns, this.plugin.settings.patternOrder === 'parallel', this.plugin.settings.tagMatching)) {
+						new Notice('Sorting would change what these patterns do: some of them can match the same tag or rename into each other.');
+						return;
+					}
 					this.sortPatterns();
 					await this.plugin.saveSettings();
 					this.display();
@@ -196,10 +362,664 @@ export class TagRenamerSettingTab extends PluginSettingTab {
 			.setButtonText('Add Pattern')
 			.setCta()
 			.onClick(() => {
-				this.plugin.settings.renamePatterns.push({ search: '', replace: '', removeMode: false });
+				this.plugin.settings.renamePatterns.push({ search: '', replace: '', removeMode: false, matchMode: 'exact' });
 				this.plugin.saveSettings();
 				this.display();
 			}));
+
+		this.createTagMatchingSection(containerEl);
+		this.createTagFormatSection(containerEl);
+		this.createAutoNormalizeSection(containerEl);
+		this.createMaintenanceSection(containerEl);
+	}
+
+	createTagMatchingSection(containerEl: HTMLElement): void {
+		new Setting(containerEl)
+			.setName('Tag Matching')
+			.setDesc('How tags are compared. Patterns set to "Default" in their Case and Unicode columns use these options.')
+			.setHeading();
+
+		const options = this.getTagMatchingSettings();
+
+		new Setting(containerEl)
+			.setName('Ignore case')
+			.setDesc('Match Work, work and WORK with the same pattern')
+			.addToggle(toggle => toggle
+				.setValue(options.caseInsensitive)
+				.onChange(async (value) => {
+					options.caseInsensitive = value;
+					await this.plugin.saveSettings();
+					this.renderPatternIssues();
+				}));
+
+		new Setting(containerEl)
+			.setName('Unicode normalization')
+			.setDesc('NFC treats composed and decomposed accents (é) as the same character. NFKC also folds compatibility forms such as full-width ＷＯＲＫ into WORK.')
+			.addDropdown(dropdown => dropdown
+				.addOption('none', 'None')
+				.addOption('NFC', 'NFC')
+				.addOption('NFKC', 'NFKC')
+				.setValue(options.unicodeNormalization)
+				.onChange(async (value) => {
+					options.unicodeNormalization = value as UnicodeNormalization;
+					await this.plugin.saveSettings();
+					this.renderPatternIssues();
+				}));
+
+		new Setting(containerEl)
+			.setName('Merge case and Unicode variants as duplicates')
+			.setDesc('Duplicate removal treats tags that only differ in case or Unicode form as the same tag')
+			.addToggle(toggle => toggle
+				.setValue(options.dedupeVariants)
+				.onChange(async (value) => {
+					options.dedupeVariants = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Spelling to keep')
+			.setDesc('Which variant survives. The canonical target is the replacement of an exact rename pattern (or the merge target); without one the first occurrence is kept.')
+			.addDropdown(dropdown => dropdown
+				.addOption('first', 'First occurrence')
+				.addOption('canonical', 'Canonical target')
+				.addOption('lowercase', 'Lowercase')
+				.setValue(options.keepSpelling)
+				.onChange(async (value) => {
+					options.keepSpelling = value as DuplicateSpelling;
+					await this.plugin.saveSettings();
+				}));
+	}
+
+	createTagFormatSection(containerEl: HTMLElement): void {
+		new Setting(containerEl)
+			.setName('Tag Format')
+			.setDesc('The shape "Normalize tag format" writes. It turns tag: into tags:, merges notes that have both, and splits "a, b c" strings into lists.')
+			.setHeading();
+
+		const format = this.getTagFormatSettings();
+
+		new Setting(containerEl)
+			.setName('List style')
+			.addDropdown(dropdown => dropdown
+				.addOption('flow', 'Flow list: tags: [a, b]')
+				.addOption('block', 'Block list: one "- tag" line per tag')
+				.setValue(format.style)
+				.onChange(async (value) => {
+					format.style = value as TagListStyle;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Write a single tag inline')
+			.setDesc('Notes with only one tag get tags: a instead of a one-item list')
+			.addToggle(toggle => toggle
+				.setValue(format.singleTagInline)
+				.onChange(async (value) => {
+					format.singleTagInline = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Normalize tag format')
+			.setDesc('Apply the format to every note in the operation scope')
+			.addButton(button => button
+				.setButtonText('Normalize Vault')
+				.onClick(() => {
+					this.plugin.showTagFormatConfirmation(null);
+				}));
+	}
+
+	createPropertyValueRulesSection(containerEl: HTMLElement): void {
+		const rules = this.getPropertyValueRules();
+
+		new Setting(containerEl)
+			.setName('Property Value Rules')
+			.setDesc('Rewrite property values, e.g. status: in-progress → doing. Rules run top to bottom, list values are rewritten item by item, and quotes and list style are kept.')
+			.setHeading();
+
+		if (rules.length > 0) {
+			this.createValueRuleHeaders(containerEl);
+		}
+
+		rules.forEach((rule, index) => {
+			this.createValueRuleSetting(containerEl, rule, index);
+		});
+
+		new Setting(containerEl)
+			.addButton(button => button
+				.setButtonText('Add Value Rule')
+				.setCta()
+				.onClick(async () => {
+					rules.push({ property: '', search: '', replace: '', mode: 'exact' });
+					await this.plugin.saveSettings();
+					this.display();
+				}))
+			.addButton(button => button
+				.setButtonText('Apply to Vault')
+				.onClick(() => {
+					this.plugin.showPropertyValueConfirmation(null);
+				}));
+	}
+
+	createValueRuleHeaders(containerEl: HTMLElement): void {
+		const headerSetting = new Setting(containerEl)
+			.setClass('value-rule-header');
+
+		const headerControl = headerSetting.settingEl.querySelector('.setting-item-control');
+		if (headerControl instanceof HTMLElement) {
+			headerControl.innerHTML = '';
+			headerControl.style.cssText = CSS_STYLES.HEADER_CONTROL;
+
+			const columns: [string, string][] = [['Property', '22%'], ['Mode', '16%'], ['Value', '26%'], ['New Value', '26%'], ['Action', '10%']];
+			columns.forEach(([text, width]) => {
+				const header = headerControl.createEl('div', { text });
+				header.style.width = width;
+			});
+		}
+
+		const settingInfo = headerSetting.settingEl.querySelector('.setting-item-info');
+		if (settingInfo instanceof HTMLElement) {
+			settingInfo.style.display = 'none';
+		}
+	}
+
+	createValueRuleSetting(containerEl: HTMLElement, rule: PropertyValueRule, index: number): void {
+		const rules = this.getPropertyValueRules();
+		let errorEl: HTMLElement | null = null;
+		const setting = new Setting(containerEl)
+			.addText(text => text
+				.setPlaceholder('Property...')
+				.setValue(rule.property)
+				.onChange(async (value) => {
+					rules[index].property = value;
+					await this.plugin.saveSettings();
+				}))
+			.addDropdown(dropdown => dropdown
+				.addOption('exact', 'Exact')
+				.addOption('regex', 'Regex')
+				.addOption('unlink', 'Strip links')
+				.setValue(rule.mode || 'exact')
+				.onChange(async (value) => {
+					rules[index].mode = value as ValueRuleMode;
+					if (errorEl) {
+						this.updateValueRuleError(errorEl, rules[index]);
+					}
+					await this.plugin.saveSettings();
+				}))
+			.addText(text => text
+				.setPlaceholder(rule.mode === 'unlink' ? 'Not used' : 'Current value...')
+				.setValue(rule.search)
+				.onChange(async (value) => {
+					rules[index].search = value;
+					if (errorEl) {
+						this.updateValueRuleError(errorEl, rules[index]);
+					}
+					await this.plugin.saveSettings();
+				}))
+			.addText(text => text
+				.setPlaceholder(rule.mode === 'regex' ? 'New value ($1 for groups)...' : 'New value...')
+				.setValue(rule.replace)
+				.onChange(async (value) => {
+					rules[index].replace = value;
+					await this.plugin.saveSettings();
+				}))
+			.addButton(button => button
+				.setIcon('trash')
+				.setTooltip('Remove value rule')
+				.onClick(async () => {
+					rules.splice(index, 1);
+					await this.plugin.saveSettings();
+					this.display();
+				}));
+
+		const settingControl = setting.settingEl.querySelector('.setting-item-control');
+		if (settingControl instanceof HTMLElement) {
+			settingControl.style.cssText = CSS_STYLES.PATTERN_CONTROL;
+
+			const elements = settingControl.children;
+			if (elements.length >= 5) {
+				(elements[0] as HTMLElement).style.width = '22%'; // Property input
+				(elements[1] as HTMLElement).style.width = '16%'; // Mode dropdown
+				(elements[2] as HTMLElement).style.width = '26%'; // Value input
+				(elements[3] as HTMLElement).style.width = '26%'; // New value input
+				(elements[4] as HTMLElement).style.width = '10%'; // Delete button
+				(elements[4] as HTMLElement).style.textAlign = 'center';
+			}
+		}
+
+		const settingInfo = setting.settingEl.querySelector('.setting-item-info');
+		if (settingInfo instanceof HTMLElement) {
+			settingInfo.style.display = 'none';
+		}
+
+		// Optional condition: only rewrite notes where another property has a given value
+		new Setting(containerEl)
+			.setName('Only when')
+			.setDesc('Leave the property empty to apply the rule to every note')
+			.addText(text => text
+				.setPlaceholder('Property, e.g. type')
+				.setValue(rule.condition?.property || '')
+				.onChange(async (value) => {
+					rules[index].condition = { property: value, value: rules[index].condition?.value || '' };
+					await this.plugin.saveSettings();
+				}))
+			.addText(text => text
+				.setPlaceholder('Value, e.g. project')
+				.setValue(rule.condition?.value || '')
+				.onChange(async (value) => {
+					rules[index].condition = { property: rules[index].condition?.property || '', value };
+					await this.plugin.saveSettings();
+				}));
+
+		errorEl = containerEl.createDiv('pattern-error');
+		errorEl.style.cssText = CSS_STYLES.PATTERN_ERROR;
+		this.updateValueRuleError(errorEl, rule);
+	}
+
+	updateValueRuleError(errorEl: HTMLElement, rule: PropertyValueRule): void {
+		const error = rule.search ? this.valueProcessor.validateRule(rule) : null;
+		errorEl.textContent = error ? `Invalid pattern: ${error}` : '';
+		errorEl.style.display = error ? 'block' : 'none';
+	}
+
+	getPropertyValueRules(): PropertyValueRule[] {
+		if (!this.plugin.settings.propertyValueRules) {
+			this.plugin.settings.propertyValueRules = [];
+		}
+		return this.plugin.settings.propertyValueRules;
+	}
+
+	getTagFormatSettings(): TagFormatSettings {
+		if (!this.plugin.settings.tagFormat) {
+			this.plugin.settings.tagFormat = { style: 'flow', singleTagInline: false };
+		}
+		return this.plugin.settings.tagFormat;
+	}
+
+	getTagMatchingSettings(): TagMatchingSettings {
+		if (!this.plugin.settings.tagMatching) {
+			this.plugin.settings.tagMatching = { caseInsensitive: false, unicodeNormalization: 'none', dedupeVariants: false, keepSpelling: 'first' };
+		}
+		return this.plugin.settings.tagMatching;
+	}
+
+	getPropertyDiscoverySettings(): PropertyDiscoverySettings {
+		if (!this.plugin.settings.propertyDiscovery) {
+			this.plugin.settings.propertyDiscovery = { ...DEFAULT_PROPERTY_DISCOVERY, excludedProperties: [...DEFAULT_PROPERTY_DISCOVERY.excludedProperties] };
+		}
+		return this.plugin.settings.propertyDiscovery;
+	}
+
+	createPropertyDiscoveryRules(containerEl: HTMLElement): void {
+		const options = this.getPropertyDiscoverySettings();
+
+		new Setting(containerEl)
+			.setName('Excluded properties')
+			.setDesc('One property per line, matched case-insensitively. These are never suggested as tag properties.')
+			.addTextArea(text => text
+				.setPlaceholder('title')
+				.setValue(options.excludedProperties.join('\n'))
+				.onChange(async (value) => {
+					options.excludedProperties = value.split('\n').map(name => name.trim()).filter(name => name.length > 0);
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Maximum value length')
+			.setDesc('Longer values are treated as text rather than tags')
+			.addText(text => text
+				.setPlaceholder(String(DEFAULT_PROPERTY_DISCOVERY.maxValueLength))
+				.setValue(String(options.maxValueLength))
+				.onChange(async (value) => {
+					const length = Number(value);
+					if (Number.isInteger(length) && length > 0) {
+						options.maxValueLength = length;
+						await this.plugin.saveSettings();
+					}
+				}));
+
+		new Setting(containerEl)
+			.setName('Count single values')
+			.setDesc('Let properties holding a single word (e.g. "type: meeting") count towards the confidence, not only lists')
+			.addToggle(toggle => toggle
+				.setValue(options.countSingleValues)
+				.onChange(async (value) => {
+					options.countSingleValues = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Minimum confidence')
+			.setDesc('Only suggest properties whose values look like tags in at least this share of notes (in %). Scan again to apply changed rules.')
+			.addSlider(slider => slider
+				.setLimits(0, 100, 5)
+				.setValue(options.minConfidence)
+				.setDynamicTooltip()
+				.onChange(async (value) => {
+					options.minConfidence = value;
+					await this.plugin.saveSettings();
+				}));
+	}
+
+	createAutoNormalizeSection(containerEl: HTMLElement): void {
+		new Setting(containerEl)
+			.setName('Automatic Normalization')
+			.setDesc('Apply the rename patterns to notes shortly after they change, so new notes never bring old tags back. The note you are editing is processed once you switch to another note.')
+			.setHeading();
+
+		const options = this.getAutoNormalizeSettings();
+
+		new Setting(containerEl)
+			.setName('Normalize changed notes')
+			.setDesc('Off by default. Changes made this way are not recorded in the undo history.')
+			.addToggle(toggle => toggle
+				.setValue(options.enabled)
+				.onChange(async (value) => {
+					options.enabled = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Delay (seconds)')
+			.setDesc('How long a note must stay unchanged before it is normalized')
+			.addText(text => text
+				.setPlaceholder('5')
+				.setValue(String(options.delaySeconds))
+				.onChange(async (value) => {
+					const seconds = Number(value);
+					if (!isNaN(seconds) && seconds >= 0) {
+						options.delaySeconds = seconds;
+						await this.plugin.saveSettings();
+					}
+				}));
+
+		new Setting(containerEl)
+			.setName('Remove duplicate tags')
+			.setDesc('Also remove duplicate frontmatter tags from normalized notes')
+			.addToggle(toggle => toggle
+				.setValue(options.removeDuplicates)
+				.onChange(async (value) => {
+					options.removeDuplicates = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Excluded paths')
+			.setDesc('One glob per line. Notes matching any of them are never normalized automatically.')
+			.addTextArea(text => text
+				.setPlaceholder('Templates/**')
+				.setValue(options.excludeGlobs.join('\n'))
+				.onChange(async (value) => {
+					options.excludeGlobs = value.split('\n').map(glob => glob.trim()).filter(glob => glob.length > 0);
+					await this.plugin.saveSettings();
+				}));
+	}
+
+	createPatternSetSection(containerEl: HTMLElement): void {
+		new Setting(containerEl)
+			.setName('Pattern Sets')
+			.setDesc('Each set holds its own tag patterns, property patterns and operation scope. The patterns and scope below belong to the active set.')
+			.setHeading();
+
+		const sets = this.plugin.getPatternSets();
+		const activeId = this.plugin.settings.activePatternSetId;
+
+		new Setting(containerEl)
+			.setName('Active set')
+			.setDesc('Used by the commands, menus and automatic runs. Folders can also be renamed with any set from the folder menu.')
+			.addDropdown(dropdown => {
+				sets.forEach(set => dropdown.addOption(set.id, set.name));
+				dropdown
+					.setValue(activeId || sets[0].id)
+					.onChange(async (value) => {
+						await this.plugin.switchPatternSet(value);
+						this.display();
+					});
+			});
+
+		sets.forEach(set => {
+			const resolved = this.plugin.getPatternSet(set.id);
+			new Setting(containerEl)
+				.setDesc(`${resolved.renamePatterns.length} tag pattern(s), ${resolved.propertyRenamePatterns.length} property pattern(s)${set.id === activeId ? ' · active' : ''}`)
+				.addText(text => text
+					.setValue(set.name)
+					.onChange(async (value) => {
+						await this.plugin.renamePatternSet(set.id, value);
+					}))
+				.addExtraButton(button => button
+					.setIcon('download')
+					.setTooltip('Export this set')
+					.onClick(() => {
+						this.exportPatterns(set.id);
+					}))
+				.addExtraButton(button => button
+					.setIcon('copy')
+					.setTooltip('Duplicate')
+					.onClick(async () => {
+						await this.plugin.duplicatePatternSet(set.id);
+						this.display();
+					}))
+				.addExtraButton(button => button
+					.setIcon('trash')
+					.setTooltip('Delete')
+					.setDisabled(sets.length === 1)
+					.onClick(async () => {
+						if (await this.plugin.deletePatternSet(set.id)) {
+							this.display();
+						}
+					}));
+		});
+
+		new Setting(containerEl)
+			.addButton(button => button
+				.setButtonText('New Set')
+				.onClick(async () => {
+					await this.plugin.createPatternSet('New set');
+					this.display();
+				}));
+	}
+
+	createOperationScopeSection(containerEl: HTMLElement): void {
+		new Setting(containerEl)
+			.setName('Operation Scope')
+			.setDesc('Limit which notes the tag, property, duplicate and TOC operations touch, both for folders and the vault-wide commands')
+			.setHeading();
+
+		const scope = this.getOperationScope();
+		const parseGlobs = (value: string) => value.split('\n').map(glob => glob.trim()).filter(glob => glob.length > 0);
+
+		new Setting(containerEl)
+			.setName('Include paths')
+			.setDesc('One glob per line, e.g. "Projects/**". Leave empty to include every note.')
+			.addTextArea(text => text
+				.setPlaceholder('Projects/**')
+				.setValue(scope.includeGlobs.join('\n'))
+				.onChange(async (value) => {
+					scope.includeGlobs = parseGlobs(value);
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Exclude paths')
+			.setDesc('One glob per line. A folder name without wildcards excludes everything inside it.')
+			.addTextArea(text => text
+				.setPlaceholder('Templates/**\nArchive/**')
+				.setValue(scope.excludeGlobs.join('\n'))
+				.onChange(async (value) => {
+					scope.excludeGlobs = parseGlobs(value);
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Frontmatter filter')
+			.setDesc('Only touch notes where this property has this value (e.g. type = meeting). Leave the value empty to require just the property.')
+			.addText(text => text
+				.setPlaceholder('property')
+				.setValue(scope.frontmatterFilter?.property || '')
+				.onChange(async (value) => {
+					scope.frontmatterFilter = { property: value.trim(), value: scope.frontmatterFilter?.value || '' };
+					await this.plugin.saveSettings();
+				}))
+			.addText(text => text
+				.setPlaceholder('value')
+				.setValue(scope.frontmatterFilter?.value || '')
+				.onChange(async (value) => {
+					scope.frontmatterFilter = { property: scope.frontmatterFilter?.property || '', value: value.trim() };
+					await this.plugin.saveSettings();
+				}));
+	}
+
+	getOperationScope(): OperationScope {
+		if (!this.plugin.settings.operationScope) {
+			this.plugin.settings.operationScope = { includeGlobs: [], excludeGlobs: [] };
+		}
+		return this.plugin.settings.operationScope;
+	}
+
+	createMaintenanceSection(containerEl: HTMLElement): void {
+		new Setting(containerEl)
+			.setName('Scheduled Maintenance')
+			.setDesc('Run a sequence of vault-wide operations on startup or every few hours. Each run writes a summary report note and can be undone from the operation history.')
+			.setHeading();
+
+		const options = this.getMaintenanceSettings();
+
+		new Setting(containerEl)
+			.setName('Run on startup')
+			.addToggle(toggle => toggle
+				.setValue(options.runOnStartup)
+				.onChange(async (value) => {
+					options.runOnStartup = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Run every (hours)')
+			.setDesc('While Obsidian is open. 0 turns periodic runs off.')
+			.addText(text => text
+				.setPlaceholder('0')
+				.setValue(String(options.intervalHours))
+				.onChange(async (value) => {
+					const hours = Number(value);
+					if (!isNaN(hours) && hours >= 0) {
+						options.intervalHours = hours;
+						await this.plugin.saveSettings();
+					}
+				}));
+
+		new Setting(containerEl)
+			.setName('Report note')
+			.setDesc('Overwritten after every run and never processed itself')
+			.addText(text => text
+				.setPlaceholder('Tag Renamer maintenance report.md')
+				.setValue(options.reportPath)
+				.onChange(async (value) => {
+					options.reportPath = value.trim();
+					await this.plugin.saveSettings();
+				}));
+
+		options.operations.forEach((operation, index) => {
+			new Setting(containerEl)
+				.setName(`${index + 1}. ${MAINTENANCE_OPERATION_LABELS[operation]}`)
+				.addExtraButton(button => button
+					.setIcon('arrow-up')
+					.setTooltip('Move up')
+					.setDisabled(index === 0)
+					.onClick(async () => {
+						this.moveMaintenanceOperation(options, index, -1);
+						await this.plugin.saveSettings();
+						this.display();
+					}))
+				.addExtraButton(button => button
+					.setIcon('arrow-down')
+					.setTooltip('Move down')
+					.setDisabled(index === options.operations.length - 1)
+					.onClick(async () => {
+						this.moveMaintenanceOperation(options, index, 1);
+						await this.plugin.saveSettings();
+						this.display();
+					}))
+				.addExtraButton(button => button
+					.setIcon('trash')
+					.setTooltip('Remove from the sequence')
+					.onClick(async () => {
+						options.operations.splice(index, 1);
+						await this.plugin.saveSettings();
+						this.display();
+					}));
+		});
+
+		const available = (Object.keys(MAINTENANCE_OPERATION_LABELS) as MaintenanceOperation[])
+			.filter(operation => !options.operations.includes(operation));
+
+		const actionSetting = new Setting(containerEl);
+		if (available.length > 0) {
+			actionSetting.addDropdown(dropdown => {
+				dropdown.addOption('', 'Add operation...');
+				available.forEach(operation => dropdown.addOption(operation, MAINTENANCE_OPERATION_LABELS[operation]));
+				dropdown.onChange(async (value) => {
+					if (value) {
+						options.operations.push(value as MaintenanceOperation);
+						await this.plugin.saveSettings();
+						this.display();
+					}
+				});
+			});
+		}
+		actionSetting.addButton(button => button
+			.setButtonText('Run now')
+			.setDisabled(options.operations.length === 0)
+			.onClick(async () => {
+				await this.plugin.runMaintenance();
+			}));
+	}
+
+	moveMaintenanceOperation(options: MaintenanceSettings, index: number, offset: number): void {
+		const target = index + offset;
+		if (target < 0 || target >= options.operations.length) {
+			return;
+		}
+		const [operation] = options.operations.splice(index, 1);
+		options.operations.splice(target, 0, operation);
+	}
+
+	getMaintenanceSettings(): MaintenanceSettings {
+		if (!this.plugin.settings.maintenance) {
+			this.plugin.settings.maintenance = { runOnStartup: false, intervalHours: 0, operations: [], reportPath: 'Tag Renamer maintenance report.md' };
+		}
+		return this.plugin.settings.maintenance;
+	}
+
+	getAutoNormalizeSettings(): AutoNormalizeSettings {
+		if (!this.plugin.settings.autoNormalize) {
+			this.plugin.settings.autoNormalize = { enabled: false, delaySeconds: 5, removeDuplicates: true, excludeGlobs: [] };
+		}
+		return this.plugin.settings.autoNormalize;
+	}
+
+	hide(): void {
+		this.unsubscribeTagIndex?.();
+		this.unsubscribeTagIndex = null;
+	}
+
+	/**
+	 * Refreshes already discovered tags and properties when notes change, instead of requiring a new scan
+	 */
+	watchTagIndex(tagContainer: HTMLElement, propertyContainer: HTMLElement): void {
+		this.unsubscribeTagIndex?.();
+
+		const refresh = debounce(async () => {
+			if (this.allTags.length > 0) {
+				this.allTags = await this.plugin.getAllTagsInVault();
+				this.displayFoundTags(tagContainer);
+			}
+			if (this.foundProperties) {
+				this.foundProperties = await this.plugin.discoverProperties();
+				this.displayFoundProperties(propertyContainer, this.foundProperties);
+			}
+		}, 1000, true);
+
+		this.unsubscribeTagIndex = this.plugin.onTagIndexChange(refresh);
 	}
 
 	createPatternHeaders(containerEl: HTMLElement): void {
@@ -213,14 +1033,23 @@ export class TagRenamerSettingTab extends PluginSettingTab {
 			headerControl.style.cssText = CSS_STYLES.HEADER_CONTROL;
 
 			const searchHeader = headerControl.createEl('div', {text: 'Search'});
-			searchHeader.style.width = '35%';
+			searchHeader.style.width = '25%';
+
+			const modeHeader = headerControl.createEl('div', {text: 'Mode'});
+			modeHeader.style.width = '90px';
+
+			const caseHeader = headerControl.createEl('div', {text: 'Case'});
+			caseHeader.style.width = '80px';
+
+			const unicodeHeader = headerControl.createEl('div', {text: 'Unicode'});
+			unicodeHeader.style.width = '80px';
 
 			const removeHeader = headerControl.createEl('div', {text: 'Remove'});
 			removeHeader.style.width = '60px';
 			removeHeader.style.textAlign = 'center';
 
 			const replaceHeader = headerControl.createEl('div', {text: 'Replace With'});
-			replaceHeader.style.width = '35%';
+			replaceHeader.style.width = '25%';
 
 			const actionHeader = headerControl.createEl('div', {text: 'Action'});
 			actionHeader.style.width = '40px';
@@ -235,12 +1064,59 @@ export class TagRenamerSettingTab extends PluginSettingTab {
 	}
 
 	createPatternSetting(containerEl: HTMLElement, pattern: RenamePattern, index: number): void {
+		let errorEl: HTMLElement | null = null;
 		const setting = new Setting(containerEl)
 			.addText(text => text
-				.setPlaceholder('Search for...')
+				.setPlaceholder(this.getSearchPlaceholder(pattern.matchMode))
 				.setValue(pattern.search)
 				.onChange(async (value) => {
 					this.plugin.settings.renamePatterns[index].search = value;
+					if (errorEl) {
+						this.updatePatternError(errorEl, this.plugin.settings.renamePatterns[index]);
+					}
+					this.renderPatternIssues();
+					await this.plugin.saveSettings();
+				}))
+			.addDropdown(dropdown => dropdown
+				.addOption('exact', 'Exact')
+				.addOption('glob', 'Glob')
+				.addOption('regex', 'Regex')
+				.addOption('prefix', 'Prefix')
+				.setValue(pattern.matchMode || 'exact')
+				.onChange(async (value) => {
+					this.plugin.settings.renamePatterns[index].matchMode = value as MatchMode;
+					await this.plugin.saveSettings();
+					this.display(); // Refresh to update placeholder and validation
+				}))
+			.addDropdown(dropdown => dropdown
+				.addOption('default', 'Default')
+				.addOption('sensitive', 'Match')
+				.addOption('insensitive', 'Ignore')
+				.setValue(pattern.caseInsensitive === undefined ? 'default' : pattern.caseInsensitive ? 'insensitive' : 'sensitive')
+				.onChange(async (value) => {
+					const current = this.plugin.settings.renamePatterns[index];
+					if (value === 'default') {
+						delete current.caseInsensitive;
+					} else {
+						current.caseInsensitive = value === 'insensitive';
+					}
+					this.renderPatternIssues();
+					await this.plugin.saveSettings();
+				}))
+			.addDropdown(dropdown => dropdown
+				.addOption('default', 'Default')
+				.addOption('none', 'None')
+				.addOption('NFC', 'NFC')
+				.addOption('NFKC', 'NFKC')
+				.setValue(pattern.unicodeNormalization || 'default')
+				.onChange(async (value) => {
+					const current = this.plugin.settings.renamePatterns[index];
+					if (value === 'default') {
+						delete current.unicodeNormalization;
+					} else {
+						current.unicodeNormalization = value as UnicodeNormalization;
+					}
+					this.renderPatternIssues();
 					await this.plugin.saveSettings();
 				}))
 			.addToggle(toggle => toggle
@@ -257,6 +1133,7 @@ export class TagRenamerSettingTab extends PluginSettingTab {
 				.setDisabled(pattern.removeMode || false)
 				.onChange(async (value) => {
 					this.plugin.settings.renamePatterns[index].replace = value;
+					this.renderPatternIssues();
 					await this.plugin.saveSettings();
 				}))
 			.addButton(button => button
@@ -274,13 +1151,16 @@ export class TagRenamerSettingTab extends PluginSettingTab {
 			settingControl.style.cssText = CSS_STYLES.PATTERN_CONTROL;
 			
 			const elements = settingControl.children;
-			if (elements.length >= 4) {
-				(elements[0] as HTMLElement).style.width = '35%'; // Search input
-				(elements[1] as HTMLElement).style.width = '60px'; // Toggle
-				(elements[1] as HTMLElement).style.textAlign = 'center';
-				(elements[2] as HTMLElement).style.width = '35%'; // Replace input
-				(elements[3] as HTMLElement).style.width = '40px'; // Delete button
-				(elements[3] as HTMLElement).style.textAlign = 'center';
+			if (elements.length >= 7) {
+				(elements[0] as HTMLElement).style.width = '25%'; // Search input
+				(elements[1] as HTMLElement).style.width = '90px'; // Mode dropdown
+				(elements[2] as HTMLElement).style.width = '80px'; // Case dropdown
+				(elements[3] as HTMLElement).style.width = '80px'; // Unicode dropdown
+				(elements[4] as HTMLElement).style.width = '60px'; // Toggle
+				(elements[4] as HTMLElement).style.textAlign = 'center';
+				(elements[5] as HTMLElement).style.width = '25%'; // Replace input
+				(elements[6] as HTMLElement).style.width = '40px'; // Delete button
+				(elements[6] as HTMLElement).style.textAlign = 'center';
 			}
 		}
 
@@ -289,6 +1169,78 @@ export class TagRenamerSettingTab extends PluginSettingTab {
 		if (settingInfo instanceof HTMLElement) {
 			settingInfo.style.display = 'none';
 		}
+
+		// Invalid regexes are reported here instead of failing when the patterns run
+		errorEl = containerEl.createDiv('pattern-error');
+		errorEl.style.cssText = CSS_STYLES.PATTERN_ERROR;
+		this.updatePatternError(errorEl, pattern);
+
+		const warningEl = containerEl.createDiv('pattern-warning');
+		warningEl.style.cssText = CSS_STYLES.PATTERN_WARNING;
+		this.patternWarningEls[index] = warningEl;
+	}
+
+	/**
+	 * Lists the pattern analyzer's findings with fixes, and marks the affected pattern rows
+	 */
+	renderPatternIssues(): void {
+		if (!this.patternIssuesEl) {
+			return;
+		}
+		const parallel = this.plugin.settings.patternOrder === 'parallel';
+		const issues = this.patternAnalyzer.analyze(this.plugin.settings.renamePatterns, parallel, this.plugin.settings.tagMatching);
+
+		this.patternIssuesEl.empty();
+		this.patternIssuesEl.style.cssText = issues.length > 0 ? CSS_STYLES.PATTERN_ISSUES : '';
+		issues.forEach(issue => this.renderPatternIssue(this.patternIssuesEl as HTMLElement, issue));
+
+		this.patternWarningEls.forEach((warningEl, index) => {
+			const related = issues.filter(issue => issue.patternIndexes.includes(index));
+			warningEl.textContent = related.length > 0 ? `⚠ ${related.map(issue => ISSUE_LABELS[issue.type]).join(', ')}` : '';
+			warningEl.style.display = related.length > 0 ? 'block' : 'none';
+		});
+	}
+
+	renderPatternIssue(container: HTMLElement, issue: PatternIssue): void {
+		const issueEl = container.createDiv();
+		issueEl.createSpan({text: `⚠ ${issue.message} `});
+
+		if (issue.type === 'chain') {
+			const collapseButton = issueEl.createEl('button', {text: 'Collapse chain'});
+			collapseButton.onclick = async () => {
+				this.plugin.settings.renamePatterns = this.patternAnalyzer.collapseChain(this.plugin.settings.renamePatterns, issue.patternIndexes[0], this.plugin.settings.tagMatching);
+				await this.plugin.saveSettings();
+				this.display();
+			};
+		}
+		if (issue.type === 'chain' || issue.type === 'cycle') {
+			const parallelButton = issueEl.createEl('button', {text: 'Apply in parallel'});
+			parallelButton.style.marginLeft = '5px';
+			parallelButton.onclick = async () => {
+				this.plugin.settings.patternOrder = 'parallel';
+				await this.plugin.saveSettings();
+				this.display();
+			};
+		}
+	}
+
+	getSearchPlaceholder(matchMode?: MatchMode): string {
+		switch (matchMode) {
+			case 'glob':
+				return 'e.g. project/*';
+			case 'regex':
+				return 'e.g. proj-(.+)';
+			case 'prefix':
+				return 'e.g. area/work';
+			default:
+				return 'Search for...';
+		}
+	}
+
+	updatePatternError(errorEl: HTMLElement, pattern: RenamePattern): void {
+		const error = pattern.search ? this.tagProcessor.validatePattern(pattern) : null;
+		errorEl.textContent = error ? `Invalid pattern: ${error}` : '';
+		errorEl.style.display = error ? 'block' : 'none';
 	}
 
 	getMappedTags(): Set<string> {
@@ -353,58 +1305,168 @@ export class TagRenamerSettingTab extends PluginSettingTab {
 			cls: 'setting-item-description'
 		});
 
-		const tagContainer = tagsDiv.createDiv('tag-container');
-		tagContainer.style.display = 'flex';
-		tagContainer.style.flexWrap = 'wrap';
-		tagContainer.style.gap = '5px';
-		tagContainer.style.marginTop = '10px';
+		tagsDiv.createEl('p', {
+			text: 'Nested tags are grouped by parent. Use "rename subtree" to create a prefix pattern that carries all children along.',
+			cls: 'setting-item-description'
+		});
 
-		unmappedTags.forEach(tag => {
-			const tagEl = tagContainer.createEl('span', {
-				text: tag,
-				cls: 'tag-pill'
-			});
-			
-			tagEl.style.cssText = CSS_STYLES.TAG_PILL;
+		const treeContainer = tagsDiv.createDiv('tag-tree');
+		treeContainer.style.marginTop = '10px';
+		this.renderTagTree(treeContainer, this.tagProcessor.buildTagTree(unmappedTags));
+	}
 
-			tagEl.addEventListener('click', () => {
-				this.addPatternWithTag(tag);
-			});
+	renderTagTree(container: HTMLElement, nodes: TagTreeNode[]): void {
+		const leaves = nodes.filter(node => node.children.length === 0);
+		const parents = nodes.filter(node => node.children.length > 0);
+
+		if (leaves.length > 0) {
+			const leafContainer = container.createDiv('tag-container');
+			leafContainer.style.display = 'flex';
+			leafContainer.style.flexWrap = 'wrap';
+			leafContainer.style.gap = '5px';
+			leafContainer.style.marginBottom = '5px';
+			leaves.forEach(node => this.createTagPill(leafContainer, node));
+		}
 
-			tagEl.addEventListener('mouseenter', () => {
-				tagEl.style.opacity = '0.8';
+		parents.forEach(node => {
+			const details = container.createEl('details', {cls: 'tag-tree-node'});
+			const summary = details.createEl('summary');
+			summary.style.cssText = CSS_STYLES.PATTERN_CONTROL;
+			summary.style.display = 'list-item';
+			summary.style.marginBottom = '5px';
+
+			this.createTagPill(summary, node);
+
+			const subtreeEl = summary.createEl('a', {text: `rename subtree (${this.countTags(node)})`});
+			subtreeEl.style.marginLeft = '8px';
+			subtreeEl.style.fontSize = '12px';
+			subtreeEl.addEventListener('click', (event) => {
+				event.preventDefault();
+				this.addPatternWithTag(node.path, 'prefix');
 			});
 
-			tagEl.addEventListener('mouseleave', () => {
-				tagEl.style.opacity = '1';
+			const childrenEl = details.createDiv('tag-tree-children');
+			childrenEl.style.paddingLeft = '20px';
+			this.renderTagTree(childrenEl, node.children);
+		});
+	}
+
+	createTagPill(container: HTMLElement, node: TagTreeNode): void {
+		const tagEl = container.createEl('span', {
+			text: node.name,
+			cls: 'tag-pill',
+			attr: { title: node.path }
+		});
+
+		tagEl.style.cssText = CSS_STYLES.TAG_PILL;
+		const baseOpacity = node.isTag ? '1' : '0.6';
+		tagEl.style.opacity = baseOpacity;
+
+		tagEl.addEventListener('click', (event) => {
+			event.preventDefault();
+			// Intermediate levels are not tags on their own, so only a subtree rename makes sense
+			this.addPatternWithTag(node.path, node.isTag ? 'exact' : 'prefix');
+		});
+
+		tagEl.addEventListener('mouseenter', () => {
+			tagEl.style.opacity = '0.8';
+		});
+
+		tagEl.addEventListener('mouseleave', () => {
+			tagEl.style.opacity = baseOpacity;
+		});
+	}
+
+	countTags(node: TagTreeNode): number {
+		return node.children.reduce((count, child) => count + this.countTags(child), node.isTag ? 1 : 0);
+	}
+
+	displaySimilarTags(container: HTMLElement): void {
+		const existingResults = container.querySelector('.similar-tags-results');
+		if (existingResults) {
+			existingResults.remove();
+		}
+
+		if (!this.similarClusters) return;
+
+		const resultsDiv = container.createDiv('similar-tags-results');
+
+		if (this.similarClusters.length === 0) {
+			resultsDiv.createEl('p', {
+				text: 'No similar tags found.',
+				cls: 'setting-item-description'
 			});
+			return;
+		}
+
+		this.similarClusters.forEach(cluster => {
+			let target = cluster.canonical;
+
+			const clusterSetting = new Setting(resultsDiv)
+				.setName(cluster.tags.map(tag => `${tag} (${this.similarTagCounts.get(tag) || 0})`).join(', '))
+				.setDesc(`Similar by ${cluster.reasons.join(', ')}`)
+				.addDropdown(dropdown => {
+					cluster.tags.forEach(tag => dropdown.addOption(tag, tag));
+					dropdown.setValue(target)
+						.onChange(value => {
+							target = value;
+						});
+				})
+				.addButton(button => button
+					.setButtonText('Create merge patterns')
+					.onClick(() => this.createMergePatterns(cluster, target)));
+
+			clusterSetting.nameEl.style.fontFamily = 'var(--font-monospace)';
 		});
 	}
 
-	addPatternWithTag(tag: string): void {
-		this.plugin.settings.renamePatterns.push({ search: tag, replace: '', removeMode: false });
+	createMergePatterns(cluster: TagCluster, target: string): void {
+		const mappedTags = this.getMappedTags();
+		const patterns = this.tagProcessor.buildMergePatterns(cluster.tags, target)
+			.filter(pattern => !mappedTags.has(pattern.search));
+
+		if (patterns.length === 0) {
+			new Notice('All tags in this group are already mapped in patterns');
+			return;
+		}
+
+		this.plugin.settings.renamePatterns.push(...patterns);
+		this.plugin.saveSettings();
+		this.similarClusters = (this.similarClusters || []).filter(c => c !== cluster);
+		this.display();
+		new Notice(`Added ${patterns.length} pattern(s) merging into "${target}"`);
+	}
+
+	addPatternWithTag(tag: string, matchMode: MatchMode = 'exact'): void {
+		this.plugin.settings.renamePatterns.push({ search: tag, replace: '', removeMode: false, matchMode });
 		this.plugin.saveSettings();
 		this.display();
 		new Notice(`Added "${tag}" to search patterns`);
 	}
 
-	exportPatterns(): void {
-		const tagPatternCount = this.plugin.settings.renamePatterns.length;
-		const propertyPatternCount = this.plugin.settings.propertyRenamePatterns?.length || 0;
-		const totalPatterns = tagPatternCount + propertyPatternCount;
+	/**
+	 * Downloads the active patterns, or a single pattern set when setId is given
+	 */
+	exportPatterns(setId?: string): void {
+		const set = setId ? this.plugin.getPatternSet(setId) : null;
+		const tagPatternCount = set ? set.renamePatterns.length : this.plugin.settings.renamePatterns.length;
+		const propertyPatternCount = set ? set.propertyRenamePatterns.length : this.plugin.settings.propertyRenamePatterns?.length || 0;
+		const valueRuleCount = set ? 0 : this.plugin.settings.propertyValueRules?.length || 0;
+		const totalPatterns = tagPatternCount + propertyPatternCount + valueRuleCount;
 		
 		if (totalPatterns === 0) {
 			new Notice('No patterns to export');
 			return;
 		}
 
-		const jsonData = this.plugin.exportPatternsToJson();
+		const jsonData = this.plugin.exportPatternsToJson(setId);
 		const blob = new Blob([jsonData], { type: 'application/json' });
 		const url = URL.createObjectURL(blob);
+		const setSuffix = set ? `-${set.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '')}` : '';
 		
 		const a = document.createElement('a');
 		a.href = url;
-		a.download = `tag-renamer-patterns-${new Date().toISOString().split('T')[0]}.json`;
+		a.download = `tag-renamer-patterns${setSuffix}-${new Date().toISOString().split('T')[0]}.json`;
 		document.body.appendChild(a);
 		a.click();
 		document.body.removeChild(a);
@@ -413,14 +1475,14 @@ export class TagRenamerSettingTab extends PluginSettingTab {
 		const message = propertyPatternCount > 0 
 			? `Exported ${tagPatternCount} tag patterns and ${propertyPatternCount} property patterns to JSON`
 			: `Exported ${tagPatternCount} tag patterns to JSON`;
-		new Notice(message);
+		new Notice(valueRuleCount > 0 ? `${message} (with ${valueRuleCount} property value rules)` : message);
 	}
 
 	importPatterns(): void {
 		new ImportPatternsModal(this.app, this.plugin, this).open();
 	}
 
-	displayFoundProperties(container: HTMLElement, properties: string[]): void {
+	displayFoundProperties(container: HTMLElement, properties: DiscoveredProperty[]): void {
 		// Remove existing property display
 		const existingPropertiesDiv = container.querySelector('.properties-discovery-results');
 		if (existingPropertiesDiv) {
@@ -438,9 +1500,7 @@ export class TagRenamerSettingTab extends PluginSettingTab {
 
 		// Filter out properties that are already mapped in patterns
 		const mappedProperties = this.getMappedProperties();
-		const unmappedProperties = properties.filter(prop => !mappedProperties.has(prop)).sort((a, b) => 
-			a.toLowerCase().localeCompare(b.toLowerCase())
-		);
+		const unmappedProperties = properties.filter(prop => !mappedProperties.has(prop.name));
 
 		const propertiesDiv = container.createDiv('properties-discovery-results');
 		
@@ -457,7 +1517,7 @@ export class TagRenamerSettingTab extends PluginSettingTab {
 		
 		const subtitleText = mappedProperties.size > 0 
 			? `Click to add patterns • ${mappedProperties.size} already mapped, ${unmappedProperties.length} available`
-			: 'Click on any property to add it to a new property pattern';
+			: 'Click on any property to add it to a new property pattern. Most likely tag properties are listed first.';
 			
 		propertiesDiv.createEl('p', {
 			text: subtitleText,
@@ -466,20 +1526,37 @@ export class TagRenamerSettingTab extends PluginSettingTab {
 
 		const propertyContainer = propertiesDiv.createDiv('property-container');
 		propertyContainer.style.display = 'flex';
-		propertyContainer.style.flexWrap = 'wrap';
+		propertyContainer.style.flexDirection = 'column';
 		propertyContainer.style.gap = '5px';
 		propertyContainer.style.marginTop = '10px';
 
 		unmappedProperties.forEach(property => {
-			const propertyEl = propertyContainer.createEl('span', {
-				text: property,
+			const rowEl = propertyContainer.createDiv('property-row');
+			rowEl.style.display = 'flex';
+			rowEl.style.alignItems = 'baseline';
+			rowEl.style.gap = '8px';
+
+			const propertyEl = rowEl.createEl('span', {
+				text: property.name,
 				cls: 'property-pill'
 			});
 			
 			propertyEl.style.cssText = CSS_STYLES.TAG_PILL;
 
+			const details = [
+				`${property.noteCount} ${property.noteCount === 1 ? 'note' : 'notes'}`,
+				`${property.confidence}% confidence`
+			];
+			if (property.sample) {
+				details.push(`e.g. ${property.sample.length > 40 ? property.sample.slice(0, 39) + '…' : property.sample}`);
+			}
+			rowEl.createEl('span', {
+				text: [...details, ...property.reasons].join(' · '),
+				cls: 'setting-item-description'
+			});
+
 			propertyEl.addEventListener('click', () => {
-				this.addPropertyPatternWithProperty(property);
+				this.addPropertyPatternWithProperty(property.name);
 			});
 
 			propertyEl.addEventListener('mouseenter', () => {
@@ -524,14 +1601,17 @@ export class TagRenamerSettingTab extends PluginSettingTab {
 			headerControl.innerHTML = '';
 			headerControl.style.cssText = CSS_STYLES.HEADER_CONTROL;
 
-			const fromHeader = headerControl.createEl('div', {text: 'From Property'});
-			fromHeader.style.width = '40%';
+			const fromHeader = headerControl.createEl('div', {text: 'Property'});
+			fromHeader.style.width = '32%';
+
+			const operationHeader = headerControl.createEl('div', {text: 'Operation'});
+			operationHeader.style.width = '18%';
 
-			const toHeader = headerControl.createEl('div', {text: 'To Property'});
-			toHeader.style.width = '40%';
+			const toHeader = headerControl.createEl('div', {text: 'New Name / Value'});
+			toHeader.style.width = '32%';
 
 			const actionHeader = headerControl.createEl('div', {text: 'Action'});
-			actionHeader.style.width = '20%';
+			actionHeader.style.width = '18%';
 			actionHeader.style.textAlign = 'center';
 		}
 
@@ -543,9 +1623,10 @@ export class TagRenamerSettingTab extends PluginSettingTab {
 	}
 
 	createPropertyPatternSetting(containerEl: HTMLElement, pattern: PropertyRenamePattern, index: number): void {
+		const action = pattern.action || 'rename';
 		const setting = new Setting(containerEl)
 			.addText(text => text
-				.setPlaceholder('From property name...')
+				.setPlaceholder(action === 'rename' ? 'From property name...' : 'Property name...')
 				.setValue(pattern.from)
 				.onChange(async (value) => {
 					if (this.plugin.settings.propertyRenamePatterns) {
@@ -553,15 +1634,41 @@ export class TagRenamerSettingTab extends PluginSettingTab {
 						await this.plugin.saveSettings();
 					}
 				}))
-			.addText(text => text
-				.setPlaceholder('To property name...')
-				.setValue(pattern.to)
+			.addDropdown(dropdown => dropdown
+				.addOption('rename', 'Rename')
+				.addOption('delete', 'Delete')
+				.addOption('set', 'Set value')
+				.addOption('add', 'Add if missing')
+				.setValue(action)
 				.onChange(async (value) => {
 					if (this.plugin.settings.propertyRenamePatterns) {
-						this.plugin.settings.propertyRenamePatterns[index].to = value;
+						const edited = this.plugin.settings.propertyRenamePatterns[index];
+						if (value === 'rename') {
+							delete edited.action;
+							delete edited.value;
+						} else {
+							edited.action = value as PropertyAction;
+							edited.value = value === 'delete' ? undefined : edited.value || '';
+						}
 						await this.plugin.saveSettings();
+						this.display();
 					}
 				}))
+			.addText(text => {
+				text.setPlaceholder(this.getPropertyTargetPlaceholder(action))
+					.setValue(action === 'rename' ? pattern.to : pattern.value || '')
+					.setDisabled(action === 'delete')
+					.onChange(async (value) => {
+						if (this.plugin.settings.propertyRenamePatterns) {
+							if (action === 'rename') {
+								this.plugin.settings.propertyRenamePatterns[index].to = value;
+							} else {
+								this.plugin.settings.propertyRenamePatterns[index].value = value;
+							}
+							await this.plugin.saveSettings();
+						}
+					});
+			})
 			.addButton(button => button
 				.setIcon('trash')
 				.setTooltip('Remove property pattern')
@@ -579,11 +1686,12 @@ export class TagRenamerSettingTab extends PluginSettingTab {
 			settingControl.style.cssText = CSS_STYLES.PATTERN_CONTROL;
 			
 			const elements = settingControl.children;
-			if (elements.length >= 3) {
-				(elements[0] as HTMLElement).style.width = '40%'; // From input
-				(elements[1] as HTMLElement).style.width = '40%'; // To input
-				(elements[2] as HTMLElement).style.width = '20%'; // Delete button
-				(elements[2] as HTMLElement).style.textAlign = 'center';
+			if (elements.length >= 4) {
+				(elements[0] as HTMLElement).style.width = '32%'; // Property input
+				(elements[1] as HTMLElement).style.width = '18%'; // Operation dropdown
+				(elements[2] as HTMLElement).style.width = '32%'; // New name or value input
+				(elements[3] as HTMLElement).style.width = '18%'; // Delete button
+				(elements[3] as HTMLElement).style.textAlign = 'center';
 			}
 		}
 
@@ -593,4 +1701,17 @@ export class TagRenamerSettingTab extends PluginSettingTab {
 			settingInfo.style.display = 'none';
 		}
 	}
+
+	getPropertyTargetPlaceholder(action: PropertyAction): string {
+		switch (action) {
+			case 'delete':
+				return 'Removed from every note';
+			case 'set':
+				return 'Value, e.g. draft or [a, b]';
+			case 'add':
+				return 'Value, e.g. false';
+			default:
+				return 'To property name...';
+		}
+	}
 }
\ No newline at end of file
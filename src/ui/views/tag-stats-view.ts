@@ -0,0 +1,195 @@
+/**
+ * Tag Statistics View
+ * Workspace view listing every tag with its file count, where it is used and when it was last used.
+ * Rows can be expanded to open the files carrying the tag, or turned into rename/remove patterns.
+ */
+
+import { ItemView, WorkspaceLeaf, debounce } from 'obsidian';
+import { TagRenamerPlugin } from '../../types/plugin-types';
+import { TagStat } from '../../types/interfaces';
+import { CSS_STYLES } from '../../constants/patterns';
+import { TagPatternModal } from '../modals/tag-pattern-modal';
+
+export const VIEW_TYPE_TAG_STATS = 'tag-renamer-stats';
+
+type StatsColumn = 'tag' | 'fileCount' | 'location' | 'lastModified';
+
+const COLUMNS: { key: StatsColumn; label: string }[] = [
+	{ key: 'tag', label: 'Tag' },
+	{ key: 'fileCount', label: 'Files' },
+	{ key: 'location', label: 'Used in' },
+	{ key: 'lastModified', label: 'Last modified' }
+];
+
+export class TagStatsView extends ItemView {
+	plugin: TagRenamerPlugin;
+	stats: TagStat[] = [];
+	sortColumn: StatsColumn = 'fileCount';
+	sortAscending = false;
+	expanded = new Set<string>();
+	private unsubscribeTagIndex: (() => void) | null = null;
+
+	constructor(leaf: WorkspaceLeaf, plugin: TagRenamerPlugin) {
+		super(leaf);
+		this.plugin = plugin;
+	}
+
+	getViewType(): string {
+		return VIEW_TYPE_TAG_STATS;
+	}
+
+	getDisplayText(): string {
+		return 'Tag statistics';
+	}
+
+	getIcon(): string {
+		return 'bar-chart-2';
+	}
+
+	async onOpen(): Promise<void> {
+		this.unsubscribeTagIndex = this.plugin.onTagIndexChange(debounce(() => this.refresh(), 1000, true));
+		await this.refresh();
+	}
+
+	async onClose(): Promise<void> {
+		this.unsubscribeTagIndex?.();
+		this.unsubscribeTagIndex = null;
+	}
+
+	async refresh(): Promise<void> {
+		this.stats = await this.plugin.getTagStats();
+		this.render();
+	}
+
+	render(): void {
+		const container = this.contentEl;
+		container.empty();
+
+		container.createEl('h4', {text: `Tag statistics (${this.stats.length} tags)`});
+
+		if (this.stats.length === 0) {
+			container.createEl('p', {
+				text: 'No tags found in your vault.',
+				cls: 'setting-item-description'
+			});
+			return;
+		}
+
+		const table = container.createEl('table');
+		table.style.cssText = CSS_STYLES.STATS_TABLE;
+
+		const headerRow = table.createEl('thead').createEl('tr');
+		COLUMNS.forEach(column => {
+			const arrow = column.key === this.sortColumn ? (this.sortAscending ? ' ▲' : ' ▼') : '';
+			const th = headerRow.createEl('th', {text: column.label + arrow});
+			th.style.cssText = CSS_STYLES.STATS_HEADER_CELL;
+			th.addEventListener('click', () => this.sortBy(column.key));
+		});
+		headerRow.createEl('th').style.cssText = CSS_STYLES.STATS_HEADER_CELL;
+
+		const body = table.createEl('tbody');
+		this.getSortedStats().forEach(stat => this.renderRow(body, stat));
+	}
+
+	renderRow(body: HTMLElement, stat: TagStat): void {
+		const row = body.createEl('tr');
+
+		const tagCell = row.createEl('td');
+		tagCell.style.cssText = CSS_STYLES.STATS_CELL;
+		const toggle = tagCell.createEl('a', {
+			text: `${this.expanded.has(stat.tag) ? '▾' : '▸'} #${stat.tag}`,
+			href: '#'
+		});
+		toggle.addEventListener('click', (event) => {
+			event.preventDefault();
+			if (this.expanded.has(stat.tag)) {
+				this.expanded.delete(stat.tag);
+			} else {
+				this.expanded.add(stat.tag);
+			}
+			this.render();
+		});
+
+		row.createEl('td', {text: String(stat.fileCount)}).style.cssText = CSS_STYLES.STATS_CELL;
+		row.createEl('td', {text: this.getLocation(stat)}).style.cssText = CSS_STYLES.STATS_CELL;
+		row.createEl('td', {
+			text: stat.lastModified > 0 ? new Date(stat.lastModified).toLocaleDateString() : ''
+		}).style.cssText = CSS_STYLES.STATS_CELL;
+
+		const actionsCell = row.createEl('td');
+		actionsCell.style.cssText = CSS_STYLES.STATS_CELL;
+
+		const renameButton = actionsCell.createEl('button', {text: 'Rename'});
+		renameButton.onclick = () => {
+			new TagPatternModal(this.app, this.plugin, stat.tag).open();
+		};
+
+		const mergeButton = actionsCell.createEl('button', {text: 'Merge'});
+		mergeButton.style.marginLeft = '5px';
+		mergeButton.onclick = async () => {
+			await this.plugin.showMergeTagsModal([stat.tag]);
+		};
+
+		const removeButton = actionsCell.createEl('button', {text: 'Remove'});
+		removeButton.style.marginLeft = '5px';
+		removeButton.onclick = async () => {
+			await this.plugin.addRenamePattern({ search: stat.tag, replace: '', removeMode: true, matchMode: 'exact' });
+		};
+
+		if (this.expanded.has(stat.tag)) {
+			const filesCell = body.createEl('tr').createEl('td', {attr: {colspan: String(COLUMNS.length + 1)}});
+			const fileList = filesCell.createEl('ul');
+			fileList.style.cssText = CSS_STYLES.STATS_FILE_LIST;
+			[...stat.files].sort((a, b) => a.localeCompare(b)).forEach(path => {
+				const link = fileList.createEl('li').createEl('a', {text: path, href: '#'});
+				link.addEventListener('click', (event) => {
+					event.preventDefault();
+					this.app.workspace.openLinkText(path, '', event.ctrlKey || event.metaKey);
+				});
+			});
+		}
+	}
+
+	sortBy(column: StatsColumn): void {
+		if (this.sortColumn === column) {
+			this.sortAscending = !this.sortAscending;
+		} else {
+			this.sortColumn = column;
+			// Text columns read best A→Z, numbers and dates biggest/newest first
+			this.sortAscending = column === 'tag' || column === 'location';
+		}
+		this.render();
+	}
+
+	getSortedStats(): TagStat[] {
+		const direction = this.sortAscending ? 1 : -1;
+		return [...this.stats].sort((a, b) => {
+			let result: number;
+			switch (this.sortColumn) {
+				case 'fileCount':
+					result = a.fileCount - b.fileCount;
+					break;
+				case 'location':
+					result = this.getLocation(a).localeCompare(this.getLocation(b));
+					break;
+				case 'lastModified':
+					result = a.lastModified - b.lastModified;
+					break;
+				default:
+					result = 0;
+			}
+			// Ties (and the tag column itself) fall back to alphabetical order
+			if (result === 0) {
+				return a.tag.toLowerCase().localeCompare(b.tag.toLowerCase()) * (this.sortColumn === 'tag' ? direction : 1);
+			}
+			return result * direction;
+		});
+	}
+
+	getLocation(stat: TagStat): string {
+		if (stat.frontmatterCount > 0 && stat.bodyCount > 0) {
+			return 'Both';
+		}
+		return stat.frontmatterCount > 0 ? 'Frontmatter' : 'Body';
+	}
+}